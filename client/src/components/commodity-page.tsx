@@ -14,7 +14,7 @@ interface CommodityPageProps {
 }
 
 export function CommodityPage({ title, tables }: CommodityPageProps) {
-  const { optionChainData, isConnected, subscribe } = useWebSocketContext();
+  const { optionChainData, isConnected, subscribe, unsubscribe } = useWebSocketContext();
 
   // Extract all symbols from tables
   const symbols = useMemo(() => {
@@ -27,13 +27,15 @@ export function CommodityPage({ title, tables }: CommodityPageProps) {
     return Array.from(allSymbols);
   }, [tables]);
 
-  // Subscribe to symbols when component mounts or symbols change
+  // Subscribe to symbols when component mounts or symbols change, and unsubscribe when leaving the page so the
+  // server only counts the symbols on screen as viewed
   useEffect(() => {
     if (symbols.length > 0) {
       subscribe(symbols);
       console.log(`[${title}] Subscribing to symbols:`, symbols);
+      return () => unsubscribe(symbols);
     }
-  }, [symbols, subscribe, title]);
+  }, [symbols, subscribe, unsubscribe, title]);
 
   return (
     <div className='px-4'>
@@ -1,27 +1,14 @@
 import { NotificationCenter } from '@client/components/notification-center';
+import { usePaperTrading } from '@client/hooks/use-paper-trading';
 import { useUserMargin } from '@client/hooks/use-user-margin';
 import { api } from '@client/lib/api';
-import { cn } from '@client/lib/utils';
+import { cn, formatCompactAmount } from '@client/lib/utils';
 import { PAGE_CONFIGS } from '@client/types/option-chain';
 import { useQuery } from '@tanstack/react-query';
 import { Link, useLocation } from '@tanstack/react-router';
+import { RiskWidget } from './risk-widget';
 import { UserButton } from './user-button';
 
-function formatMargin(value: number): string {
-  const absValue = Math.abs(value);
-  if (absValue >= 1_00_00_000) {
-    // 1 crore or more - show in crores
-    return `${(value / 1_00_00_000).toFixed(1)}Cr`;
-  } else if (absValue >= 1_00_000) {
-    // 10 lakh or more - show in lakhs
-    return `${(value / 1_00_000).toFixed(1)}L`;
-  } else if (absValue >= 1000) {
-    // 1000 or more - show in thousands
-    return `${(value / 1000).toFixed(1)}K`;
-  }
-  return value.toFixed(0);
-}
-
 interface HeaderProps {
   isConnected: boolean;
 }
@@ -38,10 +25,21 @@ export function Header({ isConnected }: HeaderProps) {
   });
 
   const { data: marginData } = useUserMargin();
+  const { data: paperTradingData } = usePaperTrading();
+  const isPaperTrading = paperTradingData?.enabled ?? false;
 
   return (
-    <div className='border-border bg-background sticky top-0 z-10 border-b py-4'>
-      <header className='container mx-auto flex items-center justify-between px-4'>
+    <div className='border-border bg-background sticky top-0 z-10 border-b'>
+      {/* Paper Trading Banner */}
+      {isPaperTrading && (
+        <Link
+          to='/settings'
+          className='block bg-amber-500 py-1 text-center text-sm font-semibold tracking-wide text-amber-950 uppercase hover:bg-amber-400'
+        >
+          Paper trading — orders are simulated and never sent to Kite
+        </Link>
+      )}
+      <header className='container mx-auto flex items-center justify-between px-4 py-4'>
         <div className='flex items-center gap-6'>
           {/* Logo - Home Link */}
           <Link to='/' className='flex items-center gap-3 transition-opacity hover:opacity-80'>
@@ -68,6 +66,50 @@ export function Header({ isConnected }: HeaderProps) {
                 </Link>
               );
             })}
+            <Link
+              to='/volatility'
+              className={`rounded-md px-3 py-1.5 text-sm font-medium transition-colors ${
+                location.pathname === '/volatility'
+                  ? 'bg-primary/10 text-primary dark:bg-muted dark:text-foreground'
+                  : 'text-muted-foreground hover:bg-muted'
+              }`}
+            >
+              <span className='mr-1.5'>📈</span>
+              Volatility
+            </Link>
+            <Link
+              to='/positions'
+              className={`rounded-md px-3 py-1.5 text-sm font-medium transition-colors ${
+                location.pathname === '/positions'
+                  ? 'bg-primary/10 text-primary dark:bg-muted dark:text-foreground'
+                  : 'text-muted-foreground hover:bg-muted'
+              }`}
+            >
+              <span className='mr-1.5'>💼</span>
+              Positions
+            </Link>
+            <Link
+              to='/orders'
+              className={`rounded-md px-3 py-1.5 text-sm font-medium transition-colors ${
+                location.pathname === '/orders'
+                  ? 'bg-primary/10 text-primary dark:bg-muted dark:text-foreground'
+                  : 'text-muted-foreground hover:bg-muted'
+              }`}
+            >
+              <span className='mr-1.5'>📋</span>
+              Orders
+            </Link>
+            <Link
+              to='/scenarios'
+              className={`rounded-md px-3 py-1.5 text-sm font-medium transition-colors ${
+                location.pathname === '/scenarios'
+                  ? 'bg-primary/10 text-primary dark:bg-muted dark:text-foreground'
+                  : 'text-muted-foreground hover:bg-muted'
+              }`}
+            >
+              <span className='mr-1.5'>🧪</span>
+              Scenarios
+            </Link>
           </nav>
         </div>
 
@@ -93,12 +135,13 @@ export function Header({ isConnected }: HeaderProps) {
                   : 'bg-red-500/15 text-red-700 dark:bg-red-500/20 dark:text-red-400'
               )}
             >
-              <span className='opacity-70'>Avl. Margin</span>
-              <span>₹{formatMargin(marginData.net)}</span>
+              <span className='opacity-70'>{isPaperTrading ? 'Paper Margin' : 'Avl. Margin'}</span>
+              <span>₹{formatCompactAmount(marginData.net)}</span>
             </div>
           )}
 
           <NotificationCenter />
+          <RiskWidget />
           <UserButton isConnected={isConnected} />
         </div>
       </header>
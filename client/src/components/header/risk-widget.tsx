@@ -0,0 +1,100 @@
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@client/components/ui/dropdown-menu';
+import { useWebSocketContext } from '@client/contexts/websocket-context';
+import { cn, formatCompactAmount } from '@client/lib/utils';
+import type { RiskGreeks } from '@client/types/risk';
+import { Link } from '@tanstack/react-router';
+
+const signed = (value: number, digits = 2) => `${value > 0 ? '+' : ''}${value.toFixed(digits)}`;
+const signedAmount = (value: number) =>
+  `${value > 0 ? '+' : value < 0 ? '-' : ''}₹${formatCompactAmount(Math.abs(value))}`;
+
+const valueClassName = (value: number) =>
+  value > 0 ? 'text-emerald-600 dark:text-emerald-400' : value < 0 ? 'text-red-600 dark:text-red-400' : '';
+
+function GreeksCells({ greeks }: { greeks: RiskGreeks }) {
+  return (
+    <>
+      <td className={cn('px-2 py-1 text-right', valueClassName(greeks.deltaLots))}>{signed(greeks.deltaLots)}</td>
+      <td className='text-muted-foreground px-2 py-1 text-right'>{signedAmount(greeks.deltaValue)}</td>
+      <td className='px-2 py-1 text-right'>{signed(greeks.gamma, 3)}</td>
+      <td className={cn('px-2 py-1 text-right', valueClassName(greeks.vega))}>{signedAmount(greeks.vega)}</td>
+      <td className={cn('px-2 py-1 text-right', valueClassName(greeks.theta))}>{signedAmount(greeks.theta)}</td>
+    </>
+  );
+}
+
+/**
+ * Net delta and theta of the open positions, with the greeks per underlying in a dropdown
+ */
+export function RiskWidget() {
+  const { portfolioRisk } = useWebSocketContext();
+
+  if (!portfolioRisk || portfolioRisk.underlyings.length === 0) {
+    return null;
+  }
+
+  const { total, underlyings, unpricedPositions } = portfolioRisk;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger className='bg-muted/60 hover:bg-muted inline-flex items-center gap-3 rounded-full px-3 py-1 text-sm font-medium tabular-nums transition-colors'>
+        <span>
+          <span className='opacity-70'>Δ </span>
+          <span className={valueClassName(total.deltaLots)}>{signed(total.deltaLots)}</span>
+        </span>
+        <span>
+          <span className='opacity-70'>θ </span>
+          <span className={valueClassName(total.theta)}>{signedAmount(total.theta)}</span>
+        </span>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className='rounded-lg p-2' side='bottom' align='end' sideOffset={4}>
+        <DropdownMenuLabel className='flex items-center justify-between gap-6'>
+          <span>Portfolio risk</span>
+          <Link to='/positions' className='text-muted-foreground text-xs font-normal hover:underline'>
+            View positions
+          </Link>
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <table className='text-xs tabular-nums'>
+          <thead>
+            <tr className='text-muted-foreground'>
+              <th className='px-2 py-1 text-left font-medium'>Underlying</th>
+              <th className='px-2 py-1 text-right font-medium'>Δ lots</th>
+              <th className='px-2 py-1 text-right font-medium'>Δ value</th>
+              <th className='px-2 py-1 text-right font-medium'>Γ (1%)</th>
+              <th className='px-2 py-1 text-right font-medium'>Vega (1%)</th>
+              <th className='px-2 py-1 text-right font-medium'>Theta (day)</th>
+            </tr>
+          </thead>
+          <tbody>
+            {underlyings.map((risk) => (
+              <tr key={risk.underlying}>
+                <td className='px-2 py-1 font-medium'>
+                  {risk.underlying} <span className='text-muted-foreground font-normal'>({risk.positions})</span>
+                </td>
+                <GreeksCells greeks={risk} />
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr className='border-border border-t font-semibold'>
+              <td className='px-2 py-1'>Total</td>
+              <GreeksCells greeks={total} />
+            </tr>
+          </tfoot>
+        </table>
+        {unpricedPositions > 0 && (
+          <p className='text-muted-foreground px-2 pt-2 text-xs'>
+            {unpricedPositions} position(s) without live data are counted as 0
+          </p>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
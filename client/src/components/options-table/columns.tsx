@@ -1,8 +1,8 @@
 import { cn } from '@client/lib/utils';
-import type { OptionChain } from '@client/types/option-chain';
+import type { OptionChain, OrderMarginStatus } from '@client/types/option-chain';
 import type { ColumnDef, RowData } from '@tanstack/react-table';
-import { format } from 'date-fns';
-import { PlusCircleIcon } from 'lucide-react';
+import { format, formatDistanceToNowStrict } from 'date-fns';
+import { ClockIcon, Loader2Icon, PlusCircleIcon, TriangleAlertIcon } from 'lucide-react';
 import type React from 'react';
 import { DataTableColumnHeader } from './column-header';
 
@@ -36,6 +36,42 @@ export function formatScientific(value: number, decimalPlaces = 4): React.ReactN
   );
 }
 
+/**
+ * Status and age of the margin the return value is computed from, as the tooltip of the RV cell
+ */
+function getMarginTitle(option: OptionChain) {
+  const age = option.orderMarginUpdatedAt
+    ? `updated ${formatDistanceToNowStrict(option.orderMarginUpdatedAt)} ago`
+    : 'never fetched';
+  switch (option.orderMarginStatus) {
+    case 'fresh':
+      return `Margin ${age}`;
+    case 'stale':
+      return `Stale margin, ${age}. Refreshing`;
+    case 'failed':
+      return `Kite didn't return the margin, ${age}. Retrying`;
+    case 'pending':
+      return 'Margin not fetched yet';
+  }
+}
+
+function MarginStatusIcon({ status }: { status: OrderMarginStatus }) {
+  switch (status) {
+    case 'fresh':
+      return null;
+    case 'stale':
+      return <ClockIcon className='h-3.5 w-3.5 shrink-0 text-amber-600 dark:text-amber-500' />;
+    case 'failed':
+      return <TriangleAlertIcon className='h-3.5 w-3.5 shrink-0 text-red-700 dark:text-red-500' />;
+    case 'pending':
+      return <Loader2Icon className='text-muted-foreground h-3.5 w-3.5 shrink-0 animate-spin' />;
+  }
+}
+
+function greekOrDash(value: number | undefined, format: (value: number) => React.ReactNode): React.ReactNode {
+  return value && !isNaN(value) ? format(value) : '-';
+}
+
 export const columns: ColumnDef<OptionChain>[] = [
   {
     id: 'instrument',
@@ -90,6 +126,32 @@ export const columns: ColumnDef<OptionChain>[] = [
     header: 'Buyer Price',
     cell: ({ row }) => <div className='p-2 text-right tabular-nums'>{row.original.bid.toFixed(2)}</div>,
   },
+  {
+    accessorKey: 'score',
+    header: ({ table, column }) => (
+      <DataTableColumnHeader
+        table={table}
+        column={column}
+        title='Score'
+        tooltip='Weighted score from the page settings'
+      />
+    ),
+    cell: ({ row }) =>
+      row.original.score != null ? (
+        <div className='p-2 text-right font-semibold tabular-nums'>{row.original.score.toFixed(2)}</div>
+      ) : (
+        <div className='p-2 text-right'>-</div>
+      ),
+    // Options without a score sort below every scored one, even negative
+    sortingFn: (rowA, rowB) => {
+      const { score: scoreA } = rowA.original;
+      const { score: scoreB } = rowB.original;
+      if (scoreA == null || scoreB == null) {
+        return Number(scoreA != null) - Number(scoreB != null);
+      }
+      return scoreA - scoreB;
+    },
+  },
   {
     accessorKey: 'returnValue',
     header: ({ table, column }) => (
@@ -103,15 +165,26 @@ export const columns: ColumnDef<OptionChain>[] = [
             'flex w-full cursor-pointer items-center justify-between gap-1 p-2 font-semibold tabular-nums transition-opacity hover:opacity-80',
             row.original.returnValue >= 0 ? green : red
           )}
+          title={getMarginTitle(row.original)}
           onClick={() => table.options.meta?.onSelectOption?.(row.original)}
         >
           <PlusCircleIcon className='h-4 w-4 shrink-0' />
-          <span className='rounded-full px-2 py-0.25 tabular-nums ring-1 ring-gray-400 dark:ring-gray-600'>
-            {(row.original.returnValue * 100).toFixed(2)}
+          <span className='flex items-center gap-1'>
+            <MarginStatusIcon status={row.original.orderMarginStatus} />
+            <span
+              className={cn(
+                'rounded-full px-2 py-0.25 tabular-nums ring-1 ring-gray-400 dark:ring-gray-600',
+                row.original.orderMarginStatus !== 'fresh' && 'opacity-60'
+              )}
+            >
+              {(row.original.returnValue * 100).toFixed(2)}
+            </span>
           </span>
         </button>
       ) : (
-        <div className='p-2 text-right'>-</div>
+        <div className='flex items-center justify-end gap-1 p-2' title={getMarginTitle(row.original)}>
+          <MarginStatusIcon status={row.original.orderMarginStatus} />-
+        </div>
       ),
     sortingFn: (rowA, rowB) => rowA.original.returnValue - rowB.original.returnValue,
   },
@@ -175,6 +248,55 @@ export const columns: ColumnDef<OptionChain>[] = [
       );
     },
   },
+  {
+    id: 'ivSpread',
+    header: ({ table, column }) => (
+      <DataTableColumnHeader
+        table={table}
+        column={column}
+        title='IV − AV'
+        tooltip='Implied volatility at mid minus annual volatility (positive = rich)'
+      />
+    ),
+    accessorFn: (row) => (row.ivMid ? row.ivMid - row.av : 0),
+    cell: ({ row }) => {
+      const { ivMid, av } = row.original;
+
+      if (!ivMid) {
+        return (
+          <div className='bg-gray-50/60 p-2 text-center text-gray-500 dark:bg-gray-900/20 dark:text-gray-400'>N/A</div>
+        );
+      }
+
+      const spread = ivMid - av;
+      return (
+        <div className={cn('p-2 text-right font-medium tabular-nums', spread >= 0 ? green : red)}>
+          {spread >= 0 ? '+' : ''}
+          {spread.toFixed(2)}
+        </div>
+      );
+    },
+    sortingFn: (rowA, rowB) => {
+      const spreadA = rowA.original.ivMid ? rowA.original.ivMid - rowA.original.av : -Infinity;
+      const spreadB = rowB.original.ivMid ? rowB.original.ivMid - rowB.original.av : -Infinity;
+      return spreadA - spreadB;
+    },
+  },
+  {
+    id: 'iv',
+    header: ({ table, column }) => (
+      <DataTableColumnHeader table={table} column={column} title='IV %' tooltip='Implied volatility: bid / mid / ask' />
+    ),
+    accessorFn: (row) => row.ivMid,
+    cell: ({ row }) => {
+      const { ivBid, ivMid, ivAsk } = row.original;
+      return (
+        <div className='p-2 text-right whitespace-nowrap tabular-nums'>
+          {[ivBid, ivMid, ivAsk].map((iv) => (iv ? iv.toFixed(2) : '-')).join(' / ')}
+        </div>
+      );
+    },
+  },
   // {
   //   accessorKey: 'orderMargin',
   //   header: 'Order Margin',
@@ -215,11 +337,89 @@ export const columns: ColumnDef<OptionChain>[] = [
     header: 'Sell Value',
     cell: ({ row }) => <div className='p-2 text-right tabular-nums'>{row.original.sellValue.toFixed(2)}</div>,
   },
+  {
+    accessorKey: 'theoreticalPrice',
+    header: ({ table, column }) => (
+      <DataTableColumnHeader
+        table={table}
+        column={column}
+        title='Theo'
+        tooltip='Theoretical Price (selected pricing model)'
+      />
+    ),
+    cell: ({ row }) => (
+      <div className='p-2 text-right tabular-nums'>
+        {greekOrDash(row.original.theoreticalPrice, (v) => v.toFixed(2))}
+      </div>
+    ),
+  },
+  {
+    accessorKey: 'gamma',
+    header: ({ table, column }) => <DataTableColumnHeader table={table} column={column} title='Gamma (Γ)' />,
+    cell: ({ row }) => (
+      <div className='p-2 text-right'>{greekOrDash(row.original.gamma, (v) => formatScientific(v))}</div>
+    ),
+  },
+  {
+    accessorKey: 'thetaPerMinute',
+    header: ({ table, column }) => (
+      <DataTableColumnHeader table={table} column={column} title='Θ/min' tooltip='Theta per market minute' />
+    ),
+    cell: ({ row }) => (
+      <div className='p-2 text-right tabular-nums'>{greekOrDash(row.original.thetaPerMinute, (v) => v.toFixed(5))}</div>
+    ),
+  },
+  {
+    accessorKey: 'thetaPerDay',
+    header: ({ table, column }) => (
+      <DataTableColumnHeader table={table} column={column} title='Θ/day' tooltip='Theta per market day' />
+    ),
+    cell: ({ row }) => (
+      <div className='p-2 text-right tabular-nums'>{greekOrDash(row.original.thetaPerDay, (v) => v.toFixed(2))}</div>
+    ),
+  },
+  {
+    accessorKey: 'vega',
+    header: ({ table, column }) => (
+      <DataTableColumnHeader table={table} column={column} title='Vega (ν)' tooltip='Price change per 1% volatility' />
+    ),
+    cell: ({ row }) => (
+      <div className='p-2 text-right tabular-nums'>{greekOrDash(row.original.vega, (v) => v.toFixed(3))}</div>
+    ),
+  },
+  {
+    accessorKey: 'rho',
+    header: ({ table, column }) => (
+      <DataTableColumnHeader
+        table={table}
+        column={column}
+        title='Rho (ρ)'
+        tooltip='Price change per 1% interest rate'
+      />
+    ),
+    cell: ({ row }) => (
+      <div className='p-2 text-right tabular-nums'>{greekOrDash(row.original.rho, (v) => v.toFixed(3))}</div>
+    ),
+  },
 ];
 
+/**
+ * Columns that are hidden by default and can be toggled from the card header
+ */
+export const optionalColumns: Record<string, string> = {
+  iv: 'Implied Volatility',
+  theoreticalPrice: 'Theoretical Price',
+  gamma: 'Gamma',
+  thetaPerMinute: 'Theta / minute',
+  thetaPerDay: 'Theta / day',
+  vega: 'Vega',
+  rho: 'Rho',
+};
+
 export const numericCols = [
   'underlyingLtp',
   'bid',
+  'score',
   'returnValue',
   'strikePosition',
   'sellValue',
@@ -227,4 +427,12 @@ export const numericCols = [
   'delta',
   'sigmaXI',
   'addedValue',
+  'ivSpread',
+  'iv',
+  'theoreticalPrice',
+  'gamma',
+  'thetaPerMinute',
+  'thetaPerDay',
+  'vega',
+  'rho',
 ];
@@ -4,6 +4,7 @@ import type { OptionChain } from '@client/types/option-chain';
 import {
   type ColumnDef,
   type SortingState,
+  type VisibilityState,
   flexRender,
   getCoreRowModel,
   getSortedRowModel,
@@ -16,10 +17,16 @@ interface DataTableProps {
   columns: ColumnDef<OptionChain>[];
   data: OptionChain[];
   onSelectOption?: (option: OptionChain) => void;
+  columnVisibility?: VisibilityState;
 }
 
-export const DataTable = memo(function DataTable({ columns, data, onSelectOption }: DataTableProps) {
-  const [sorting, setSorting] = useState<SortingState>([{ id: 'addedValue', desc: true }]);
+export const DataTable = memo(function DataTable({
+  columns,
+  data,
+  onSelectOption,
+  columnVisibility = {},
+}: DataTableProps) {
+  const [sorting, setSorting] = useState<SortingState>([{ id: 'score', desc: true }]);
 
   const table = useReactTable({
     data,
@@ -29,6 +36,7 @@ export const DataTable = memo(function DataTable({ columns, data, onSelectOption
     getSortedRowModel: getSortedRowModel(),
     state: {
       sorting,
+      columnVisibility,
     },
     meta: {
       onSelectOption,
@@ -74,7 +82,7 @@ export const DataTable = memo(function DataTable({ columns, data, onSelectOption
           ))
         ) : (
           <TableRow>
-            <TableCell colSpan={columns.length} className='h-24 text-center'>
+            <TableCell colSpan={table.getVisibleLeafColumns().length} className='h-24 text-center'>
               No results.
             </TableCell>
           </TableRow>
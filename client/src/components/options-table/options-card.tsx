@@ -1,9 +1,24 @@
-import { columns, formatScientific } from '@client/components/options-table/columns';
+import { columns, formatScientific, optionalColumns } from '@client/components/options-table/columns';
 import { DataTable } from '@client/components/options-table/data-table';
 import { OrderModal } from '@client/components/order-modal';
+import { StrategyBuilder } from '@client/components/strategy-builder';
+import { Button } from '@client/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@client/components/ui/card';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from '@client/components/ui/dropdown-menu';
+import { UnderlyingChart } from '@client/components/underlying-chart';
 import { useNotifications } from '@client/contexts/notification-context';
+import { useWebSocketContext } from '@client/contexts/websocket-context';
+import { useColumnVisibility } from '@client/hooks/use-column-visibility';
+import { api } from '@client/lib/api';
 import type { OptionChain, OptionChainData } from '@client/types/option-chain';
+import { useQuery } from '@tanstack/react-query';
+import { Columns3Icon } from 'lucide-react';
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 
 interface OptionsCardProps {
@@ -16,10 +31,13 @@ export function OptionsCard({ name, symbols, optionChainData }: OptionsCardProps
   // Store only the token, not the entire option object
   const [selectedToken, setSelectedToken] = useState<number | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isStrategyOpen, setIsStrategyOpen] = useState(false);
   const { addNotification } = useNotifications();
+  const { setFocusedTokens } = useWebSocketContext();
+  const { columnVisibility, toggleColumn } = useColumnVisibility();
 
-  // Track the previous highest RV option
-  const prevHighestRef = useRef<{ token: number; rv: number; symbol: string } | null>(null);
+  // Track the previous highest scored option
+  const prevHighestRef = useRef<{ token: number; score: number; symbol: string } | null>(null);
 
   // Derive the live option from current data (updates when optionChainData updates)
   const selectedOption = selectedToken !== null ? (optionChainData[selectedToken] ?? null) : null;
@@ -30,6 +48,22 @@ export function OptionsCard({ name, symbols, optionChainData }: OptionsCardProps
   }, [optionChainData, symbols]);
   const length = filteredData.length;
 
+  const { data: sdData } = useQuery({
+    queryKey: ['sdMultiplier'],
+    queryFn: async () => {
+      const res = await api.settings['sd-multiplier'].$get();
+      return res.json();
+    },
+  });
+
+  // Option of the first symbol's nearest expiry, whose future is charted in the header
+  const chartOption = useMemo(() => {
+    const symbol = symbols.find((s) => filteredData.some((option) => option.name === s));
+    const options = filteredData.filter((option) => option.name === symbol);
+    if (options.length === 0) return null;
+    return options.reduce((nearest, option) => (option.expiry < nearest.expiry ? option : nearest));
+  }, [filteredData, symbols]);
+
   // Calculate highest Added Value for each distinct symbol
   const highestAVBySymbol = useMemo(() => {
     if (filteredData.length === 0) return [];
@@ -61,34 +95,37 @@ export function OptionsCard({ name, symbols, optionChainData }: OptionsCardProps
     return results.sort((a, b) => b.addedValue - a.addedValue);
   }, [filteredData]);
 
-  // Track highest Return Value and notify when it changes to a different instrument
+  // Track the highest score and notify when it changes to a different instrument
   useEffect(() => {
     if (filteredData.length === 0) return;
 
-    // Find the option with highest return value
-    const highest = filteredData.reduce((max, opt) => (opt.returnValue > max.returnValue ? opt : max));
+    // Find the option with highest score
+    const highest = filteredData.reduce((max, opt) => (opt.score > max.score ? opt : max));
 
     const prev = prevHighestRef.current;
 
     // Only notify if:
     // 1. We had a previous highest (not first load)
-    // 2. The highest RV instrument changed
-    // 3. The new highest RV is greater than the previous
-    if (prev && highest.instrumentToken !== prev.token && highest.returnValue > prev.rv) {
-      addNotification(
-        `[${highest.tradingsymbol}] New highest return value: ${highest.returnValue.toFixed(2)}`,
-        'important'
-      );
+    // 2. The highest scored instrument changed
+    // 3. The new highest score is greater than the previous
+    if (prev && highest.instrumentToken !== prev.token && highest.score > prev.score) {
+      addNotification(`[${highest.tradingsymbol}] New highest score: ${highest.score.toFixed(2)}`, 'important');
     }
 
     // Update the ref with current highest
     prevHighestRef.current = {
       token: highest.instrumentToken,
-      rv: highest.returnValue,
+      score: highest.score,
       symbol: highest.tradingsymbol,
     };
   }, [filteredData, addNotification]);
 
+  // Have the server keep the margin of the option open in the order modal or strategy builder fresh
+  useEffect(() => {
+    setFocusedTokens(name, selectedToken !== null ? [selectedToken] : []);
+    return () => setFocusedTokens(name, []);
+  }, [name, selectedToken, setFocusedTokens]);
+
   const handleSelectOption = useCallback((option: OptionChain) => {
     setSelectedToken(option.instrumentToken);
     setIsModalOpen(true);
@@ -102,6 +139,19 @@ export function OptionsCard({ name, symbols, optionChainData }: OptionsCardProps
     }
   }, []);
 
+  // Swap the order modal for the strategy builder, keeping the selected option
+  const handleBuildStrategy = useCallback(() => {
+    setIsModalOpen(false);
+    setIsStrategyOpen(true);
+  }, []);
+
+  const handleStrategyClose = useCallback((open: boolean) => {
+    setIsStrategyOpen(open);
+    if (!open) {
+      setTimeout(() => setSelectedToken(null), 200);
+    }
+  }, []);
+
   return (
     <>
       <Card key={name} className='h-fit gap-2 pt-4 pb-0'>
@@ -109,28 +159,70 @@ export function OptionsCard({ name, symbols, optionChainData }: OptionsCardProps
           <CardTitle>
             {name} ({length} {length === 1 ? 'instrument' : 'instruments'})
           </CardTitle>
-          {highestAVBySymbol.length > 0 && (
-            <div className='text-muted-foreground text-sm'>
-              <span className='font-medium'>Highest AV: </span>
-              {highestAVBySymbol.map((item, index) => (
-                <span key={item.symbol}>
-                  {index > 0 && ', '}
-                  <span className='text-foreground font-medium'>{item.tradingsymbol}</span>
-                  <span className='text-emerald-600 dark:text-emerald-400'> ({formatScientific(item.addedValue)})</span>
-                </span>
-              ))}
-            </div>
-          )}
+          {chartOption && <UnderlyingChart option={chartOption} sdMultiplier={sdData?.value} />}
+          <div className='flex items-center gap-2'>
+            {highestAVBySymbol.length > 0 && (
+              <div className='text-muted-foreground text-sm'>
+                <span className='font-medium'>Highest AV: </span>
+                {highestAVBySymbol.map((item, index) => (
+                  <span key={item.symbol}>
+                    {index > 0 && ', '}
+                    <span className='text-foreground font-medium'>{item.tradingsymbol}</span>
+                    <span className='text-emerald-600 dark:text-emerald-400'>
+                      {' '}
+                      ({formatScientific(item.addedValue)})
+                    </span>
+                  </span>
+                ))}
+              </div>
+            )}
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant='ghost' size='icon-sm' title='Columns'>
+                  <Columns3Icon className='h-4 w-4' />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align='end'>
+                <DropdownMenuLabel>Columns</DropdownMenuLabel>
+                {Object.entries(optionalColumns).map(([id, label]) => (
+                  <DropdownMenuCheckboxItem
+                    key={id}
+                    checked={columnVisibility[id] !== false}
+                    onCheckedChange={(checked) => toggleColumn(id, checked)}
+                    onSelect={(event) => event.preventDefault()}
+                  >
+                    {label}
+                  </DropdownMenuCheckboxItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
         </CardHeader>
         <CardContent className='pt-0'>
           <div className='-mx-6 border-t'>
-            <DataTable columns={columns} data={filteredData} onSelectOption={handleSelectOption} />
+            <DataTable
+              columns={columns}
+              data={filteredData}
+              onSelectOption={handleSelectOption}
+              columnVisibility={columnVisibility}
+            />
           </div>
         </CardContent>
       </Card>
 
       {/* Single OrderModal instance for this card */}
-      <OrderModal option={selectedOption} open={isModalOpen} onOpenChange={handleModalClose} />
+      <OrderModal
+        option={selectedOption}
+        open={isModalOpen}
+        onOpenChange={handleModalClose}
+        onBuildStrategy={handleBuildStrategy}
+      />
+      <StrategyBuilder
+        option={selectedOption}
+        chain={filteredData}
+        open={isStrategyOpen}
+        onOpenChange={handleStrategyClose}
+      />
     </>
   );
 }
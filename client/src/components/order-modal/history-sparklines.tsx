@@ -0,0 +1,89 @@
+import { api } from '@client/lib/api';
+import { useQuery } from '@tanstack/react-query';
+import { format, set, subDays } from 'date-fns';
+import { Line, LineChart, ResponsiveContainer, Tooltip, YAxis } from 'recharts';
+
+interface HistorySparklinesProps {
+  instrumentToken: number;
+}
+
+type SparklineField = 'bid' | 'returnValue' | 'delta';
+
+const SPARKLINES: { field: SparklineField; label: string; color: string; format: (value: number) => string }[] = [
+  { field: 'bid', label: 'Bid', color: '#059669', format: (value) => value.toFixed(2) }, // emerald-600
+  { field: 'returnValue', label: 'RV', color: '#2563eb', format: (value) => `${(value * 100).toFixed(2)}%` }, // blue-600
+  { field: 'delta', label: 'Delta', color: '#9333ea', format: (value) => value.toFixed(4) }, // purple-600
+];
+
+/**
+ * Start of the current MCX session (9:00 AM), or of the previous day's session before that
+ */
+function getSessionStart() {
+  const now = new Date();
+  const today = set(now, { hours: 9, minutes: 0, seconds: 0, milliseconds: 0 });
+  return today <= now ? today : subDays(today, 1);
+}
+
+/**
+ * Bid, return value and delta of an instrument since the start of the session, from the option chain snapshots
+ */
+export function HistorySparklines({ instrumentToken }: HistorySparklinesProps) {
+  const { data } = useQuery({
+    queryKey: ['history', instrumentToken],
+    queryFn: async () => {
+      const res = await api.history[':instrumentToken'].$get({
+        param: { instrumentToken: String(instrumentToken) },
+        query: {
+          from: String(getSessionStart().getTime()),
+          fields: SPARKLINES.map((s) => s.field).join(','),
+          points: '120',
+        },
+      });
+      return res.json();
+    },
+    refetchInterval: 60_000,
+  });
+
+  const points = data?.points ?? [];
+
+  return (
+    <div className='grid grid-cols-3 gap-4'>
+      {SPARKLINES.map(({ field, label, color, format: formatValue }) => {
+        const values = points.filter((p) => p[field] !== undefined);
+        const first = values[0]?.[field];
+        const last = values.at(-1)?.[field];
+
+        return (
+          <div key={field} className='rounded-md px-3 py-2 ring-1 ring-zinc-700/20 ring-inset'>
+            <div className='flex items-baseline justify-between text-xs'>
+              <span className='font-semibold text-zinc-700 dark:text-zinc-400'>{label}</span>
+              {first !== undefined && last !== undefined && (
+                <span className='text-muted-foreground tabular-nums'>
+                  {formatValue(first)} → {formatValue(last)}
+                </span>
+              )}
+            </div>
+            {values.length < 2 ? (
+              <div className='text-muted-foreground flex h-12 items-center justify-center text-xs'>
+                No history for this session
+              </div>
+            ) : (
+              <ResponsiveContainer width='100%' height={48}>
+                <LineChart data={values} margin={{ top: 4, right: 0, bottom: 4, left: 0 }}>
+                  <YAxis hide domain={['dataMin', 'dataMax']} />
+                  <Tooltip
+                    formatter={(value: number) => [formatValue(value), label]}
+                    labelFormatter={(_, payload) =>
+                      payload[0] ? format(new Date(payload[0].payload.timestamp), 'HH:mm') : ''
+                    }
+                  />
+                  <Line dataKey={field} stroke={color} strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -14,17 +14,38 @@ import { useUserMargin } from '@client/hooks/use-user-margin';
 import { api } from '@client/lib/api';
 import { cn } from '@client/lib/utils';
 import type { OptionChain } from '@client/types/option-chain';
-import { useMutation } from '@tanstack/react-query';
-import { AlertTriangleIcon, InfoIcon, PencilIcon, WalletIcon } from 'lucide-react';
+import { keepPreviousData, useMutation, useQuery } from '@tanstack/react-query';
+import {
+  AlertTriangleIcon,
+  InfoIcon,
+  LayersIcon,
+  LinkIcon,
+  PencilIcon,
+  SplitIcon,
+  TrendingDownIcon,
+  WalletIcon,
+} from 'lucide-react';
 import { useEffect, useState } from 'react';
 import { toast } from 'sonner';
 import { BuyerTable } from './buyer-table';
+import { HistorySparklines } from './history-sparklines';
 import { SellerTable } from './seller-table';
 
 interface OrderModalProps {
   option: OptionChain | null;
   open: boolean;
   onOpenChange: (open: boolean) => void;
+  /**
+   * Open the strategy builder around the option instead
+   */
+  onBuildStrategy?: () => void;
+}
+
+/**
+ * Default floor of a chase, 5% below the bid rounded down to the 0.05 tick
+ */
+function defaultChaseFloor(bid: number) {
+  return Math.max(0.05, Math.floor(bid * 0.95 * 20) / 20);
 }
 
 function displayInr(value: number): string {
@@ -34,10 +55,17 @@ function displayInr(value: number): string {
   }).format(value);
 }
 
-export function OrderModal({ option, open, onOpenChange }: OrderModalProps) {
+export function OrderModal({ option, open, onOpenChange, onBuildStrategy }: OrderModalProps) {
   const [quantity, setQuantity] = useState(1);
   const [overridePriceEnabled, setOverridePriceEnabled] = useState(false);
   const [overridePrice, setOverridePrice] = useState<number>(0);
+  const [chaseEnabled, setChaseEnabled] = useState(false);
+  const [chaseFloorPrice, setChaseFloorPrice] = useState(0);
+  const [chaseMaxModifications, setChaseMaxModifications] = useState(10);
+  const [chaseTimeoutSeconds, setChaseTimeoutSeconds] = useState(60);
+  const [sliceEnabled, setSliceEnabled] = useState(false);
+  const [maxSliceQuantity, setMaxSliceQuantity] = useState(1);
+  const [sliceIntervalSeconds, setSliceIntervalSeconds] = useState(5);
 
   // Fetch user margin
   const { data: marginData } = useUserMargin();
@@ -62,10 +90,14 @@ export function OrderModal({ option, open, onOpenChange }: OrderModalProps) {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [option?.instrumentToken]);
 
-  // Reset override price when option changes
+  // Reset override price and chase when option changes
   useEffect(() => {
     setOverridePriceEnabled(false);
     setOverridePrice(option?.bid ?? 0);
+    setChaseEnabled(false);
+    setChaseFloorPrice(defaultChaseFloor(option?.bid ?? 0));
+    setSliceEnabled(false);
+    setMaxSliceQuantity(Math.max(1, option?.marketDepth?.buy[0]?.quantity ?? 1));
   }, [option?.instrumentToken]);
 
   const placeSellOrderMutation = useMutation({
@@ -85,10 +117,27 @@ export function OrderModal({ option, open, onOpenChange }: OrderModalProps) {
 
       return res.json();
     },
-    onSuccess: (data) => {
+    onSuccess: async (data) => {
       if (data.success) {
         toast.success(`Order placed successfully! Order ID: ${data.order_id}`);
         onOpenChange(false);
+
+        if (chaseEnabled) {
+          // The order stays open at its limit price if the chase can't be started
+          try {
+            await api.orders[':id'].chase.$post({
+              param: { id: data.order_id },
+              json: {
+                floorPrice: chaseFloorPrice,
+                maxModifications: chaseMaxModifications,
+                timeoutSeconds: chaseTimeoutSeconds,
+              },
+            });
+            toast.info(`Chasing the bid down to ${chaseFloorPrice.toFixed(2)}`);
+          } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to chase order');
+          }
+        }
       }
     },
     onError: (error: Error) => {
@@ -96,17 +145,69 @@ export function OrderModal({ option, open, onOpenChange }: OrderModalProps) {
     },
   });
 
+  const placeSlicedOrderMutation = useMutation({
+    mutationFn: async () => {
+      if (!option) throw new Error('No option selected');
+
+      const res = await api.orders.sliced.$post({
+        json: {
+          tradingsymbol: option.tradingsymbol,
+          instrumentToken: option.instrumentToken,
+          price: overridePriceEnabled ? overridePrice : option.bid,
+          quantity,
+          maxSliceQuantity,
+          intervalSeconds: sliceIntervalSeconds,
+        },
+      });
+
+      return res.json();
+    },
+    onSuccess: ({ order }) => {
+      toast.success(
+        `Sliced order started, ${order.placedQuantity} of ${order.totalQuantity} placed. Follow it on the orders page.`
+      );
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to place sliced order');
+    },
+  });
+
+  // Margin the order adds to the open positions, refetched as the quantity or the limit price changes
+  const limitPrice = option ? (overridePriceEnabled ? overridePrice : option.bid) : 0;
+  const { data: incrementalMarginData, isFetching: isFetchingIncrementalMargin } = useQuery({
+    queryKey: ['incrementalMargin', option?.tradingsymbol, quantity, limitPrice],
+    queryFn: async () => {
+      const res = await api.orders['incremental-margin'].$post({
+        json: { tradingsymbol: option!.tradingsymbol, price: limitPrice, quantity },
+      });
+      return res.json();
+    },
+    enabled: open && !!option && limitPrice > 0,
+    placeholderData: keepPreviousData,
+    staleTime: 10_000,
+    retry: false,
+  });
+
   if (!option) return null;
 
+  const buyer1Qty = option.marketDepth?.buy[0]?.quantity ?? 0;
+  // Slicing only helps when the order is larger than the quantity at the best bid
+  const canSlice = sliceEnabled || quantity > buyer1Qty;
+  const isPlacing = placeSellOrderMutation.isPending || placeSlicedOrderMutation.isPending;
+
   const buyerPrice1 = option.bid;
   const marginPerQty = option.orderMargin;
   const totalMargin = marginPerQty * quantity;
   const netReturn = totalMargin > 0 ? (option.returnValue * 100).toFixed(2) : '-';
+  const marginalMargin = incrementalMarginData?.incremental;
+  const marginalReturn =
+    marginalMargin && marginalMargin > 0 ? ((option.sellValue * quantity * 100) / marginalMargin).toFixed(2) : '-';
 
-  // Calculate margin status
+  // Calculate margin status, against the margin the order adds to the positions when it is known
   const userMargin = marginData?.net ?? 0;
   const hasMarginData = marginData?.net !== undefined;
-  const marginDifference = userMargin - totalMargin;
+  const marginDifference = userMargin - (marginalMargin ?? totalMargin);
   const hasMarginShortfall = hasMarginData && marginDifference < 0;
 
   return (
@@ -150,6 +251,31 @@ export function OrderModal({ option, open, onOpenChange }: OrderModalProps) {
               <p className='text-2xl font-bold'>{displayInr(totalMargin)}</p>
             </div>
 
+            {/* Marginal Margin and RV with the open positions */}
+            {incrementalMarginData && (
+              <div
+                className={cn(
+                  'col-span-2 flex flex-col gap-1 rounded-md bg-violet-50/50 px-4 py-3 text-violet-800 ring-1 ring-violet-700/20 ring-inset dark:bg-violet-500/5 dark:text-violet-200',
+                  isFetchingIncrementalMargin && 'opacity-60'
+                )}
+              >
+                <div className='flex items-center gap-2'>
+                  <LinkIcon className='h-4 w-4' aria-hidden='true' />
+                  <span className='text-sm font-semibold text-violet-700 dark:text-violet-400'>
+                    With Your Positions:
+                  </span>
+                  <span className='ml-auto text-lg font-bold'>{displayInr(incrementalMarginData.incremental)}</span>
+                  <span className='text-sm font-semibold'>RV {marginalReturn}%</span>
+                </div>
+                {incrementalMarginData.standalone > incrementalMarginData.incremental && (
+                  <span className='text-xs'>
+                    Hedge benefit of {displayInr(incrementalMarginData.standalone - incrementalMarginData.incremental)}{' '}
+                    against the open positions
+                  </span>
+                )}
+              </div>
+            )}
+
             {/* Override Limit Price */}
             <label
               className={cn(
@@ -197,6 +323,137 @@ export function OrderModal({ option, open, onOpenChange }: OrderModalProps) {
               />
             </label>
 
+            {/* Slice Order */}
+            {canSlice && (
+              <div
+                className={cn(
+                  'col-span-2 flex flex-col gap-3 rounded-md px-4 py-3 ring-1 transition-colors ring-inset',
+                  sliceEnabled
+                    ? 'bg-blue-50/50 text-blue-800 ring-blue-700/20 dark:bg-blue-500/5 dark:text-blue-200'
+                    : 'bg-zinc-50/50 text-zinc-800 ring-zinc-700/20 dark:bg-zinc-500/5 dark:text-zinc-200'
+                )}
+              >
+                <label className='flex cursor-pointer items-center gap-3'>
+                  <Checkbox
+                    checked={sliceEnabled}
+                    onCheckedChange={(checked) => {
+                      const isChecked = checked === true;
+                      setSliceEnabled(isChecked);
+                      // Each slice is a plain limit order, so it isn't chased
+                      if (isChecked) {
+                        setChaseEnabled(false);
+                      }
+                    }}
+                  />
+                  <LayersIcon
+                    className={cn(
+                      'h-4 w-4',
+                      sliceEnabled ? 'text-blue-600 dark:text-blue-400' : 'text-zinc-500 dark:text-zinc-400'
+                    )}
+                    aria-hidden='true'
+                  />
+                  <span
+                    className={cn(
+                      'text-sm font-semibold',
+                      sliceEnabled ? 'text-blue-700 dark:text-blue-400' : 'text-zinc-700 dark:text-zinc-400'
+                    )}
+                  >
+                    Slice Order, At Most:
+                  </span>
+                  <NumberInput
+                    aria-label='Max. slice quantity'
+                    value={maxSliceQuantity}
+                    onChange={setMaxSliceQuantity}
+                    step={1}
+                    minValue={1}
+                    isDisabled={!sliceEnabled}
+                    className='ml-auto w-36'
+                    inputClassName={cn(!sliceEnabled && 'opacity-50')}
+                  />
+                </label>
+                {sliceEnabled && (
+                  <div className='flex items-center gap-3 text-sm'>
+                    <span>Sized to buyer 1 ({buyer1Qty}), one slice every</span>
+                    <NumberInput
+                      aria-label='Slice interval in seconds'
+                      value={sliceIntervalSeconds}
+                      onChange={setSliceIntervalSeconds}
+                      step={1}
+                      minValue={1}
+                      maxValue={600}
+                      className='ml-auto w-24'
+                    />
+                    <span>s</span>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Chase Bid */}
+            {!sliceEnabled && (
+              <div
+                className={cn(
+                  'col-span-2 flex flex-col gap-3 rounded-md px-4 py-3 ring-1 transition-colors ring-inset',
+                  chaseEnabled
+                    ? 'bg-blue-50/50 text-blue-800 ring-blue-700/20 dark:bg-blue-500/5 dark:text-blue-200'
+                    : 'bg-zinc-50/50 text-zinc-800 ring-zinc-700/20 dark:bg-zinc-500/5 dark:text-zinc-200'
+                )}
+              >
+                <label className='flex cursor-pointer items-center gap-3'>
+                  <Checkbox checked={chaseEnabled} onCheckedChange={(checked) => setChaseEnabled(checked === true)} />
+                  <TrendingDownIcon
+                    className={cn(
+                      'h-4 w-4',
+                      chaseEnabled ? 'text-blue-600 dark:text-blue-400' : 'text-zinc-500 dark:text-zinc-400'
+                    )}
+                    aria-hidden='true'
+                  />
+                  <span
+                    className={cn(
+                      'text-sm font-semibold',
+                      chaseEnabled ? 'text-blue-700 dark:text-blue-400' : 'text-zinc-700 dark:text-zinc-400'
+                    )}
+                  >
+                    Chase Bid Down To:
+                  </span>
+                  <NumberInput
+                    aria-label='Floor price'
+                    value={chaseFloorPrice}
+                    onChange={setChaseFloorPrice}
+                    step={0.05}
+                    minValue={0.05}
+                    isDisabled={!chaseEnabled}
+                    className='ml-auto w-36'
+                    inputClassName={cn(!chaseEnabled && 'opacity-50')}
+                  />
+                </label>
+                {chaseEnabled && (
+                  <div className='flex items-center gap-3 text-sm'>
+                    <span>Max. modifications</span>
+                    <NumberInput
+                      aria-label='Max. modifications'
+                      value={chaseMaxModifications}
+                      onChange={setChaseMaxModifications}
+                      step={1}
+                      minValue={1}
+                      maxValue={100}
+                      className='w-24'
+                    />
+                    <span className='ml-auto'>Timeout (s)</span>
+                    <NumberInput
+                      aria-label='Timeout in seconds'
+                      value={chaseTimeoutSeconds}
+                      onChange={setChaseTimeoutSeconds}
+                      step={5}
+                      minValue={5}
+                      maxValue={3600}
+                      className='w-24'
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Margin Status - Shortfall or Remaining */}
             {hasMarginData && (
               <div
@@ -229,6 +486,11 @@ export function OrderModal({ option, open, onOpenChange }: OrderModalProps) {
           <SellerTable depth={option.marketDepth} />
         </div>
 
+        {/* Session History */}
+        <div className='mb-8'>
+          <HistorySparklines instrumentToken={option.instrumentToken} />
+        </div>
+
         {/* Quantity Input Section */}
         <div className='mx-auto mb-8 grid max-w-sm grid-cols-[repeat(5,auto)] items-center gap-2 px-4'>
           <span className='text-sm font-medium text-zinc-700 dark:text-zinc-300'>Margin</span>
@@ -248,13 +510,23 @@ export function OrderModal({ option, open, onOpenChange }: OrderModalProps) {
           <Button
             type='button'
             size='lg'
-            disabled={hasMarginShortfall || placeSellOrderMutation.isPending}
-            isLoading={placeSellOrderMutation.isPending}
+            disabled={
+              hasMarginShortfall ||
+              isPlacing ||
+              (chaseEnabled && chaseFloorPrice > (overridePriceEnabled ? overridePrice : option.bid))
+            }
+            isLoading={isPlacing}
             loadingText='Placing Order...'
-            onClick={() => placeSellOrderMutation.mutate()}
+            onClick={() => (sliceEnabled ? placeSlicedOrderMutation.mutate() : placeSellOrderMutation.mutate())}
           >
-            Place Sell Order
+            {sliceEnabled ? 'Place Sliced Sell Order' : 'Place Sell Order'}
           </Button>
+          {onBuildStrategy && (
+            <Button type='button' size='lg' variant='outline' onClick={onBuildStrategy}>
+              <SplitIcon />
+              Build Strategy
+            </Button>
+          )}
           <DialogClose asChild>
             <Button type='button' size='lg' variant='ghost'>
               Cancel
@@ -0,0 +1,255 @@
+import { Button } from '@client/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@client/components/ui/card';
+import { NumberInput } from '@client/components/ui/number-input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@client/components/ui/table';
+import { useWebSocketContext } from '@client/contexts/websocket-context';
+import { api } from '@client/lib/api';
+import { cn } from '@client/lib/utils';
+import type { OrderChase } from '@client/types/orders';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import type { InferResponseType } from 'hono/client';
+import { Loader2Icon } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+
+type OpenOrder = InferResponseType<typeof api.orders.open.$get>['orders'][number];
+
+function ChaseCell({ chase }: { chase: OrderChase | undefined }) {
+  const stopMutation = useMutation({
+    mutationFn: async (orderId: string) => {
+      const res = await api.orders[':id'].chase.$delete({ param: { id: orderId } });
+      return res.json();
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to stop chase');
+    },
+  });
+
+  if (!chase) {
+    return <span className='text-muted-foreground'>-</span>;
+  }
+
+  const lastStep = chase.steps.at(-1);
+
+  if (chase.status !== 'active') {
+    return <span className='text-muted-foreground text-xs'>{chase.statusMessage ?? chase.status}</span>;
+  }
+
+  return (
+    <div className='flex items-center gap-2'>
+      <div className='text-xs'>
+        <div className='font-medium text-blue-700 tabular-nums dark:text-blue-400'>
+          Chasing {chase.modifications}/{chase.maxModifications}, floor {chase.floorPrice.toFixed(2)}
+        </div>
+        {lastStep && (
+          <div
+            className={cn(
+              'tabular-nums',
+              lastStep.action === 'error' ? 'text-red-600 dark:text-red-400' : 'text-muted-foreground'
+            )}
+          >
+            {format(new Date(lastStep.at), 'HH:mm:ss')}{' '}
+            {lastStep.action === 'error'
+              ? lastStep.message
+              : `${lastStep.price.toFixed(2)} (bid ${lastStep.bid.toFixed(2)})`}
+          </div>
+        )}
+      </div>
+      <Button
+        variant='outline'
+        size='sm'
+        isLoading={stopMutation.isPending}
+        loadingText='Stopping'
+        onClick={() => stopMutation.mutate(chase.orderId)}
+      >
+        Stop
+      </Button>
+    </div>
+  );
+}
+
+function OpenOrderRow({ order, chase }: { order: OpenOrder; chase: OrderChase | undefined }) {
+  const queryClient = useQueryClient();
+  const [price, setPrice] = useState(order.price);
+  const [quantity, setQuantity] = useState(order.quantity);
+
+  // Follow changes made elsewhere (e.g. in Kite) while the row isn't being edited
+  useEffect(() => {
+    setPrice(order.price);
+    setQuantity(order.quantity);
+  }, [order.price, order.quantity]);
+
+  const isDirty = price !== order.price || quantity !== order.quantity;
+
+  const modifyMutation = useMutation({
+    mutationFn: async () => {
+      const res = await api.orders[':id'].$put({
+        param: { id: order.orderId },
+        json: { price, quantity },
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast.success(`Order ${order.orderId} modified`);
+      queryClient.invalidateQueries({ queryKey: ['openOrders'] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to modify order');
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      const res = await api.orders[':id'].$delete({ param: { id: order.orderId } });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast.success(`Order ${order.orderId} cancelled`);
+      queryClient.invalidateQueries({ queryKey: ['openOrders'] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to cancel order');
+    },
+  });
+
+  // A sell is chased down to the best bid, a buy up to the best ask
+  const chasePrice = order.transactionType === 'SELL' ? order.bid : order.ask;
+
+  return (
+    <TableRow>
+      <TableCell className='text-muted-foreground tabular-nums'>
+        {format(new Date(order.placedAt), 'HH:mm:ss')}
+      </TableCell>
+      <TableCell className='font-medium'>{order.tradingsymbol}</TableCell>
+      <TableCell
+        className={
+          order.transactionType === 'SELL' ? 'text-red-600 dark:text-red-400' : 'text-emerald-600 dark:text-emerald-400'
+        }
+      >
+        {order.transactionType}
+      </TableCell>
+      <TableCell className='text-right tabular-nums'>{order.bid ? order.bid.toFixed(2) : '-'}</TableCell>
+      <TableCell className='text-right tabular-nums'>{order.ask ? order.ask.toFixed(2) : '-'}</TableCell>
+      <TableCell>
+        <div className='flex items-center gap-2'>
+          <NumberInput
+            aria-label='Price'
+            className='w-36'
+            value={price}
+            onChange={(value) => setPrice(Number.isNaN(value) ? order.price : value)}
+            minValue={0.05}
+            step={0.05}
+            formatOptions={{ minimumFractionDigits: 2, maximumFractionDigits: 2 }}
+          />
+          {chasePrice > 0 && chasePrice !== price && (
+            <Button variant='outline' size='sm' onClick={() => setPrice(chasePrice)}>
+              {order.transactionType === 'SELL' ? 'Bid' : 'Ask'}
+            </Button>
+          )}
+        </div>
+      </TableCell>
+      <TableCell>
+        <NumberInput
+          aria-label='Quantity'
+          className='w-28'
+          value={quantity}
+          onChange={(value) => setQuantity(Number.isNaN(value) ? order.quantity : value)}
+          minValue={Math.max(1, order.filledQuantity + 1)}
+          step={1}
+        />
+      </TableCell>
+      <TableCell className='text-right tabular-nums'>
+        {order.filledQuantity} / {order.quantity}
+      </TableCell>
+      <TableCell>
+        <ChaseCell chase={chase} />
+      </TableCell>
+      <TableCell>
+        <div className='flex justify-end gap-2'>
+          <Button
+            size='sm'
+            disabled={!isDirty || cancelMutation.isPending}
+            isLoading={modifyMutation.isPending}
+            loadingText='Modifying'
+            onClick={() => modifyMutation.mutate()}
+          >
+            Modify
+          </Button>
+          <Button
+            size='sm'
+            variant='destructive'
+            disabled={modifyMutation.isPending}
+            isLoading={cancelMutation.isPending}
+            loadingText='Cancelling'
+            onClick={() => cancelMutation.mutate()}
+          >
+            Cancel
+          </Button>
+        </div>
+      </TableCell>
+    </TableRow>
+  );
+}
+
+/**
+ * Today's open orders from the Kite order book, with controls to modify their price and quantity or cancel them,
+ * and the progress of the chases of the best bid
+ */
+export function OpenOrdersCard() {
+  const { orderChases } = useWebSocketContext();
+
+  const { data, isLoading, isError, error } = useQuery({
+    queryKey: ['openOrders'],
+    queryFn: async () => {
+      const res = await api.orders.open.$get();
+      return res.json();
+    },
+    refetchInterval: 3000,
+  });
+
+  return (
+    <Card className='gap-2 pt-4 pb-0'>
+      <CardHeader className='px-4'>
+        <CardTitle>Open orders</CardTitle>
+      </CardHeader>
+      <CardContent className='px-0'>
+        {isLoading ? (
+          <div className='flex items-center justify-center py-8'>
+            <Loader2Icon className='text-muted-foreground h-5 w-5 animate-spin' />
+          </div>
+        ) : isError ? (
+          <p className='py-8 text-center text-sm text-red-600 dark:text-red-400'>
+            {error.message || 'Failed to load open orders'}
+          </p>
+        ) : !data || data.orders.length === 0 ? (
+          <p className='text-muted-foreground py-8 text-center text-sm'>No open orders</p>
+        ) : (
+          <div className='border-t'>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Placed</TableHead>
+                  <TableHead>Instrument</TableHead>
+                  <TableHead>Side</TableHead>
+                  <TableHead className='text-right'>Bid</TableHead>
+                  <TableHead className='text-right'>Ask</TableHead>
+                  <TableHead>Price</TableHead>
+                  <TableHead>Qty</TableHead>
+                  <TableHead className='text-right'>Filled / Qty</TableHead>
+                  <TableHead>Chase</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.orders.map((order) => (
+                  <OpenOrderRow key={order.orderId} order={order} chase={orderChases[order.orderId]} />
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,156 @@
+import { Button } from '@client/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@client/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@client/components/ui/table';
+import { useWebSocketContext } from '@client/contexts/websocket-context';
+import { api } from '@client/lib/api';
+import { cn } from '@client/lib/utils';
+import type { SlicedOrder, SlicedOrderStatus } from '@client/types/orders';
+import { useMutation } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { useMemo } from 'react';
+import { toast } from 'sonner';
+
+const STATUS_CLASS_NAMES: Record<SlicedOrderStatus, string> = {
+  active: 'bg-blue-500/15 text-blue-700 dark:bg-blue-500/20 dark:text-blue-400',
+  complete: 'bg-emerald-500/15 text-emerald-700 dark:bg-emerald-500/20 dark:text-emerald-400',
+  stopped: 'bg-muted text-muted-foreground',
+  failed: 'bg-red-500/15 text-red-700 dark:bg-red-500/20 dark:text-red-400',
+};
+
+function SlicedOrderSection({ order }: { order: SlicedOrder }) {
+  const { liveOrders } = useWebSocketContext();
+
+  const stopMutation = useMutation({
+    mutationFn: async () => {
+      const res = await api.orders.sliced[':id'].$delete({ param: { id: order.id } });
+      return res.json();
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to stop sliced order');
+    },
+  });
+
+  // Children are tracked through the order book, so their live updates can be newer than the parent's.
+  // The parent also stops following them once it has ended.
+  const children = useMemo(
+    () =>
+      order.children.map((child) => {
+        const live = liveOrders[child.orderId];
+        return live && live.updatedAt > order.updatedAt
+          ? { ...child, status: live.status, filledQuantity: live.filledQuantity, averagePrice: live.averagePrice }
+          : child;
+      }),
+    [order, liveOrders]
+  );
+  const filledQuantity = children.reduce((sum, child) => sum + child.filledQuantity, 0);
+  const averagePrice =
+    filledQuantity > 0
+      ? children.reduce((sum, child) => sum + child.averagePrice * child.filledQuantity, 0) / filledQuantity
+      : 0;
+
+  return (
+    <div className='border-t'>
+      <div className='flex items-center gap-4 px-4 py-3'>
+        <div className='min-w-0 flex-1'>
+          <div className='flex items-center gap-2'>
+            <span className='font-medium'>{order.tradingsymbol}</span>
+            <span
+              className={cn(
+                'inline-flex rounded-full px-2 py-0.5 text-xs font-medium capitalize',
+                STATUS_CLASS_NAMES[order.status]
+              )}
+            >
+              {order.status}
+            </span>
+            <span className='text-muted-foreground text-xs tabular-nums'>
+              SELL {order.totalQuantity} at {order.limitPrice.toFixed(2)} or better, at most {order.maxSliceQuantity}{' '}
+              every {order.intervalSeconds}s
+            </span>
+          </div>
+          <div className='mt-2 flex items-center gap-3'>
+            <div className='bg-muted h-2 flex-1 overflow-hidden rounded-full'>
+              <div
+                className='h-full bg-emerald-500 transition-all'
+                style={{ width: `${Math.min(100, (filledQuantity / order.totalQuantity) * 100)}%` }}
+              />
+            </div>
+            <span className='text-sm tabular-nums'>
+              {filledQuantity} / {order.totalQuantity}
+              {averagePrice > 0 && <span className='text-muted-foreground'> @ {averagePrice.toFixed(2)}</span>}
+            </span>
+          </div>
+          {order.statusMessage && <p className='text-muted-foreground mt-1 text-xs'>{order.statusMessage}</p>}
+        </div>
+        {order.status === 'active' && (
+          <Button
+            variant='outline'
+            size='sm'
+            isLoading={stopMutation.isPending}
+            loadingText='Stopping'
+            onClick={() => stopMutation.mutate()}
+          >
+            Stop
+          </Button>
+        )}
+      </div>
+
+      {children.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className='pl-8'>Placed</TableHead>
+              <TableHead>Order ID</TableHead>
+              <TableHead className='text-right'>Price</TableHead>
+              <TableHead className='text-right'>Filled / Qty</TableHead>
+              <TableHead className='text-right'>Avg. Price</TableHead>
+              <TableHead>Status</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {children.map((child) => (
+              <TableRow key={child.orderId}>
+                <TableCell className='text-muted-foreground pl-8 tabular-nums'>
+                  {format(new Date(child.placedAt), 'HH:mm:ss')}
+                </TableCell>
+                <TableCell className='text-muted-foreground tabular-nums'>{child.orderId}</TableCell>
+                <TableCell className='text-right tabular-nums'>{child.price.toFixed(2)}</TableCell>
+                <TableCell className='text-right tabular-nums'>
+                  {child.filledQuantity} / {child.quantity}
+                </TableCell>
+                <TableCell className='text-right tabular-nums'>
+                  {child.averagePrice ? child.averagePrice.toFixed(2) : '-'}
+                </TableCell>
+                <TableCell className='capitalize'>{child.status}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Large orders placed in slices, with the fills of each child order. Hidden when there are none.
+ */
+export function SlicedOrdersCard() {
+  const { slicedOrders } = useWebSocketContext();
+  const orders = Object.values(slicedOrders).sort((a, b) => b.startedAt - a.startedAt);
+
+  if (orders.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className='gap-2 pt-4 pb-0'>
+      <CardHeader className='px-4'>
+        <CardTitle>Sliced orders</CardTitle>
+      </CardHeader>
+      <CardContent className='px-0'>
+        {orders.map((order) => (
+          <SlicedOrderSection key={order.id} order={order} />
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,128 @@
+import { Button } from '@client/components/ui/button';
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@client/components/ui/dialog';
+import { NumberInput } from '@client/components/ui/number-input';
+import { api } from '@client/lib/api';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import type { InferResponseType } from 'hono/client';
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+
+export type OptionPosition = InferResponseType<typeof api.positions.$get>['positions'][number];
+
+interface ClosePositionDialogProps {
+  position: OptionPosition | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Buy back a short position with a LIMIT order, prefilled with the net quantity and the best ask
+ */
+export function ClosePositionDialog({ position, open, onOpenChange }: ClosePositionDialogProps) {
+  const queryClient = useQueryClient();
+  const [quantity, setQuantity] = useState(1);
+  const [price, setPrice] = useState(0);
+
+  // Prefill when a position is selected, not on every refetch of its prices
+  useEffect(() => {
+    if (position) {
+      setQuantity(Math.abs(position.quantity));
+      setPrice(position.ask || position.lastPrice);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [position?.instrumentToken, open]);
+
+  const buyOrderMutation = useMutation({
+    mutationFn: async () => {
+      if (!position) throw new Error('No position selected');
+
+      const res = await api.orders.buy.$post({
+        json: {
+          tradingsymbol: position.tradingsymbol,
+          price,
+          quantity,
+          product: position.product === 'MIS' ? 'MIS' : 'NRML',
+        },
+      });
+
+      return res.json();
+    },
+    onSuccess: (data) => {
+      if (data.success) {
+        toast.success(`Buy order placed successfully! Order ID: ${data.order_id}`);
+        queryClient.invalidateQueries({ queryKey: ['positions'] });
+        onOpenChange(false);
+      }
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to place order');
+    },
+  });
+
+  if (!position) return null;
+
+  const shortQuantity = Math.abs(position.quantity);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Close {position.tradingsymbol}</DialogTitle>
+          <DialogDescription>
+            Short {shortQuantity} {shortQuantity === 1 ? 'lot' : 'lots'} at {position.averagePrice.toFixed(2)}. Best bid{' '}
+            {position.bid ? position.bid.toFixed(2) : '-'}, best ask {position.ask ? position.ask.toFixed(2) : '-'}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className='grid grid-cols-2 gap-4'>
+          <div className='space-y-1'>
+            <span className='text-sm font-medium text-zinc-700 dark:text-zinc-300'>Quantity</span>
+            <NumberInput
+              aria-label='Quantity'
+              value={quantity}
+              onChange={(value) => setQuantity(Number.isNaN(value) ? shortQuantity : value)}
+              minValue={1}
+              maxValue={shortQuantity}
+              step={1}
+            />
+          </div>
+          <div className='space-y-1'>
+            <span className='text-sm font-medium text-zinc-700 dark:text-zinc-300'>Limit price</span>
+            <NumberInput
+              aria-label='Limit price'
+              value={price}
+              onChange={(value) => setPrice(Number.isNaN(value) ? 0 : value)}
+              minValue={0.05}
+              step={0.05}
+              formatOptions={{ minimumFractionDigits: 2, maximumFractionDigits: 2 }}
+            />
+          </div>
+        </div>
+
+        <div className='flex flex-row-reverse gap-4'>
+          <Button
+            type='button'
+            disabled={price <= 0 || buyOrderMutation.isPending}
+            isLoading={buyOrderMutation.isPending}
+            loadingText='Placing Order...'
+            onClick={() => buyOrderMutation.mutate()}
+          >
+            Place Buy Order
+          </Button>
+          <DialogClose asChild>
+            <Button type='button' variant='ghost'>
+              Cancel
+            </Button>
+          </DialogClose>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
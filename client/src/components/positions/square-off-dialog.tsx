@@ -0,0 +1,99 @@
+import { Button } from '@client/components/ui/button';
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@client/components/ui/dialog';
+import { api } from '@client/lib/api';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import type { OptionPosition } from './close-position-dialog';
+
+interface SquareOffDialogProps {
+  underlying: string | null;
+  positions: OptionPosition[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Confirm buying back every short option position of an underlying at its best ask
+ */
+export function SquareOffDialog({ underlying, positions, open, onOpenChange }: SquareOffDialogProps) {
+  const queryClient = useQueryClient();
+  const shorts = positions.filter((position) => position.quantity < 0);
+
+  const squareOffMutation = useMutation({
+    mutationFn: async () => {
+      if (!underlying) throw new Error('No underlying selected');
+
+      const res = await api.orders['square-off'].$post({ json: { underlying } });
+      return res.json();
+    },
+    onSuccess: ({ results }) => {
+      const failed = results.flatMap((result) =>
+        'error' in result ? [`${result.tradingsymbol} (${result.error})`] : []
+      );
+      if (failed.length === 0) {
+        toast.success(`Placed ${results.length} buy orders to square off ${underlying}`);
+      } else {
+        toast.error(
+          `Placed ${results.length - failed.length} of ${results.length} orders. Failed: ${failed.join(', ')}`
+        );
+      }
+      queryClient.invalidateQueries({ queryKey: ['positions'] });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || `Failed to square off ${underlying}`);
+    },
+  });
+
+  if (!underlying) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Square off all {underlying} shorts?</DialogTitle>
+          <DialogDescription>
+            A LIMIT buy order will be placed at the best ask for each short position below. Positions without an ask are
+            skipped.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className='divide-border divide-y rounded-md border text-sm'>
+          {shorts.map((position) => (
+            <div key={position.instrumentToken} className='flex items-center justify-between px-3 py-2'>
+              <span className='font-medium'>{position.tradingsymbol}</span>
+              <span className='text-muted-foreground tabular-nums'>
+                BUY {Math.abs(position.quantity)} @ {position.ask ? position.ask.toFixed(2) : 'no ask'}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        <div className='flex flex-row-reverse gap-4'>
+          <Button
+            type='button'
+            variant='destructive'
+            disabled={shorts.length === 0 || squareOffMutation.isPending}
+            isLoading={squareOffMutation.isPending}
+            loadingText='Placing Orders...'
+            onClick={() => squareOffMutation.mutate()}
+          >
+            Square Off {shorts.length} {shorts.length === 1 ? 'Position' : 'Positions'}
+          </Button>
+          <DialogClose asChild>
+            <Button type='button' variant='ghost'>
+              Cancel
+            </Button>
+          </DialogClose>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
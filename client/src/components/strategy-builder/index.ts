@@ -0,0 +1 @@
+export { StrategyBuilder } from './strategy-builder';
@@ -0,0 +1,324 @@
+import { Button } from '@client/components/ui/button';
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@client/components/ui/dialog';
+import { NumberInput } from '@client/components/ui/number-input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@client/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@client/components/ui/table';
+import { api } from '@client/lib/api';
+import {
+  buildStrategy,
+  getBreakevens,
+  getLegPrice,
+  getNetDelta,
+  getNetPremium,
+  getSigmaDistance,
+  STRATEGY_LABELS,
+  type StrategyKind,
+  type StrategyLeg,
+} from '@client/lib/strategies';
+import { cn } from '@client/lib/utils';
+import type { OptionChain } from '@client/types/option-chain';
+import { keepPreviousData, useMutation, useQuery } from '@tanstack/react-query';
+import { RefreshCwIcon } from 'lucide-react';
+import { useEffect, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+
+interface StrategyBuilderProps {
+  /**
+   * Short option the strategy is built around
+   */
+  option: OptionChain | null;
+  /**
+   * Options the other legs are picked from
+   */
+  chain: OptionChain[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Leg as chosen in the builder. Prices are kept as placed, the option is looked up live.
+ */
+type LegSelection = Omit<StrategyLeg, 'option'> & { instrumentToken: number };
+
+function displayInr(value: number): string {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    maximumFractionDigits: 0,
+  }).format(value);
+}
+
+export function StrategyBuilder({ option, chain, open, onOpenChange }: StrategyBuilderProps) {
+  const [kind, setKind] = useState<StrategyKind>('strangle');
+  const [quantity, setQuantity] = useState(1);
+  const [wingWidth, setWingWidth] = useState(2);
+  const [selections, setSelections] = useState<LegSelection[]>([]);
+
+  const { data: commoditiesData } = useQuery({
+    queryKey: ['commodities'],
+    queryFn: async () => {
+      const res = await api.settings.commodities.$get();
+      return res.json();
+    },
+  });
+
+  const optionsByToken = useMemo(() => new Map(chain.map((o) => [o.instrumentToken, o])), [chain]);
+
+  // Pick the legs again when the strategy changes, not on every tick
+  useEffect(() => {
+    if (!option) return;
+    const legs = buildStrategy(kind, option, chain, quantity, wingWidth) ?? [];
+    setSelections(legs.map(({ option, ...leg }) => ({ ...leg, instrumentToken: option.instrumentToken })));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [option?.instrumentToken, kind, quantity, wingWidth, open]);
+
+  const legs: StrategyLeg[] = selections.flatMap((selection) => {
+    const legOption = optionsByToken.get(selection.instrumentToken);
+    return legOption ? [{ ...selection, option: legOption }] : [];
+  });
+
+  const basketLegs = selections.map((selection) => ({
+    tradingsymbol: optionsByToken.get(selection.instrumentToken)?.tradingsymbol ?? '',
+    transactionType: selection.transactionType,
+    quantity: selection.quantity,
+    price: selection.price,
+  }));
+
+  const { data: marginData, isFetching: isFetchingMargin } = useQuery({
+    queryKey: ['basketMargin', basketLegs],
+    queryFn: async () => {
+      const res = await api.orders['basket-margin'].$post({ json: { legs: basketLegs } });
+      return res.json();
+    },
+    enabled: open && basketLegs.length > 0 && basketLegs.every((leg) => leg.tradingsymbol && leg.price > 0),
+    placeholderData: keepPreviousData,
+    staleTime: 10_000,
+  });
+
+  const placeStrategyMutation = useMutation({
+    mutationFn: async () => {
+      const res = await api.orders.strategy.$post({ json: { legs: basketLegs } });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      toast.success(`${STRATEGY_LABELS[kind]} placed, ${data.orderIds.length} legs`);
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to place strategy', { duration: 15000 });
+    },
+  });
+
+  if (!option) return null;
+
+  const updateSelection = (index: number, update: Partial<LegSelection>) => {
+    setSelections((current) => current.map((selection, i) => (i === index ? { ...selection, ...update } : selection)));
+  };
+
+  const refreshPrices = () => {
+    setSelections((current) =>
+      current.map((selection) => {
+        const legOption = optionsByToken.get(selection.instrumentToken);
+        return legOption ? { ...selection, price: getLegPrice(legOption, selection.transactionType) } : selection;
+      })
+    );
+  };
+
+  const multiplier = commoditiesData?.commodities.find((c) => c.symbol === option.name)?.multiplier ?? 0;
+  const netPremium = getNetPremium(legs) * multiplier;
+  const netDelta = getNetDelta(legs);
+  const breakevens = getBreakevens(legs);
+  const margin = marginData?.final ?? 0;
+  const hasMissingLeg = legs.length < 2 || legs.length !== selections.length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className='sm:max-w-4xl'>
+        <DialogHeader>
+          <DialogTitle>
+            {STRATEGY_LABELS[kind]} on {option.name} {option.strike}
+            {option.instrumentType}
+          </DialogTitle>
+          <DialogDescription>
+            Place all legs together. If a leg fails, the legs already placed are cancelled or closed.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Strategy Options */}
+        <div className='flex flex-wrap items-end gap-4'>
+          <div className='flex flex-col gap-2'>
+            <span className='text-sm font-medium'>Strategy</span>
+            <Select value={kind} onValueChange={(value) => setKind(value as StrategyKind)}>
+              <SelectTrigger className='w-44'>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(STRATEGY_LABELS) as StrategyKind[]).map((k) => (
+                  <SelectItem key={k} value={k}>
+                    {STRATEGY_LABELS[k]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className='flex flex-col gap-2'>
+            <span className='text-sm font-medium'>Lots</span>
+            <NumberInput
+              aria-label='Lots'
+              value={quantity}
+              onChange={setQuantity}
+              step={1}
+              minValue={1}
+              className='w-32'
+            />
+          </div>
+          {kind !== 'strangle' && (
+            <div className='flex flex-col gap-2'>
+              <span className='text-sm font-medium'>Wing width (strikes)</span>
+              <NumberInput
+                aria-label='Wing width in strikes'
+                value={wingWidth}
+                onChange={setWingWidth}
+                step={1}
+                minValue={1}
+                maxValue={20}
+                className='w-32'
+              />
+            </div>
+          )}
+          <Button variant='outline' className='ml-auto' onClick={refreshPrices}>
+            <RefreshCwIcon />
+            Live Prices
+          </Button>
+        </div>
+
+        {/* Legs */}
+        {hasMissingLeg ? (
+          <div className='rounded-md border border-amber-200 bg-amber-50 p-4 dark:border-amber-800 dark:bg-amber-950'>
+            <p className='text-sm text-amber-800 dark:text-amber-200'>
+              No strike in the chain for the other leg of this {STRATEGY_LABELS[kind].toLowerCase()}.
+            </p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Side</TableHead>
+                <TableHead>Instrument</TableHead>
+                <TableHead className='text-right'>Bid / Ask</TableHead>
+                <TableHead className='text-right'>Delta</TableHead>
+                <TableHead className='text-right'>SD</TableHead>
+                <TableHead className='text-right'>Lots</TableHead>
+                <TableHead className='text-right'>Price</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {legs.map((leg, index) => (
+                <TableRow key={leg.option.instrumentToken}>
+                  <TableCell
+                    className={
+                      leg.transactionType === 'SELL'
+                        ? 'text-red-600 dark:text-red-400'
+                        : 'text-emerald-600 dark:text-emerald-400'
+                    }
+                  >
+                    {leg.transactionType}
+                  </TableCell>
+                  <TableCell className='font-medium'>{leg.option.tradingsymbol}</TableCell>
+                  <TableCell className='text-right tabular-nums'>
+                    {leg.option.bid.toFixed(2)} / {(leg.option.marketDepth?.sell[0]?.price ?? 0).toFixed(2)}
+                  </TableCell>
+                  <TableCell className='text-right tabular-nums'>{leg.option.delta.toFixed(3)}</TableCell>
+                  <TableCell className='text-right tabular-nums'>{getSigmaDistance(leg.option).toFixed(2)}</TableCell>
+                  <TableCell className='text-right'>
+                    <NumberInput
+                      aria-label={`Lots of ${leg.option.tradingsymbol}`}
+                      value={leg.quantity}
+                      onChange={(value) => updateSelection(index, { quantity: value })}
+                      step={1}
+                      minValue={1}
+                      className='ml-auto w-28'
+                    />
+                  </TableCell>
+                  <TableCell className='text-right'>
+                    <NumberInput
+                      aria-label={`Price of ${leg.option.tradingsymbol}`}
+                      value={leg.price}
+                      onChange={(value) => updateSelection(index, { price: value })}
+                      step={0.05}
+                      minValue={0.05}
+                      className='ml-auto w-32'
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {/* Summary */}
+        {!hasMissingLeg && (
+          <div className='grid grid-cols-4 gap-4'>
+            <div className='rounded-md bg-emerald-50/50 p-4 text-emerald-800 ring-1 ring-emerald-700/20 ring-inset dark:bg-emerald-500/5 dark:text-emerald-200'>
+              <h4 className='text-sm font-semibold text-emerald-700 dark:text-emerald-500'>Net Premium</h4>
+              <p className={cn('text-2xl font-bold', netPremium < 0 && 'text-red-600 dark:text-red-400')}>
+                {multiplier ? displayInr(netPremium) : '-'}
+              </p>
+              {margin > 0 && multiplier > 0 && (
+                <p className='text-muted-foreground text-xs'>
+                  {((netPremium / margin) * 100).toFixed(2)}% return on margin
+                </p>
+              )}
+            </div>
+            <div className='rounded-md bg-zinc-50/50 p-4 text-zinc-800 ring-1 ring-zinc-700/20 ring-inset dark:bg-zinc-500/5 dark:text-zinc-200'>
+              <h4 className='text-sm font-semibold text-zinc-700 dark:text-zinc-500'>Combined Margin</h4>
+              <p className={cn('text-2xl font-bold', isFetchingMargin && 'opacity-50')}>
+                {marginData ? displayInr(margin) : '-'}
+              </p>
+              {marginData && marginData.initial > marginData.final && (
+                <p className='text-muted-foreground text-xs'>{displayInr(marginData.initial)} without the hedge</p>
+              )}
+            </div>
+            <div className='rounded-md bg-zinc-50/50 p-4 text-zinc-800 ring-1 ring-zinc-700/20 ring-inset dark:bg-zinc-500/5 dark:text-zinc-200'>
+              <h4 className='text-sm font-semibold text-zinc-700 dark:text-zinc-500'>Net Delta</h4>
+              <p className='text-2xl font-bold tabular-nums'>{netDelta.toFixed(3)}</p>
+            </div>
+            <div className='rounded-md bg-zinc-50/50 p-4 text-zinc-800 ring-1 ring-zinc-700/20 ring-inset dark:bg-zinc-500/5 dark:text-zinc-200'>
+              <h4 className='text-sm font-semibold text-zinc-700 dark:text-zinc-500'>Breakevens</h4>
+              <p className='text-lg font-bold tabular-nums'>
+                {breakevens.length > 0 ? breakevens.map((price) => price.toFixed(2)).join(' / ') : '-'}
+              </p>
+              <p className='text-muted-foreground text-xs'>Future at {option.underlyingLtp.toFixed(2)}</p>
+            </div>
+          </div>
+        )}
+
+        {/* Action Buttons */}
+        <div className='flex flex-row-reverse gap-4'>
+          <Button
+            type='button'
+            size='lg'
+            disabled={hasMissingLeg || legs.some((leg) => leg.price <= 0) || placeStrategyMutation.isPending}
+            isLoading={placeStrategyMutation.isPending}
+            loadingText='Placing Legs...'
+            onClick={() => placeStrategyMutation.mutate()}
+          >
+            Place {legs.length} Legs
+          </Button>
+          <DialogClose asChild>
+            <Button type='button' size='lg' variant='ghost'>
+              Cancel
+            </Button>
+          </DialogClose>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
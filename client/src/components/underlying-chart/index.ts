@@ -0,0 +1 @@
+export { UnderlyingChart } from './underlying-chart';
@@ -0,0 +1,83 @@
+import { useCandles } from '@client/hooks/use-candles';
+import { getSigmaBounds } from '@client/lib/sigma';
+import { cn } from '@client/lib/utils';
+import { CANDLE_INTERVALS, type CandleInterval } from '@client/types/candles';
+import type { OptionChain } from '@client/types/option-chain';
+import { format } from 'date-fns';
+import { useState } from 'react';
+import { Line, LineChart, ReferenceArea, ResponsiveContainer, Tooltip, YAxis } from 'recharts';
+
+interface UnderlyingChartProps {
+  /**
+   * Option of the nearest expiry shown in the card, identifying the future and the σₓᵢ band
+   */
+  option: OptionChain;
+  sdMultiplier?: number;
+}
+
+const colors = {
+  price: '#2563eb', // blue-600
+  band: '#3b82f6', // blue-500
+};
+
+/**
+ * Mini chart of the future's LTP (candle closes) over the current ±σₓᵢ band the strikes are picked from.
+ * The band is always included in the price axis, so moves can be read against its width.
+ */
+export function UnderlyingChart({ option, sdMultiplier }: UnderlyingChartProps) {
+  const [candleInterval, setCandleInterval] = useState<CandleInterval>('1m');
+  const candles = useCandles(option.name, option.futExpiry, candleInterval).slice(-60);
+  const bounds = sdMultiplier ? getSigmaBounds(option, sdMultiplier) : null;
+
+  return (
+    <div className='flex items-center gap-2'>
+      <div className='h-12 w-48'>
+        {candles.length < 2 ? (
+          <div className='text-muted-foreground flex h-full items-center justify-center text-xs'>No candles yet</div>
+        ) : (
+          <ResponsiveContainer width='100%' height='100%'>
+            <LineChart data={candles} margin={{ top: 2, right: 0, bottom: 2, left: 0 }}>
+              <YAxis hide domain={['dataMin', 'dataMax']} />
+              {bounds && (
+                <ReferenceArea
+                  y1={bounds.peBound}
+                  y2={bounds.ceBound}
+                  fill={colors.band}
+                  fillOpacity={0.08}
+                  ifOverflow='extendDomain'
+                />
+              )}
+              <Tooltip
+                formatter={(value: number) => [value.toFixed(2), 'Close']}
+                labelFormatter={(_, payload) => {
+                  const candle = payload[0]?.payload;
+                  return candle
+                    ? `${format(new Date(candle.time), 'HH:mm')} · O ${candle.open} H ${candle.high} L ${candle.low}`
+                    : '';
+                }}
+              />
+              <Line dataKey='close' stroke={colors.price} strokeWidth={1.5} dot={false} isAnimationActive={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+      <div className='flex flex-col text-[10px] leading-tight'>
+        {CANDLE_INTERVALS.map((i) => (
+          <button
+            key={i}
+            type='button'
+            onClick={() => setCandleInterval(i)}
+            className={cn(
+              'rounded px-1',
+              i === candleInterval
+                ? 'bg-muted text-foreground font-semibold'
+                : 'text-muted-foreground hover:text-foreground'
+            )}
+          >
+            {i}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,2 @@
+export { SmileChart } from './smile-chart';
+export { TermStructureChart } from './term-structure-chart';
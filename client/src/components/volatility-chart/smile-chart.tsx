@@ -0,0 +1,127 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@client/components/ui/card';
+import { getSigmaBounds } from '@client/lib/sigma';
+import type { OptionChain } from '@client/types/option-chain';
+import { format } from 'date-fns';
+import { useMemo } from 'react';
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+
+interface SmilePoint {
+  strike: number;
+  ce?: number;
+  pe?: number;
+}
+
+interface SmileChartProps {
+  expiry: string;
+  /**
+   * Option chain rows of a single underlying and expiry
+   */
+  options: OptionChain[];
+  sdMultiplier?: number;
+}
+
+const formatPercent = (value: number) => `${value.toFixed(2)}%`;
+
+const colors = {
+  ce: '#059669', // emerald-600
+  pe: '#dc2626', // red-600
+  av: '#eab308', // yellow-500
+  bound: '#3b82f6', // blue-500
+};
+
+/**
+ * Implied volatility (backed out from the bid) by strike for one expiry, calls and puts overlaid,
+ * with the annual volatility and the σₓᵢ bounds of the SD filter for reference.
+ */
+export function SmileChart({ expiry, options, sdMultiplier }: SmileChartProps) {
+  const points = useMemo(() => {
+    const byStrike = new Map<number, SmilePoint>();
+    for (const option of options) {
+      if (!option.strike || !option.ivBid) continue;
+
+      const point = byStrike.get(option.strike) ?? { strike: option.strike };
+      if (option.instrumentType === 'CE') {
+        point.ce = option.ivBid;
+      } else if (option.instrumentType === 'PE') {
+        point.pe = option.ivBid;
+      }
+      byStrike.set(option.strike, point);
+    }
+    return Array.from(byStrike.values()).sort((a, b) => a.strike - b.strike);
+  }, [options]);
+
+  const reference = options[0];
+  const bounds = reference && sdMultiplier ? getSigmaBounds(reference, sdMultiplier) : null;
+
+  return (
+    <Card className='gap-2 pt-4 pb-2'>
+      <CardHeader className='flex flex-row items-center justify-between px-4'>
+        <CardTitle className='text-base'>{format(new Date(expiry), 'dd MMM yyyy')}</CardTitle>
+        {reference && (
+          <div className='text-muted-foreground text-xs tabular-nums'>
+            LTP {reference.underlyingLtp.toFixed(2)} · AV {formatPercent(reference.av)}
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className='px-2'>
+        {points.length === 0 ? (
+          <div className='text-muted-foreground flex h-64 items-center justify-center text-sm'>
+            No implied volatility available
+          </div>
+        ) : (
+          <ResponsiveContainer width='100%' height={256}>
+            <LineChart data={points} margin={{ top: 16, right: 16, bottom: 0, left: 0 }}>
+              <CartesianGrid strokeDasharray='3 3' className='stroke-border' />
+              <XAxis dataKey='strike' type='number' domain={['dataMin', 'dataMax']} fontSize={12} />
+              <YAxis unit='%' domain={['auto', 'auto']} fontSize={12} width={56} />
+              <Tooltip
+                formatter={(value: number) => formatPercent(value)}
+                labelFormatter={(strike: number) => `Strike ${strike}`}
+              />
+              <Legend />
+              <Line name='CE' dataKey='ce' stroke={colors.ce} dot={{ r: 2 }} connectNulls isAnimationActive={false} />
+              <Line name='PE' dataKey='pe' stroke={colors.pe} dot={{ r: 2 }} connectNulls isAnimationActive={false} />
+              {reference && (
+                <ReferenceLine
+                  y={reference.av}
+                  stroke={colors.av}
+                  strokeDasharray='4 4'
+                  label={{ value: 'AV', position: 'insideTopLeft', fontSize: 11 }}
+                  ifOverflow='extendDomain'
+                />
+              )}
+              {bounds && (
+                <ReferenceLine
+                  x={bounds.peBound}
+                  stroke={colors.bound}
+                  strokeDasharray='4 4'
+                  label={{ value: 'PE σₓᵢ', position: 'insideTopRight', fontSize: 11 }}
+                  ifOverflow='extendDomain'
+                />
+              )}
+              {bounds && (
+                <ReferenceLine
+                  x={bounds.ceBound}
+                  stroke={colors.bound}
+                  strokeDasharray='4 4'
+                  label={{ value: 'CE σₓᵢ', position: 'insideTopLeft', fontSize: 11 }}
+                  ifOverflow='extendDomain'
+                />
+              )}
+            </LineChart>
+          </ResponsiveContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
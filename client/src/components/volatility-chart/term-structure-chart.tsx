@@ -0,0 +1,78 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@client/components/ui/card';
+import type { OptionChain } from '@client/types/option-chain';
+import { format } from 'date-fns';
+import { useMemo } from 'react';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+
+interface TermStructurePoint {
+  expiry: string;
+  atm?: number;
+  av: number;
+}
+
+interface TermStructureChartProps {
+  /**
+   * Option chain rows of a single underlying, grouped by expiry
+   */
+  optionsByExpiry: [string, OptionChain[]][];
+}
+
+/**
+ * Implied volatility of the strike closest to the underlying, averaging the CE and PE
+ * of that strike when both are quoted
+ */
+function getAtmIv(options: OptionChain[]) {
+  const quoted = options.filter((o) => o.strike && o.ivBid);
+  if (quoted.length === 0) return undefined;
+
+  const distance = (o: OptionChain) => Math.abs(o.strike! - o.underlyingLtp);
+  const closest = quoted.reduce((min, o) => (distance(o) < distance(min) ? o : min));
+  const atStrike = quoted.filter((o) => o.strike === closest.strike);
+
+  return atStrike.reduce((sum, o) => sum + o.ivBid, 0) / atStrike.length;
+}
+
+export function TermStructureChart({ optionsByExpiry }: TermStructureChartProps) {
+  const points = useMemo(
+    () =>
+      optionsByExpiry.map(
+        ([expiry, options]): TermStructurePoint => ({
+          expiry: format(new Date(expiry), 'dd MMM'),
+          atm: getAtmIv(options),
+          av: options[0]?.av ?? 0,
+        })
+      ),
+    [optionsByExpiry]
+  );
+
+  return (
+    <Card className='gap-2 pt-4 pb-2'>
+      <CardHeader className='px-4'>
+        <CardTitle className='text-base'>ATM Term Structure</CardTitle>
+        <CardDescription>
+          Implied volatility of the subscribed strike closest to the underlying, for each expiry
+        </CardDescription>
+      </CardHeader>
+      <CardContent className='px-2'>
+        <ResponsiveContainer width='100%' height={220}>
+          <LineChart data={points} margin={{ top: 16, right: 16, bottom: 0, left: 0 }}>
+            <CartesianGrid strokeDasharray='3 3' className='stroke-border' />
+            <XAxis dataKey='expiry' fontSize={12} />
+            <YAxis unit='%' domain={['auto', 'auto']} fontSize={12} width={56} />
+            <Tooltip formatter={(value: number) => `${value.toFixed(2)}%`} />
+            <Legend />
+            <Line
+              name='ATM IV'
+              dataKey='atm'
+              stroke='var(--primary)'
+              dot={{ r: 3 }}
+              connectNulls
+              isAnimationActive={false}
+            />
+            <Line name='AV' dataKey='av' stroke='#eab308' strokeDasharray='4 4' dot={false} isAnimationActive={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </CardContent>
+    </Card>
+  );
+}
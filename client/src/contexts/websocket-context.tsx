@@ -1,15 +1,24 @@
 import { useWebSocket } from '@client/hooks/use-websocket';
+import type { LatestCandles } from '@client/types/candles';
 import type { OptionChainData } from '@client/types/option-chain';
+import type { LiveOrders, OrderChases, SlicedOrders } from '@client/types/orders';
+import type { PortfolioRisk } from '@client/types/risk';
 import { createContext, useContext, type ReactNode } from 'react';
 
 interface WebSocketContextType {
   optionChainData: OptionChainData;
+  latestCandles: LatestCandles;
+  portfolioRisk: PortfolioRisk | null;
+  liveOrders: LiveOrders;
+  orderChases: OrderChases;
+  slicedOrders: SlicedOrders;
   isConnected: boolean;
   connect: () => void;
   disconnect: () => void;
   subscribe: (symbols: string[]) => void;
   unsubscribe: (symbols: string[]) => void;
   updateSdMultiplier: (value: number) => void;
+  setFocusedTokens: (key: string, tokens: number[]) => void;
 }
 
 const WebSocketContext = createContext<WebSocketContextType | null>(null);
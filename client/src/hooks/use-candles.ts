@@ -0,0 +1,36 @@
+import { useWebSocketContext } from '@client/contexts/websocket-context';
+import { api } from '@client/lib/api';
+import { latestCandleKey, type Candle, type CandleInterval } from '@client/types/candles';
+import { useQuery } from '@tanstack/react-query';
+import { useMemo } from 'react';
+
+/**
+ * Candles of a symbol's future, fetched once a minute and kept current with the candles pushed over the WebSocket
+ */
+export function useCandles(symbol: string | undefined, expiry: string | undefined, interval: CandleInterval) {
+  const { latestCandles } = useWebSocketContext();
+
+  const { data } = useQuery({
+    queryKey: ['candles', symbol, expiry, interval],
+    queryFn: async () => {
+      const res = await api.candles[':symbol'].$get({
+        param: { symbol: symbol as 'GOLD' },
+        query: { interval, expiry },
+      });
+      return res.json();
+    },
+    enabled: !!symbol && !!expiry,
+    refetchInterval: 60_000,
+  });
+
+  const latest = symbol && expiry ? latestCandles[latestCandleKey(symbol, expiry, interval)] : undefined;
+
+  return useMemo(() => {
+    const candles: Candle[] = data?.candles ?? [];
+    const last = candles.at(-1);
+    if (!latest || (last && latest.time < last.time)) {
+      return candles;
+    }
+    return last?.time === latest.time ? [...candles.slice(0, -1), latest] : [...candles, latest];
+  }, [data, latest]);
+}
@@ -0,0 +1,30 @@
+import { optionalColumns } from '@client/components/options-table/columns';
+import type { VisibilityState } from '@tanstack/react-table';
+import { useCallback, useState } from 'react';
+
+const storageKey = 'options-table-columns';
+
+/**
+ * Visibility of the optional option chain columns, persisted in localStorage.
+ * Optional columns are hidden until enabled.
+ */
+export const useColumnVisibility = () => {
+  const [columnVisibility, setColumnVisibility] = useState<VisibilityState>(() => {
+    const hidden = Object.fromEntries(Object.keys(optionalColumns).map((id) => [id, false]));
+    try {
+      return { ...hidden, ...JSON.parse(localStorage.getItem(storageKey) ?? '{}') };
+    } catch {
+      return hidden;
+    }
+  });
+
+  const toggleColumn = useCallback((id: string, visible: boolean) => {
+    setColumnVisibility((current) => {
+      const next = { ...current, [id]: visible };
+      localStorage.setItem(storageKey, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  return { columnVisibility, toggleColumn };
+};
@@ -0,0 +1,53 @@
+import { useNotifications } from '@client/contexts/notification-context';
+import { useWebSocketContext } from '@client/contexts/websocket-context';
+import type { ChaseStatus, OrderStatus, TrackedOrder } from '@client/types/orders';
+import { useEffect, useRef } from 'react';
+
+function describeOrder(order: TrackedOrder) {
+  const quantity = order.status === 'partial' ? `${order.filledQuantity}/${order.quantity}` : String(order.quantity);
+  return `[${order.tradingsymbol}] ${order.transactionType} ${quantity} @ ${order.price}`;
+}
+
+/**
+ * Add a notification whenever an order placed from the app changes status or a chase of the best bid ends.
+ * Rejections and chases that failed are important.
+ */
+export function useOrderNotifications() {
+  const { liveOrders, orderChases } = useWebSocketContext();
+  const { addNotification } = useNotifications();
+  const notifiedStatusesRef = useRef(new Map<string, OrderStatus>());
+  const seenChaseStatusesRef = useRef(new Map<string, ChaseStatus>());
+
+  useEffect(() => {
+    for (const order of Object.values(liveOrders)) {
+      if (notifiedStatusesRef.current.get(order.orderId) === order.status) {
+        continue;
+      }
+      notifiedStatusesRef.current.set(order.orderId, order.status);
+
+      if (order.status === 'rejected') {
+        addNotification(`${describeOrder(order)} rejected: ${order.statusMessage ?? 'no reason given'}`, 'important');
+      } else if (order.status === 'complete') {
+        addNotification(`${describeOrder(order)} complete, average price ${order.averagePrice}`);
+      } else {
+        addNotification(`${describeOrder(order)} ${order.status}`);
+      }
+    }
+  }, [liveOrders, addNotification]);
+
+  useEffect(() => {
+    for (const chase of Object.values(orderChases)) {
+      // Chases that ended before this page saw them active were already notified elsewhere
+      const previousStatus = seenChaseStatusesRef.current.get(chase.orderId);
+      seenChaseStatusesRef.current.set(chase.orderId, chase.status);
+      if (chase.status === 'active' || previousStatus !== 'active') {
+        continue;
+      }
+
+      addNotification(
+        `[${chase.tradingsymbol}] Chase ended: ${chase.statusMessage ?? chase.status}`,
+        chase.status === 'failed' ? 'important' : undefined
+      );
+    }
+  }, [orderChases, addNotification]);
+}
@@ -0,0 +1,13 @@
+import { api } from '@client/lib/api';
+import { useQuery } from '@tanstack/react-query';
+
+export function usePaperTrading() {
+  return useQuery({
+    queryKey: ['paperTrading'],
+    queryFn: async () => {
+      const res = await api.settings['paper-trading'].$get();
+      return res.json();
+    },
+    refetchInterval: 5000,
+  });
+}
@@ -1,17 +1,39 @@
+import { latestCandleKey, type CandleUpdate, type LatestCandles } from '@client/types/candles';
 import type { OptionChainData } from '@client/types/option-chain';
+import type {
+  LiveOrders,
+  OrderChase,
+  OrderChases,
+  SlicedOrder,
+  SlicedOrders,
+  TrackedOrder,
+} from '@client/types/orders';
+import type { PortfolioRisk } from '@client/types/risk';
 import { useCallback, useEffect, useRef, useState } from 'react';
 import { toast } from 'sonner';
 
-type WebSocketMessage = { type: 'optionChain'; data: OptionChainData };
+type WebSocketMessage =
+  | { type: 'optionChain'; data: OptionChainData }
+  | { type: 'candles'; data: CandleUpdate[] }
+  | { type: 'risk'; data: PortfolioRisk }
+  | { type: 'orders'; data: TrackedOrder[] }
+  | { type: 'chase'; data: OrderChase }
+  | { type: 'slicedOrder'; data: SlicedOrder };
 
 export function useWebSocket(subscribedSymbols?: string[]) {
   const [optionChainData, setOptionChainData] = useState<OptionChainData>({});
+  const [latestCandles, setLatestCandles] = useState<LatestCandles>({});
+  const [portfolioRisk, setPortfolioRisk] = useState<PortfolioRisk | null>(null);
+  const [liveOrders, setLiveOrders] = useState<LiveOrders>({});
+  const [orderChases, setOrderChases] = useState<OrderChases>({});
+  const [slicedOrders, setSlicedOrders] = useState<SlicedOrders>({});
   const [isConnected, setIsConnected] = useState(false);
   const wsRef = useRef<WebSocket | null>(null);
   const reconnectTimeoutRef = useRef<number | null>(null);
   const reconnectAttemptsRef = useRef(0);
   const subscribedSymbolsRef = useRef<string[]>(subscribedSymbols ?? []);
   const pendingSubscriptionsRef = useRef<string[]>([]);
+  const focusedTokensRef = useRef(new Map<string, number[]>());
 
   const connect = useCallback(() => {
     try {
@@ -38,6 +60,13 @@ export function useWebSocket(subscribedSymbols?: string[]) {
           ];
           pendingSubscriptionsRef.current = [];
         }
+
+        // Restore the focused options after a reconnect
+        if (focusedTokensRef.current.size > 0) {
+          ws.send(
+            JSON.stringify({ type: 'focus', tokens: [...new Set([...focusedTokensRef.current.values()].flat())] })
+          );
+        }
       });
 
       ws.addEventListener('message', (event) => {
@@ -46,6 +75,28 @@ export function useWebSocket(subscribedSymbols?: string[]) {
 
           if (message.type === 'optionChain') {
             setOptionChainData(message.data);
+          } else if (message.type === 'candles') {
+            setLatestCandles((prev) => {
+              const next = { ...prev };
+              for (const { symbol, expiry, interval, candle } of message.data) {
+                next[latestCandleKey(symbol, expiry, interval)] = candle;
+              }
+              return next;
+            });
+          } else if (message.type === 'risk') {
+            setPortfolioRisk(message.data);
+          } else if (message.type === 'orders') {
+            setLiveOrders((prev) => {
+              const next = { ...prev };
+              for (const order of message.data) {
+                next[order.orderId] = order;
+              }
+              return next;
+            });
+          } else if (message.type === 'chase') {
+            setOrderChases((prev) => ({ ...prev, [message.data.orderId]: message.data }));
+          } else if (message.type === 'slicedOrder') {
+            setSlicedOrders((prev) => ({ ...prev, [message.data.id]: message.data }));
           }
         } catch (error) {
           console.error('Failed to parse WebSocket message:', error);
@@ -97,6 +148,9 @@ export function useWebSocket(subscribedSymbols?: string[]) {
 
     setIsConnected(false);
     setOptionChainData({});
+    setLatestCandles({});
+    setPortfolioRisk(null);
+    setLiveOrders({});
     pendingSubscriptionsRef.current = [];
     subscribedSymbolsRef.current = [];
   }, []);
@@ -139,6 +193,10 @@ export function useWebSocket(subscribedSymbols?: string[]) {
   }, []);
 
   const unsubscribe = useCallback((symbols: string[]) => {
+    // Don't subscribe them again on reconnect
+    subscribedSymbolsRef.current = subscribedSymbolsRef.current.filter((symbol) => !symbols.includes(symbol));
+    pendingSubscriptionsRef.current = pendingSubscriptionsRef.current.filter((symbol) => !symbols.includes(symbol));
+
     if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
       wsRef.current.send(JSON.stringify({ type: 'unsubscribe', symbols }));
       console.log('Unsubscribed from symbols:', symbols);
@@ -155,13 +213,36 @@ export function useWebSocket(subscribedSymbols?: string[]) {
     }
   }, []);
 
+  /**
+   * Report the options a component has opened, so the server refreshes their margins first.
+   * Each component reports under its own key; the server gets the union.
+   */
+  const setFocusedTokens = useCallback((key: string, tokens: number[]) => {
+    if (tokens.length > 0) {
+      focusedTokensRef.current.set(key, tokens);
+    } else {
+      focusedTokensRef.current.delete(key);
+    }
+
+    if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
+      const allTokens = [...new Set([...focusedTokensRef.current.values()].flat())];
+      wsRef.current.send(JSON.stringify({ type: 'focus', tokens: allTokens }));
+    }
+  }, []);
+
   return {
     optionChainData,
+    latestCandles,
+    portfolioRisk,
+    liveOrders,
+    orderChases,
+    slicedOrders,
     isConnected,
     connect,
     disconnect,
     subscribe,
     unsubscribe,
     updateSdMultiplier,
+    setFocusedTokens,
   };
 }
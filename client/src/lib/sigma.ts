@@ -0,0 +1,14 @@
+import type { OptionChain } from '@client/types/option-chain';
+
+/**
+ * Underlying prices at which the SD filter cuts the chain for the expiry of an option.
+ * The server uses the CE σₓᵢ on both sides, and σₓᵢ scales linearly with the SD multiplier,
+ * so it can be recovered from any row (σₙ + σₓ is the CE σₓᵢ at a multiplier of 1).
+ */
+export function getSigmaBounds(option: OptionChain, sdMultiplier: number) {
+  const sigmaXI = (option.sigmaN + option.sigmaX) * sdMultiplier;
+  return {
+    peBound: option.underlyingLtp * (1 - sigmaXI / 100),
+    ceBound: option.underlyingLtp * (1 + sigmaXI / 100),
+  };
+}
@@ -0,0 +1,166 @@
+import type { OptionChain } from '@client/types/option-chain';
+
+export type StrategyKind = 'strangle' | 'creditSpread' | 'ratioWrite';
+
+export const STRATEGY_LABELS: Record<StrategyKind, string> = {
+  strangle: 'Strangle',
+  creditSpread: 'Credit Spread',
+  ratioWrite: 'Ratio Write',
+};
+
+export interface StrategyLeg {
+  option: OptionChain;
+  transactionType: 'BUY' | 'SELL';
+  /**
+   * In lots
+   */
+  quantity: number;
+  /**
+   * Limit price
+   */
+  price: number;
+}
+
+/**
+ * Distance of the strike from the future in SDs
+ */
+export function getSigmaDistance(option: OptionChain) {
+  return option.sd > 0 ? option.strikePosition / option.sd : 0;
+}
+
+/**
+ * Price a leg is placed at by default: the best bid for sells, the best ask for buys
+ */
+export function getLegPrice(option: OptionChain, transactionType: 'BUY' | 'SELL') {
+  return transactionType === 'SELL' ? option.bid : (option.marketDepth?.sell[0]?.price ?? 0);
+}
+
+function isOutOfTheMoney(option: OptionChain) {
+  return option.instrumentType === 'CE' ? option.strike! > option.underlyingLtp : option.strike! < option.underlyingLtp;
+}
+
+/**
+ * Options of the same underlying, expiry and type as the given one, ordered from the money outwards
+ */
+function getSameSideStrikes(option: OptionChain, chain: OptionChain[]) {
+  const strikes = chain.filter(
+    (o) => o.name === option.name && o.expiry === option.expiry && o.instrumentType === option.instrumentType
+  );
+  return strikes.sort((a, b) => (option.instrumentType === 'CE' ? a.strike! - b.strike! : b.strike! - a.strike!));
+}
+
+/**
+ * Option `steps` strikes further out of the money than the given one (closer to the money when negative).
+ * Stops at the last strike in the chain, and returns null when there is none beyond the option.
+ */
+function getStrikeAway(option: OptionChain, chain: OptionChain[], steps: number) {
+  const strikes = getSameSideStrikes(option, chain);
+  const index = strikes.findIndex((o) => o.instrumentToken === option.instrumentToken);
+  const target = Math.min(Math.max(index + steps, 0), strikes.length - 1);
+  return index === -1 || target === index ? null : strikes[target]!;
+}
+
+/**
+ * Out of the money option on the other side of the future at the closest SD distance to the given one
+ */
+function getOppositeStrike(option: OptionChain, chain: OptionChain[]) {
+  const distance = getSigmaDistance(option);
+  const candidates = chain.filter(
+    (o) =>
+      o.name === option.name &&
+      o.expiry === option.expiry &&
+      o.instrumentType !== option.instrumentType &&
+      isOutOfTheMoney(o)
+  );
+  if (candidates.length === 0) return null;
+  return candidates.reduce((closest, o) =>
+    Math.abs(getSigmaDistance(o) - distance) < Math.abs(getSigmaDistance(closest) - distance) ? o : closest
+  );
+}
+
+function toLeg(option: OptionChain, transactionType: 'BUY' | 'SELL', quantity: number): StrategyLeg {
+  return { option, transactionType, quantity, price: getLegPrice(option, transactionType) };
+}
+
+/**
+ * Suggested legs of a strategy around a short option:
+ * - strangle: also short the opposite side at the same SD distance
+ * - credit spread: long the same side `wingWidth` strikes further out of the money as protection
+ * - ratio write: short twice the quantity, against a long `wingWidth` strikes closer to the money
+ *
+ * @returns null when the chain has no strike for the other leg
+ */
+export function buildStrategy(
+  kind: StrategyKind,
+  option: OptionChain,
+  chain: OptionChain[],
+  quantity: number,
+  wingWidth: number
+): StrategyLeg[] | null {
+  switch (kind) {
+    case 'strangle': {
+      const opposite = getOppositeStrike(option, chain);
+      return opposite && [toLeg(option, 'SELL', quantity), toLeg(opposite, 'SELL', quantity)];
+    }
+    case 'creditSpread': {
+      const wing = getStrikeAway(option, chain, wingWidth);
+      return wing && [toLeg(option, 'SELL', quantity), toLeg(wing, 'BUY', quantity)];
+    }
+    case 'ratioWrite': {
+      const wing = getStrikeAway(option, chain, -wingWidth);
+      return wing && [toLeg(option, 'SELL', quantity * 2), toLeg(wing, 'BUY', quantity)];
+    }
+  }
+}
+
+/**
+ * Premium received less premium paid, in points summed over the lots of each leg
+ */
+export function getNetPremium(legs: StrategyLeg[]) {
+  return legs.reduce((sum, leg) => sum + (leg.transactionType === 'SELL' ? 1 : -1) * leg.quantity * leg.price, 0);
+}
+
+/**
+ * Net delta in lots of the underlying
+ */
+export function getNetDelta(legs: StrategyLeg[]) {
+  return legs.reduce((sum, leg) => sum + (leg.transactionType === 'BUY' ? 1 : -1) * leg.quantity * leg.option.delta, 0);
+}
+
+/**
+ * Profit at expiry, in points, if the future settles at the given price
+ */
+function getPayoff(legs: StrategyLeg[], price: number) {
+  return legs.reduce((sum, leg) => {
+    const intrinsic =
+      leg.option.instrumentType === 'CE'
+        ? Math.max(0, price - leg.option.strike!)
+        : Math.max(0, leg.option.strike! - price);
+    const sign = leg.transactionType === 'BUY' ? 1 : -1;
+    return sum + sign * leg.quantity * (intrinsic - leg.price);
+  }, 0);
+}
+
+/**
+ * Prices of the future at which the strategy breaks even at expiry, lowest first.
+ * The payoff is linear between strikes, so each root is interpolated within its segment.
+ */
+export function getBreakevens(legs: StrategyLeg[]) {
+  if (legs.length === 0) return [];
+
+  const strikes = [...new Set(legs.map((leg) => leg.option.strike!))].sort((a, b) => a - b);
+  const points = [0, ...strikes, strikes.at(-1)! * 3];
+  const breakevens: number[] = [];
+
+  for (let i = 0; i < points.length - 1; i++) {
+    const [from, to] = [points[i]!, points[i + 1]!];
+    const [fromPayoff, toPayoff] = [getPayoff(legs, from), getPayoff(legs, to)];
+    if (i > 0 && fromPayoff === 0) {
+      breakevens.push(from);
+    } else if (fromPayoff * toPayoff < 0) {
+      breakevens.push(from + ((to - from) * fromPayoff) / (fromPayoff - toPayoff));
+    }
+  }
+
+  return breakevens;
+}
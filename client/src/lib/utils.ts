@@ -4,3 +4,21 @@ import { twMerge } from 'tailwind-merge';
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+/**
+ * Format an amount in thousands, lakhs or crores (e.g. 12.5L)
+ */
+export function formatCompactAmount(value: number): string {
+  const absValue = Math.abs(value);
+  if (absValue >= 1_00_00_000) {
+    // 1 crore or more - show in crores
+    return `${(value / 1_00_00_000).toFixed(1)}Cr`;
+  } else if (absValue >= 1_00_000) {
+    // 10 lakh or more - show in lakhs
+    return `${(value / 1_00_000).toFixed(1)}L`;
+  } else if (absValue >= 1000) {
+    // 1000 or more - show in thousands
+    return `${(value / 1000).toFixed(1)}K`;
+  }
+  return value.toFixed(0);
+}
@@ -9,12 +9,21 @@
 // Additionally, you should also exclude this file from your linter and/or formatter to prevent it from being checked or modified.
 
 import { Route as rootRouteImport } from './routes/__root'
+import { Route as VolatilityRouteImport } from './routes/volatility'
 import { Route as SilverRouteImport } from './routes/silver'
 import { Route as SettingsRouteImport } from './routes/settings'
+import { Route as ScenariosRouteImport } from './routes/scenarios'
+import { Route as PositionsRouteImport } from './routes/positions'
+import { Route as OrdersRouteImport } from './routes/orders'
 import { Route as GoldRouteImport } from './routes/gold'
 import { Route as EnergyRouteImport } from './routes/energy'
 import { Route as IndexRouteImport } from './routes/index'
 
+const VolatilityRoute = VolatilityRouteImport.update({
+  id: '/volatility',
+  path: '/volatility',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const SilverRoute = SilverRouteImport.update({
   id: '/silver',
   path: '/silver',
@@ -25,6 +34,21 @@ const SettingsRoute = SettingsRouteImport.update({
   path: '/settings',
   getParentRoute: () => rootRouteImport,
 } as any)
+const ScenariosRoute = ScenariosRouteImport.update({
+  id: '/scenarios',
+  path: '/scenarios',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const PositionsRoute = PositionsRouteImport.update({
+  id: '/positions',
+  path: '/positions',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const OrdersRoute = OrdersRouteImport.update({
+  id: '/orders',
+  path: '/orders',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const GoldRoute = GoldRouteImport.update({
   id: '/gold',
   path: '/gold',
@@ -45,42 +69,93 @@ export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
   '/energy': typeof EnergyRoute
   '/gold': typeof GoldRoute
+  '/orders': typeof OrdersRoute
+  '/positions': typeof PositionsRoute
+  '/scenarios': typeof ScenariosRoute
   '/settings': typeof SettingsRoute
   '/silver': typeof SilverRoute
+  '/volatility': typeof VolatilityRoute
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
   '/energy': typeof EnergyRoute
   '/gold': typeof GoldRoute
+  '/orders': typeof OrdersRoute
+  '/positions': typeof PositionsRoute
+  '/scenarios': typeof ScenariosRoute
   '/settings': typeof SettingsRoute
   '/silver': typeof SilverRoute
+  '/volatility': typeof VolatilityRoute
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
   '/': typeof IndexRoute
   '/energy': typeof EnergyRoute
   '/gold': typeof GoldRoute
+  '/orders': typeof OrdersRoute
+  '/positions': typeof PositionsRoute
+  '/scenarios': typeof ScenariosRoute
   '/settings': typeof SettingsRoute
   '/silver': typeof SilverRoute
+  '/volatility': typeof VolatilityRoute
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
-  fullPaths: '/' | '/energy' | '/gold' | '/settings' | '/silver'
+  fullPaths:
+    | '/'
+    | '/energy'
+    | '/gold'
+    | '/orders'
+    | '/positions'
+    | '/scenarios'
+    | '/settings'
+    | '/silver'
+    | '/volatility'
   fileRoutesByTo: FileRoutesByTo
-  to: '/' | '/energy' | '/gold' | '/settings' | '/silver'
-  id: '__root__' | '/' | '/energy' | '/gold' | '/settings' | '/silver'
+  to:
+    | '/'
+    | '/energy'
+    | '/gold'
+    | '/orders'
+    | '/positions'
+    | '/scenarios'
+    | '/settings'
+    | '/silver'
+    | '/volatility'
+  id:
+    | '__root__'
+    | '/'
+    | '/energy'
+    | '/gold'
+    | '/orders'
+    | '/positions'
+    | '/scenarios'
+    | '/settings'
+    | '/silver'
+    | '/volatility'
   fileRoutesById: FileRoutesById
 }
 export interface RootRouteChildren {
   IndexRoute: typeof IndexRoute
   EnergyRoute: typeof EnergyRoute
   GoldRoute: typeof GoldRoute
+  OrdersRoute: typeof OrdersRoute
+  PositionsRoute: typeof PositionsRoute
+  ScenariosRoute: typeof ScenariosRoute
   SettingsRoute: typeof SettingsRoute
   SilverRoute: typeof SilverRoute
+  VolatilityRoute: typeof VolatilityRoute
 }
 
 declare module '@tanstack/react-router' {
   interface FileRoutesByPath {
+    '/volatility': {
+      id: '/volatility'
+      path: '/volatility'
+      fullPath: '/volatility'
+      preLoaderRoute: typeof VolatilityRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/silver': {
       id: '/silver'
       path: '/silver'
@@ -95,6 +170,27 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof SettingsRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/scenarios': {
+      id: '/scenarios'
+      path: '/scenarios'
+      fullPath: '/scenarios'
+      preLoaderRoute: typeof ScenariosRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/positions': {
+      id: '/positions'
+      path: '/positions'
+      fullPath: '/positions'
+      preLoaderRoute: typeof PositionsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/orders': {
+      id: '/orders'
+      path: '/orders'
+      fullPath: '/orders'
+      preLoaderRoute: typeof OrdersRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/gold': {
       id: '/gold'
       path: '/gold'
@@ -123,8 +219,12 @@ const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
   EnergyRoute: EnergyRoute,
   GoldRoute: GoldRoute,
+  OrdersRoute: OrdersRoute,
+  PositionsRoute: PositionsRoute,
+  ScenariosRoute: ScenariosRoute,
   SettingsRoute: SettingsRoute,
   SilverRoute: SilverRoute,
+  VolatilityRoute: VolatilityRoute,
 }
 export const routeTree = rootRouteImport
   ._addFileChildren(rootRouteChildren)
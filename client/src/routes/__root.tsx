@@ -2,6 +2,7 @@ import { Header } from '@client/components/header/header';
 import { Toaster } from '@client/components/ui/sonner';
 import { NotificationProvider } from '@client/contexts/notification-context';
 import { useWebSocketContext, WebSocketProvider } from '@client/contexts/websocket-context';
+import { useOrderNotifications } from '@client/hooks/use-order-notifications';
 import { useTheme } from '@client/hooks/use-theme';
 import type { QueryClient } from '@tanstack/react-query';
 import { createRootRouteWithContext, Outlet } from '@tanstack/react-router';
@@ -28,6 +29,7 @@ function RootComponent() {
 function RootLayout() {
   const { theme } = useTheme();
   const { isConnected } = useWebSocketContext();
+  useOrderNotifications();
 
   return (
     <>
@@ -0,0 +1,153 @@
+import { OpenOrdersCard } from '@client/components/orders/open-orders-card';
+import { SlicedOrdersCard } from '@client/components/orders/sliced-orders-card';
+import { Card, CardContent } from '@client/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@client/components/ui/table';
+import { useWebSocketContext } from '@client/contexts/websocket-context';
+import { api } from '@client/lib/api';
+import { cn } from '@client/lib/utils';
+import type { OrderStatus } from '@client/types/orders';
+import { useQuery } from '@tanstack/react-query';
+import { createFileRoute } from '@tanstack/react-router';
+import { format } from 'date-fns';
+import { Loader2Icon } from 'lucide-react';
+import { useMemo } from 'react';
+
+export const Route = createFileRoute('/orders')({
+  component: RouteComponent,
+});
+
+const STATUS_CLASS_NAMES: Record<OrderStatus, string> = {
+  open: 'bg-blue-500/15 text-blue-700 dark:bg-blue-500/20 dark:text-blue-400',
+  partial: 'bg-amber-500/15 text-amber-700 dark:bg-amber-500/20 dark:text-amber-400',
+  complete: 'bg-emerald-500/15 text-emerald-700 dark:bg-emerald-500/20 dark:text-emerald-400',
+  rejected: 'bg-red-500/15 text-red-700 dark:bg-red-500/20 dark:text-red-400',
+  cancelled: 'bg-muted text-muted-foreground',
+};
+
+function RouteComponent() {
+  const { liveOrders } = useWebSocketContext();
+
+  const { data, isLoading, isError, error } = useQuery({
+    queryKey: ['orders'],
+    queryFn: async () => {
+      const res = await api.orders.$get({ query: {} });
+      return res.json();
+    },
+    refetchInterval: 10_000,
+  });
+
+  // Orders pushed over the WebSocket are newer than the last fetch
+  const orders = useMemo(() => {
+    const byId = new Map((data?.orders ?? []).map((order) => [order.orderId, order]));
+    for (const order of Object.values(liveOrders)) {
+      byId.set(order.orderId, order);
+    }
+    return Array.from(byId.values()).sort((a, b) => b.placedAt - a.placedAt);
+  }, [data, liveOrders]);
+
+  return (
+    <div className='px-4'>
+      {/* Page Header */}
+      <div className='container mx-auto mb-6 px-4'>
+        <h1 className='text-3xl font-bold'>Orders</h1>
+        <p className='text-muted-foreground mt-2'>Orders placed from the app and their status in the Kite order book</p>
+      </div>
+
+      <div className='mb-6 space-y-6'>
+        <OpenOrdersCard />
+        <SlicedOrdersCard />
+      </div>
+
+      {/* Content */}
+      {isLoading ? (
+        <Card>
+          <CardContent className='flex items-center justify-center py-16'>
+            <Loader2Icon className='text-muted-foreground h-6 w-6 animate-spin' />
+            <span className='text-muted-foreground ml-2 text-sm'>Loading orders...</span>
+          </CardContent>
+        </Card>
+      ) : isError ? (
+        <Card>
+          <CardContent className='flex items-center justify-center py-16'>
+            <p className='text-lg font-medium text-red-600 dark:text-red-400'>
+              {error.message || 'Failed to load orders'}
+            </p>
+          </CardContent>
+        </Card>
+      ) : orders.length === 0 ? (
+        <Card>
+          <CardContent className='flex items-center justify-center py-16'>
+            <p className='text-muted-foreground text-lg font-medium'>No orders placed yet</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card className='py-0'>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Placed</TableHead>
+                <TableHead>Instrument</TableHead>
+                <TableHead>Side</TableHead>
+                <TableHead className='text-right'>Filled / Qty</TableHead>
+                <TableHead className='text-right'>Price</TableHead>
+                <TableHead className='text-right'>Avg. Price</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Message</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {orders.map((order) => (
+                <TableRow key={order.orderId}>
+                  <TableCell className='text-muted-foreground tabular-nums'>
+                    {format(new Date(order.placedAt), 'dd MMM HH:mm:ss')}
+                  </TableCell>
+                  <TableCell className='font-medium'>
+                    {order.tradingsymbol}
+                    {order.paper && (
+                      <span className='ml-2 inline-flex rounded-full bg-amber-500/15 px-2 py-0.5 text-xs font-medium text-amber-700 dark:bg-amber-500/20 dark:text-amber-400'>
+                        Paper
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell
+                    className={
+                      order.transactionType === 'SELL'
+                        ? 'text-red-600 dark:text-red-400'
+                        : 'text-emerald-600 dark:text-emerald-400'
+                    }
+                  >
+                    {order.transactionType}
+                  </TableCell>
+                  <TableCell className='text-right tabular-nums'>
+                    {order.filledQuantity} / {order.quantity}
+                  </TableCell>
+                  <TableCell className='text-right tabular-nums'>{order.price.toFixed(2)}</TableCell>
+                  <TableCell className='text-right tabular-nums'>
+                    {order.averagePrice ? order.averagePrice.toFixed(2) : '-'}
+                  </TableCell>
+                  <TableCell>
+                    <span
+                      className={cn(
+                        'inline-flex rounded-full px-2 py-0.5 text-xs font-medium capitalize',
+                        STATUS_CLASS_NAMES[order.status]
+                      )}
+                      title={order.kiteStatus ?? undefined}
+                    >
+                      {order.status}
+                    </span>
+                  </TableCell>
+                  <TableCell
+                    className='text-muted-foreground max-w-md truncate text-xs'
+                    title={order.statusMessage ?? ''}
+                  >
+                    {order.statusMessage ?? ''}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Card>
+      )}
+    </div>
+  );
+}
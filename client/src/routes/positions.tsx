@@ -0,0 +1,225 @@
+import { ClosePositionDialog, type OptionPosition } from '@client/components/positions/close-position-dialog';
+import { SquareOffDialog } from '@client/components/positions/square-off-dialog';
+import { Button } from '@client/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@client/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@client/components/ui/table';
+import { api } from '@client/lib/api';
+import { cn } from '@client/lib/utils';
+import { useQuery } from '@tanstack/react-query';
+import { createFileRoute } from '@tanstack/react-router';
+import { Loader2Icon } from 'lucide-react';
+import { useMemo, useState } from 'react';
+
+export const Route = createFileRoute('/positions')({
+  component: RouteComponent,
+});
+
+function displayInr(value: number): string {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    maximumFractionDigits: 0,
+  }).format(value);
+}
+
+const pnlClassName = (value: number) =>
+  value > 0 ? 'text-emerald-600 dark:text-emerald-400' : value < 0 ? 'text-red-600 dark:text-red-400' : '';
+
+function RouteComponent() {
+  const [closingPosition, setClosingPosition] = useState<OptionPosition | null>(null);
+  const [squareOffUnderlying, setSquareOffUnderlying] = useState<string | null>(null);
+
+  const { data, isLoading, isError, error } = useQuery({
+    queryKey: ['positions'],
+    queryFn: async () => {
+      const res = await api.positions.$get();
+      return res.json();
+    },
+    refetchInterval: 2000,
+  });
+
+  const positionsByUnderlying = useMemo(() => {
+    const grouped = new Map<string, NonNullable<typeof data>['positions']>();
+    for (const position of data?.positions ?? []) {
+      const positions = grouped.get(position.underlying) ?? [];
+      positions.push(position);
+      grouped.set(position.underlying, positions);
+    }
+    return Array.from(grouped.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([underlying, positions]) => ({
+        underlying,
+        positions: positions.sort((a, b) => a.expiry.localeCompare(b.expiry) || a.strike - b.strike),
+        mtm: positions.reduce((sum, p) => sum + p.mtm, 0),
+        deltaExposure: positions.reduce((sum, p) => sum + p.deltaExposure, 0),
+        margin: positions.reduce((sum, p) => sum + p.margin, 0),
+      }));
+  }, [data]);
+
+  const totals = {
+    mtm: positionsByUnderlying.reduce((sum, group) => sum + group.mtm, 0),
+    margin: positionsByUnderlying.reduce((sum, group) => sum + group.margin, 0),
+  };
+
+  return (
+    <div className='px-4'>
+      {/* Page Header */}
+      <div className='container mx-auto mb-6 flex items-end justify-between px-4'>
+        <div>
+          <h1 className='text-3xl font-bold'>Positions</h1>
+          <p className='text-muted-foreground mt-2'>Open MCX option positions with live MTM, delta and margin</p>
+        </div>
+        {data && data.positions.length > 0 && (
+          <div className='flex gap-6 text-sm'>
+            <div>
+              <span className='text-muted-foreground'>MTM </span>
+              <span className={cn('font-semibold tabular-nums', pnlClassName(totals.mtm))}>
+                {displayInr(totals.mtm)}
+              </span>
+            </div>
+            <div>
+              <span className='text-muted-foreground'>Margin </span>
+              <span className='font-semibold tabular-nums'>{displayInr(totals.margin)}</span>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Content */}
+      {isLoading ? (
+        <Card>
+          <CardContent className='flex items-center justify-center py-16'>
+            <Loader2Icon className='text-muted-foreground h-6 w-6 animate-spin' />
+            <span className='text-muted-foreground ml-2 text-sm'>Loading positions...</span>
+          </CardContent>
+        </Card>
+      ) : isError ? (
+        <Card>
+          <CardContent className='flex items-center justify-center py-16'>
+            <p className='text-lg font-medium text-red-600 dark:text-red-400'>
+              {error.message || 'Failed to load positions'}
+            </p>
+          </CardContent>
+        </Card>
+      ) : positionsByUnderlying.length === 0 ? (
+        <Card>
+          <CardContent className='flex items-center justify-center py-16'>
+            <p className='text-muted-foreground text-lg font-medium'>No open option positions</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className='grid grid-cols-1 gap-6 xl:grid-cols-2'>
+          {positionsByUnderlying.map(({ underlying, positions, mtm, deltaExposure, margin }) => (
+            <Card key={underlying} className='h-fit gap-2 pt-4 pb-0'>
+              <CardHeader className='flex items-center justify-between px-4'>
+                <CardTitle>
+                  {underlying} ({positions.length} {positions.length === 1 ? 'position' : 'positions'})
+                </CardTitle>
+                {positions.some((position) => position.quantity < 0) && (
+                  <Button variant='outline' size='sm' onClick={() => setSquareOffUnderlying(underlying)}>
+                    Square off shorts
+                  </Button>
+                )}
+              </CardHeader>
+              <CardContent className='pt-0'>
+                <div className='-mx-6 border-t'>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Instrument</TableHead>
+                        <TableHead className='text-right'>Qty</TableHead>
+                        <TableHead className='text-right'>Avg</TableHead>
+                        <TableHead className='text-right'>Bid</TableHead>
+                        <TableHead className='text-right'>Ask</TableHead>
+                        <TableHead className='text-right'>MTM</TableHead>
+                        <TableHead className='text-right'>Delta</TableHead>
+                        <TableHead className='text-right'>Δ Lots</TableHead>
+                        <TableHead className='text-right'>Margin</TableHead>
+                        <TableHead />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {positions.map((position) => (
+                        <TableRow key={position.instrumentToken}>
+                          <TableCell className='font-medium'>
+                            {position.tradingsymbol}
+                            {!position.live && (
+                              <span className='text-muted-foreground ml-2 text-xs font-normal'>(no live data)</span>
+                            )}
+                          </TableCell>
+                          <TableCell className='text-right tabular-nums'>{position.quantity}</TableCell>
+                          <TableCell className='text-right tabular-nums'>{position.averagePrice.toFixed(2)}</TableCell>
+                          <TableCell className='text-right tabular-nums'>
+                            {position.bid ? position.bid.toFixed(2) : '-'}
+                          </TableCell>
+                          <TableCell className='text-right tabular-nums'>
+                            {position.ask ? position.ask.toFixed(2) : '-'}
+                          </TableCell>
+                          <TableCell
+                            className={cn('text-right font-semibold tabular-nums', pnlClassName(position.mtm))}
+                          >
+                            {displayInr(position.mtm)}
+                          </TableCell>
+                          <TableCell className='text-right tabular-nums'>
+                            {position.live ? position.delta.toFixed(4) : '-'}
+                          </TableCell>
+                          <TableCell className='text-right tabular-nums'>
+                            {position.live ? position.deltaExposure.toFixed(2) : '-'}
+                          </TableCell>
+                          <TableCell className='text-right tabular-nums'>
+                            {position.margin ? displayInr(position.margin) : '-'}
+                          </TableCell>
+                          <TableCell className='text-right'>
+                            {position.quantity < 0 && (
+                              <Button variant='outline' size='sm' onClick={() => setClosingPosition(position)}>
+                                Close
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                    <TableFooter>
+                      <TableRow>
+                        <TableCell colSpan={5}>Total</TableCell>
+                        <TableCell className={cn('text-right font-semibold tabular-nums', pnlClassName(mtm))}>
+                          {displayInr(mtm)}
+                        </TableCell>
+                        <TableCell />
+                        <TableCell className='text-right font-semibold tabular-nums'>
+                          {deltaExposure.toFixed(2)}
+                        </TableCell>
+                        <TableCell className='text-right font-semibold tabular-nums'>{displayInr(margin)}</TableCell>
+                        <TableCell />
+                      </TableRow>
+                    </TableFooter>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <ClosePositionDialog
+        position={closingPosition}
+        open={closingPosition !== null}
+        onOpenChange={(open) => !open && setClosingPosition(null)}
+      />
+      <SquareOffDialog
+        underlying={squareOffUnderlying}
+        positions={positionsByUnderlying.find((group) => group.underlying === squareOffUnderlying)?.positions ?? []}
+        open={squareOffUnderlying !== null}
+        onOpenChange={(open) => !open && setSquareOffUnderlying(null)}
+      />
+    </div>
+  );
+}
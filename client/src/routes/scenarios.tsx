@@ -0,0 +1,190 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@client/components/ui/card';
+import { NumberInput } from '@client/components/ui/number-input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@client/components/ui/select';
+import { api } from '@client/lib/api';
+import { cn, formatCompactAmount } from '@client/lib/utils';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { createFileRoute } from '@tanstack/react-router';
+import { Loader2Icon } from 'lucide-react';
+import { useState } from 'react';
+
+export const Route = createFileRoute('/scenarios')({
+  component: RouteComponent,
+});
+
+const TOTAL_VIEW = 'total';
+
+const formatPnl = (value: number) => `${value > 0 ? '+' : value < 0 ? '-' : ''}${formatCompactAmount(Math.abs(value))}`;
+
+const formatStep = (value: number, unit: string) => `${value > 0 ? '+' : ''}${value}${unit}`;
+
+/**
+ * Background of a heatmap cell, green for profits and red for losses, stronger for larger amounts
+ */
+function cellStyle(value: number, maxAbs: number) {
+  if (maxAbs === 0 || value === 0) {
+    return undefined;
+  }
+  const alpha = 0.1 + 0.6 * Math.min(Math.abs(value) / maxAbs, 1);
+  // emerald-500 and red-500
+  return { backgroundColor: value > 0 ? `rgba(16, 185, 129, ${alpha})` : `rgba(239, 68, 68, ${alpha})` };
+}
+
+interface HeatmapProps {
+  underlyingMoves: number[];
+  ivShifts: number[];
+  pnl: number[][];
+}
+
+function Heatmap({ underlyingMoves, ivShifts, pnl }: HeatmapProps) {
+  const maxAbs = Math.max(0, ...pnl.flat().map(Math.abs));
+
+  return (
+    <div className='overflow-x-auto'>
+      <table className='w-full border-separate border-spacing-0.5 text-sm tabular-nums'>
+        <thead>
+          <tr>
+            <th className='text-muted-foreground px-2 py-1 text-left text-xs font-medium'>Move \ IV</th>
+            {ivShifts.map((shift) => (
+              <th key={shift} className='text-muted-foreground px-2 py-1 text-right text-xs font-medium'>
+                {formatStep(shift, ' pts')}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {underlyingMoves.map((move, i) => (
+            <tr key={move}>
+              <th className='text-muted-foreground px-2 py-1 text-left text-xs font-medium'>{formatStep(move, '%')}</th>
+              {ivShifts.map((shift, j) => {
+                const value = pnl[i]?.[j] ?? 0;
+                return (
+                  <td
+                    key={shift}
+                    className={cn('rounded-sm px-2 py-1.5 text-right', move === 0 && shift === 0 && 'font-semibold')}
+                    style={cellStyle(value, maxAbs)}
+                  >
+                    {formatPnl(value)}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function RouteComponent() {
+  const [daysForward, setDaysForward] = useState(0);
+  const [view, setView] = useState(TOTAL_VIEW);
+
+  const { data, isLoading, isError, error, isFetching } = useQuery({
+    queryKey: ['scenarios', daysForward],
+    queryFn: async () => {
+      const res = await api.scenarios.$get({ query: { daysForward: String(daysForward) } });
+      return res.json();
+    },
+    placeholderData: keepPreviousData,
+    refetchInterval: 10_000,
+  });
+
+  const selected = view === TOTAL_VIEW ? data?.total : data?.underlyings.find((u) => u.underlying === view)?.pnl;
+
+  return (
+    <div className='px-4'>
+      {/* Page Header */}
+      <div className='container mx-auto mb-6 flex items-end justify-between px-4'>
+        <div>
+          <h1 className='text-3xl font-bold'>Scenarios</h1>
+          <p className='text-muted-foreground mt-2'>
+            P&L of the open option positions if the underlying moves and volatility shifts
+          </p>
+        </div>
+        <div className='flex items-end gap-4'>
+          <div className='space-y-1'>
+            <label htmlFor='days-forward' className='text-muted-foreground text-xs font-medium'>
+              Days forward
+            </label>
+            <NumberInput
+              id='days-forward'
+              className='w-32'
+              value={daysForward}
+              onChange={(value) => setDaysForward(Number.isNaN(value) ? 0 : value)}
+              minValue={0}
+              maxValue={90}
+              step={1}
+            />
+          </div>
+          <div className='space-y-1'>
+            <label htmlFor='scenario-view' className='text-muted-foreground text-xs font-medium'>
+              View
+            </label>
+            <Select value={view} onValueChange={setView}>
+              <SelectTrigger id='scenario-view' className='w-[180px]'>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={TOTAL_VIEW}>Total</SelectItem>
+                {data?.underlyings.map(({ underlying }) => (
+                  <SelectItem key={underlying} value={underlying}>
+                    {underlying}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      {isLoading ? (
+        <Card>
+          <CardContent className='flex items-center justify-center py-16'>
+            <Loader2Icon className='text-muted-foreground h-6 w-6 animate-spin' />
+            <span className='text-muted-foreground ml-2 text-sm'>Repricing positions...</span>
+          </CardContent>
+        </Card>
+      ) : isError ? (
+        <Card>
+          <CardContent className='flex items-center justify-center py-16'>
+            <p className='text-lg font-medium text-red-600 dark:text-red-400'>
+              {error.message || 'Failed to run scenarios'}
+            </p>
+          </CardContent>
+        </Card>
+      ) : !data || data.underlyings.length === 0 ? (
+        <Card>
+          <CardContent className='flex items-center justify-center py-16'>
+            <p className='text-muted-foreground text-lg font-medium'>No priced option positions</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card className='gap-4'>
+          <CardHeader className='flex flex-row items-center justify-between'>
+            <CardTitle>
+              {view === TOTAL_VIEW ? 'All underlyings' : view}
+              {daysForward > 0 && (
+                <span className='text-muted-foreground ml-2 text-sm font-normal'>in {daysForward} day(s)</span>
+              )}
+            </CardTitle>
+            {isFetching && <Loader2Icon className='text-muted-foreground h-4 w-4 animate-spin' />}
+          </CardHeader>
+          <CardContent>
+            {selected ? (
+              <Heatmap underlyingMoves={data.underlyingMoves} ivShifts={data.ivShifts} pnl={selected} />
+            ) : (
+              <p className='text-muted-foreground text-sm'>No positions in {view}</p>
+            )}
+            {data.skippedPositions.length > 0 && (
+              <p className='text-muted-foreground mt-4 text-xs'>
+                Not repriced (no live data yet): {data.skippedPositions.join(', ')}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,20 @@
 import { Button } from '@client/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@client/components/ui/card';
 import { Input } from '@client/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@client/components/ui/select';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@client/components/ui/table';
 import { useWebSocketContext } from '@client/contexts/websocket-context';
+import { usePaperTrading } from '@client/hooks/use-paper-trading';
 import { api } from '@client/lib/api';
+import { formatCompactAmount } from '@client/lib/utils';
+import { PAGE_CONFIGS } from '@client/types/option-chain';
+import type { RiskLimits } from '@server/lib/services/settings';
+import type { PricingModelName } from '@server/lib/utils/pricing-models';
+import type { ScoreWeights } from '@server/lib/utils/scoring';
+import type { PageId } from '@server/shared/config';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { createFileRoute } from '@tanstack/react-router';
-import { Loader2Icon, PencilIcon, SaveIcon } from 'lucide-react';
+import { Loader2Icon, PencilIcon, RotateCcwIcon, SaveIcon } from 'lucide-react';
 import { useEffect, useState } from 'react';
 import { toast } from 'sonner';
 
@@ -265,6 +273,16 @@ function RouteComponent() {
           </CardContent>
         </Card>
 
+        <PricingSettingsCard />
+
+        <SnapshotSettingsCard />
+
+        <RiskLimitsSettingsCard />
+
+        <ScoringSettingsCard />
+
+        <PaperTradingSettingsCard />
+
         {/* Commodity Settings Card */}
         <Card>
           <CardHeader>
@@ -409,3 +427,626 @@ function RouteComponent() {
     </div>
   );
 }
+
+function PricingSettingsCard() {
+  const queryClient = useQueryClient();
+  const [model, setModel] = useState<PricingModelName>('black76');
+  const [riskFreeRate, setRiskFreeRate] = useState('');
+
+  const {
+    data: pricingData,
+    isLoading,
+    isError,
+  } = useQuery({
+    queryKey: ['pricing'],
+    queryFn: async () => {
+      const res = await api.settings.pricing.$get();
+      return res.json();
+    },
+  });
+
+  useEffect(() => {
+    if (pricingData) {
+      setModel(pricingData.model);
+      setRiskFreeRate((pricingData.riskFreeRate * 100).toString());
+    }
+  }, [pricingData]);
+
+  const updatePricingMutation = useMutation({
+    mutationFn: async (updates: { model: PricingModelName; riskFreeRate: number }) => {
+      const res = await api.settings.pricing.$put({ json: updates });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast.success('Pricing settings updated');
+      queryClient.invalidateQueries({ queryKey: ['pricing'] });
+    },
+    onError: (error) => {
+      toast.error('Failed to update pricing settings');
+      console.error(error);
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const rate = parseFloat(riskFreeRate);
+    if (isNaN(rate) || rate < 0 || rate > 100) {
+      toast.error('Risk-free rate should be between 0 and 100%');
+      return;
+    }
+
+    updatePricingMutation.mutate({ model, riskFreeRate: rate / 100 });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Pricing Model</CardTitle>
+        <CardDescription>
+          Model and risk-free rate used for delta, added value, greeks and implied volatility of every option.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className='flex items-center justify-center py-8'>
+            <Loader2Icon className='text-muted-foreground h-6 w-6 animate-spin' />
+            <span className='text-muted-foreground ml-2 text-sm'>Loading pricing settings...</span>
+          </div>
+        ) : isError || !pricingData ? (
+          <div className='rounded-md border border-red-200 bg-red-50 p-4 dark:border-red-800 dark:bg-red-950'>
+            <p className='text-sm text-red-800 dark:text-red-200'>Failed to load pricing settings.</p>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className='flex flex-wrap items-end gap-4'>
+            <div className='flex flex-col gap-2'>
+              <label htmlFor='pricing-model' className='text-sm font-medium'>
+                Model
+              </label>
+              <Select value={model} onValueChange={(value) => setModel(value as PricingModelName)}>
+                <SelectTrigger id='pricing-model' className='w-[220px]'>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {pricingData.models.map((m) => (
+                    <SelectItem key={m.name} value={m.name}>
+                      {m.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className='flex flex-col gap-2'>
+              <label htmlFor='risk-free-rate' className='text-sm font-medium'>
+                Risk-free Rate (%)
+              </label>
+              <Input
+                id='risk-free-rate'
+                type='number'
+                step='0.01'
+                min='0'
+                max='100'
+                value={riskFreeRate}
+                onChange={(e) => setRiskFreeRate(e.target.value)}
+                className='w-32'
+              />
+            </div>
+            <Button type='submit' disabled={updatePricingMutation.isPending}>
+              {updatePricingMutation.isPending ? <Loader2Icon className='animate-spin' /> : <SaveIcon />}
+              Save
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function SnapshotSettingsCard() {
+  const queryClient = useQueryClient();
+  const [intervalSeconds, setIntervalSeconds] = useState('');
+  const [retentionDays, setRetentionDays] = useState('');
+
+  const {
+    data: snapshotsData,
+    isLoading,
+    isError,
+  } = useQuery({
+    queryKey: ['snapshots'],
+    queryFn: async () => {
+      const res = await api.settings.snapshots.$get();
+      return res.json();
+    },
+  });
+
+  useEffect(() => {
+    if (snapshotsData) {
+      setIntervalSeconds(snapshotsData.intervalSeconds.toString());
+      setRetentionDays(snapshotsData.retentionDays.toString());
+    }
+  }, [snapshotsData]);
+
+  const updateSnapshotsMutation = useMutation({
+    mutationFn: async (updates: { intervalSeconds: number; retentionDays: number }) => {
+      const res = await api.settings.snapshots.$put({ json: updates });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast.success('Snapshot settings updated');
+      queryClient.invalidateQueries({ queryKey: ['snapshots'] });
+    },
+    onError: (error) => {
+      toast.error('Failed to update snapshot settings');
+      console.error(error);
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const interval = parseInt(intervalSeconds, 10);
+    if (isNaN(interval) || interval < 5 || interval > 3600) {
+      toast.error('Interval should be between 5 and 3600 seconds');
+      return;
+    }
+
+    const retention = parseInt(retentionDays, 10);
+    if (isNaN(retention) || retention < 1 || retention > 365) {
+      toast.error('Retention should be between 1 and 365 days');
+      return;
+    }
+
+    updateSnapshotsMutation.mutate({ intervalSeconds: interval, retentionDays: retention });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Option Chain Snapshots</CardTitle>
+        <CardDescription>
+          How often bid, return value, added value, delta, SD, margin and underlying LTP are recorded for every
+          instrument, and how long the records are kept.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className='flex items-center justify-center py-8'>
+            <Loader2Icon className='text-muted-foreground h-6 w-6 animate-spin' />
+            <span className='text-muted-foreground ml-2 text-sm'>Loading snapshot settings...</span>
+          </div>
+        ) : isError || !snapshotsData ? (
+          <div className='rounded-md border border-red-200 bg-red-50 p-4 dark:border-red-800 dark:bg-red-950'>
+            <p className='text-sm text-red-800 dark:text-red-200'>Failed to load snapshot settings.</p>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className='flex flex-wrap items-end gap-4'>
+            <div className='flex flex-col gap-2'>
+              <label htmlFor='snapshot-interval' className='text-sm font-medium'>
+                Interval (seconds)
+              </label>
+              <Input
+                id='snapshot-interval'
+                type='number'
+                step='1'
+                min='5'
+                max='3600'
+                value={intervalSeconds}
+                onChange={(e) => setIntervalSeconds(e.target.value)}
+                className='w-32'
+              />
+            </div>
+            <div className='flex flex-col gap-2'>
+              <label htmlFor='snapshot-retention' className='text-sm font-medium'>
+                Retention (days)
+              </label>
+              <Input
+                id='snapshot-retention'
+                type='number'
+                step='1'
+                min='1'
+                max='365'
+                value={retentionDays}
+                onChange={(e) => setRetentionDays(e.target.value)}
+                className='w-32'
+              />
+            </div>
+            <Button type='submit' disabled={updateSnapshotsMutation.isPending}>
+              {updateSnapshotsMutation.isPending ? <Loader2Icon className='animate-spin' /> : <SaveIcon />}
+              Save
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+const RISK_LIMIT_FIELDS: { key: keyof RiskLimits; label: string; step: string; max: number }[] = [
+  { key: 'maxLotsPerOrder', label: 'Max. lots per order', step: '1', max: Infinity },
+  { key: 'maxLotsPerUnderlying', label: 'Max. lots per underlying', step: '1', max: Infinity },
+  { key: 'maxMarginUtilisationPct', label: 'Max. margin utilisation (%)', step: '1', max: 100 },
+  { key: 'minStrikePosition', label: 'Min. strike position (%)', step: '0.1', max: 100 },
+  { key: 'minSdDistance', label: 'Min. distance (SD)', step: '0.1', max: 10 },
+  { key: 'maxDelta', label: 'Max. delta', step: '0.01', max: 1 },
+];
+
+function RiskLimitsSettingsCard() {
+  const queryClient = useQueryClient();
+  const [values, setValues] = useState<Record<keyof RiskLimits, string> | null>(null);
+
+  const {
+    data: riskLimitsData,
+    isLoading,
+    isError,
+  } = useQuery({
+    queryKey: ['riskLimits'],
+    queryFn: async () => {
+      const res = await api.settings['risk-limits'].$get();
+      return res.json();
+    },
+  });
+
+  useEffect(() => {
+    if (riskLimitsData) {
+      const { limits } = riskLimitsData;
+      setValues({
+        maxLotsPerOrder: limits.maxLotsPerOrder.toString(),
+        maxLotsPerUnderlying: limits.maxLotsPerUnderlying.toString(),
+        maxMarginUtilisationPct: limits.maxMarginUtilisationPct.toString(),
+        minStrikePosition: limits.minStrikePosition.toString(),
+        minSdDistance: limits.minSdDistance.toString(),
+        maxDelta: limits.maxDelta.toString(),
+      });
+    }
+  }, [riskLimitsData]);
+
+  const updateRiskLimitsMutation = useMutation({
+    mutationFn: async (updates: RiskLimits) => {
+      const res = await api.settings['risk-limits'].$put({ json: updates });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast.success('Risk limits updated');
+      queryClient.invalidateQueries({ queryKey: ['riskLimits'] });
+    },
+    onError: (error) => {
+      toast.error('Failed to update risk limits');
+      console.error(error);
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!values) return;
+
+    const updates = {} as RiskLimits;
+    for (const { key, label, max } of RISK_LIMIT_FIELDS) {
+      const value = parseFloat(values[key]);
+      if (isNaN(value) || value < 0 || value > max) {
+        toast.error(`${label} should be between 0 and ${max === Infinity ? 'any number' : max}`);
+        return;
+      }
+      if (key === 'maxLotsPerOrder' || key === 'maxLotsPerUnderlying') {
+        if (!Number.isInteger(value)) {
+          toast.error(`${label} should be a whole number of lots`);
+          return;
+        }
+      }
+      updates[key] = value;
+    }
+
+    updateRiskLimitsMutation.mutate(updates);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Risk Limits</CardTitle>
+        <CardDescription>
+          Sell orders that break any of these limits are rejected before they are sent to Kite. Set a limit to 0 to
+          disable it. Buy orders are never blocked.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className='flex items-center justify-center py-8'>
+            <Loader2Icon className='text-muted-foreground h-6 w-6 animate-spin' />
+            <span className='text-muted-foreground ml-2 text-sm'>Loading risk limits...</span>
+          </div>
+        ) : isError || !riskLimitsData || !values ? (
+          <div className='rounded-md border border-red-200 bg-red-50 p-4 dark:border-red-800 dark:bg-red-950'>
+            <p className='text-sm text-red-800 dark:text-red-200'>Failed to load risk limits.</p>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className='flex flex-wrap items-end gap-4'>
+            {RISK_LIMIT_FIELDS.map(({ key, label, step, max }) => (
+              <div key={key} className='flex flex-col gap-2'>
+                <label htmlFor={`risk-limit-${key}`} className='text-sm font-medium'>
+                  {label}
+                </label>
+                <Input
+                  id={`risk-limit-${key}`}
+                  type='number'
+                  step={step}
+                  min='0'
+                  max={max === Infinity ? undefined : max}
+                  value={values[key]}
+                  onChange={(e) => setValues({ ...values, [key]: e.target.value })}
+                  className='w-32'
+                />
+              </div>
+            ))}
+            <Button type='submit' disabled={updateRiskLimitsMutation.isPending}>
+              {updateRiskLimitsMutation.isPending ? <Loader2Icon className='animate-spin' /> : <SaveIcon />}
+              Save
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ScoringSettingsCard() {
+  const queryClient = useQueryClient();
+  const [page, setPage] = useState<PageId>('gold');
+  const [values, setValues] = useState<Record<string, string> | null>(null);
+
+  const {
+    data: scoringData,
+    isLoading,
+    isError,
+  } = useQuery({
+    queryKey: ['scoring'],
+    queryFn: async () => {
+      const res = await api.settings.scoring.$get();
+      return res.json();
+    },
+  });
+
+  useEffect(() => {
+    if (scoringData) {
+      const weights = scoringData.pages[page];
+      setValues(Object.fromEntries(Object.entries(weights).map(([field, weight]) => [field, weight.toString()])));
+    }
+  }, [scoringData, page]);
+
+  const updateScoringMutation = useMutation({
+    mutationFn: async (weights: ScoreWeights) => {
+      const res = await api.settings.scoring[':page'].$put({ param: { page }, json: weights });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast.success('Score weights updated');
+      queryClient.invalidateQueries({ queryKey: ['scoring'] });
+    },
+    onError: (error) => {
+      toast.error('Failed to update score weights');
+      console.error(error);
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!values || !scoringData) return;
+
+    const weights = {} as ScoreWeights;
+    for (const { name, label } of scoringData.fields) {
+      const value = parseFloat(values[name] ?? '');
+      if (isNaN(value) || Math.abs(value) > 1000) {
+        toast.error(`Weight of ${label} should be between -1000 and 1000`);
+        return;
+      }
+      weights[name] = value;
+    }
+
+    updateScoringMutation.mutate(weights);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Scoring</CardTitle>
+        <CardDescription>
+          Each page ranks its sell candidates by a weighted sum of these fields, highest first, and notifies when a new
+          option takes the top score. Set a weight to 0 to leave a field out, or below 0 to penalise it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className='flex items-center justify-center py-8'>
+            <Loader2Icon className='text-muted-foreground h-6 w-6 animate-spin' />
+            <span className='text-muted-foreground ml-2 text-sm'>Loading score weights...</span>
+          </div>
+        ) : isError || !scoringData || !values ? (
+          <div className='rounded-md border border-red-200 bg-red-50 p-4 dark:border-red-800 dark:bg-red-950'>
+            <p className='text-sm text-red-800 dark:text-red-200'>Failed to load score weights.</p>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className='flex flex-col gap-4'>
+            <div className='flex flex-col gap-2'>
+              <label htmlFor='scoring-page' className='text-sm font-medium'>
+                Page
+              </label>
+              <Select value={page} onValueChange={(value) => setPage(value as PageId)}>
+                <SelectTrigger id='scoring-page' className='w-56'>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PAGE_CONFIGS.map((config) => (
+                    <SelectItem key={config.id} value={config.id}>
+                      {config.icon} {config.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className='flex flex-wrap items-end gap-4'>
+              {scoringData.fields.map(({ name, label }) => (
+                <div key={name} className='flex flex-col gap-2'>
+                  <label htmlFor={`score-weight-${name}`} className='text-sm font-medium'>
+                    {label}
+                  </label>
+                  <Input
+                    id={`score-weight-${name}`}
+                    type='number'
+                    step='any'
+                    value={values[name] ?? ''}
+                    onChange={(e) => setValues({ ...values, [name]: e.target.value })}
+                    className='w-32'
+                  />
+                </div>
+              ))}
+              <Button type='submit' disabled={updateScoringMutation.isPending}>
+                {updateScoringMutation.isPending ? <Loader2Icon className='animate-spin' /> : <SaveIcon />}
+                Save
+              </Button>
+            </div>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function PaperTradingSettingsCard() {
+  const queryClient = useQueryClient();
+  const [startingCash, setStartingCash] = useState('');
+
+  const { data: paperTradingData, isLoading, isError } = usePaperTrading();
+
+  useEffect(() => {
+    if (paperTradingData && startingCash === '') {
+      setStartingCash(paperTradingData.account.startingCash.toString());
+    }
+  }, [paperTradingData, startingCash]);
+
+  const onUpdated = () => {
+    queryClient.invalidateQueries({ queryKey: ['paperTrading'] });
+    // Margin, positions and open orders come from the other broker now
+    queryClient.invalidateQueries({ queryKey: ['userMargin'] });
+    queryClient.invalidateQueries({ queryKey: ['positions'] });
+    queryClient.invalidateQueries({ queryKey: ['openOrders'] });
+  };
+
+  const updatePaperTradingMutation = useMutation({
+    mutationFn: async (enabled: boolean) => {
+      const res = await api.settings['paper-trading'].$put({ json: { enabled } });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      toast.success(data.enabled ? 'Paper trading turned on' : 'Paper trading turned off');
+      onUpdated();
+    },
+    onError: (error) => {
+      toast.error('Failed to update paper trading');
+      console.error(error);
+    },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async (cash: number) => {
+      const res = await api.settings['paper-trading'].reset.$post({ json: { startingCash: cash } });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast.success('Paper account reset');
+      onUpdated();
+    },
+    onError: (error) => {
+      toast.error('Failed to reset the paper account');
+      console.error(error);
+    },
+  });
+
+  const handleReset = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const cash = parseFloat(startingCash);
+    if (isNaN(cash) || cash <= 0) {
+      toast.error('Starting cash should be a positive amount');
+      return;
+    }
+    if (!window.confirm('Close all paper positions and cancel the open paper orders?')) {
+      return;
+    }
+
+    resetMutation.mutate(cash);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Paper Trading</CardTitle>
+        <CardDescription>
+          Simulate orders against the live bid and ask instead of sending them to Kite. Sell orders fill at the best bid
+          once it reaches their price and buy orders at the best ask, with margin blocked at the option&apos;s order
+          margin.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className='flex items-center justify-center py-8'>
+            <Loader2Icon className='text-muted-foreground h-6 w-6 animate-spin' />
+            <span className='text-muted-foreground ml-2 text-sm'>Loading paper trading...</span>
+          </div>
+        ) : isError || !paperTradingData ? (
+          <div className='rounded-md border border-red-200 bg-red-50 p-4 dark:border-red-800 dark:bg-red-950'>
+            <p className='text-sm text-red-800 dark:text-red-200'>Failed to load paper trading.</p>
+          </div>
+        ) : (
+          <div className='flex flex-col gap-6'>
+            <div className='flex flex-wrap items-center gap-4'>
+              <Button
+                variant={paperTradingData.enabled ? 'outline' : 'default'}
+                disabled={updatePaperTradingMutation.isPending}
+                onClick={() => updatePaperTradingMutation.mutate(!paperTradingData.enabled)}
+              >
+                {updatePaperTradingMutation.isPending && <Loader2Icon className='animate-spin' />}
+                {paperTradingData.enabled ? 'Turn off paper trading' : 'Turn on paper trading'}
+              </Button>
+              <div className='flex gap-6 text-sm'>
+                <div>
+                  <span className='text-muted-foreground'>Cash </span>
+                  <span className='font-medium tabular-nums'>
+                    ₹{formatCompactAmount(paperTradingData.account.cash)}
+                  </span>
+                </div>
+                <div>
+                  <span className='text-muted-foreground'>Margin used </span>
+                  <span className='font-medium tabular-nums'>
+                    ₹{formatCompactAmount(paperTradingData.account.utilised)}
+                  </span>
+                </div>
+                <div>
+                  <span className='text-muted-foreground'>Available </span>
+                  <span className='font-medium tabular-nums'>₹{formatCompactAmount(paperTradingData.account.net)}</span>
+                </div>
+              </div>
+            </div>
+            <form onSubmit={handleReset} className='flex flex-wrap items-end gap-4'>
+              <div className='flex flex-col gap-2'>
+                <label htmlFor='paper-starting-cash' className='text-sm font-medium'>
+                  Starting cash (₹)
+                </label>
+                <Input
+                  id='paper-starting-cash'
+                  type='number'
+                  step='1000'
+                  min='0'
+                  value={startingCash}
+                  onChange={(e) => setStartingCash(e.target.value)}
+                  className='w-40'
+                />
+              </div>
+              <Button type='submit' variant='outline' disabled={resetMutation.isPending}>
+                {resetMutation.isPending ? <Loader2Icon className='animate-spin' /> : <RotateCcwIcon />}
+                Reset Account
+              </Button>
+            </form>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
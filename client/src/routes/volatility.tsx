@@ -0,0 +1,90 @@
+import { Card, CardContent } from '@client/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@client/components/ui/select';
+import { SmileChart, TermStructureChart } from '@client/components/volatility-chart';
+import { useWebSocketContext } from '@client/contexts/websocket-context';
+import { api } from '@client/lib/api';
+import { PAGE_CONFIGS, type OptionChain } from '@client/types/option-chain';
+import { useQuery } from '@tanstack/react-query';
+import { createFileRoute } from '@tanstack/react-router';
+import { useEffect, useMemo, useState } from 'react';
+
+export const Route = createFileRoute('/volatility')({
+  component: RouteComponent,
+});
+
+const SYMBOLS = [...new Set(PAGE_CONFIGS.flatMap((config) => config.tables.flatMap((table) => table.symbols)))];
+
+function RouteComponent() {
+  const { optionChainData, isConnected, subscribe, unsubscribe } = useWebSocketContext();
+  const [symbol, setSymbol] = useState<string>(SYMBOLS[0]);
+
+  const { data: sdData } = useQuery({
+    queryKey: ['sdMultiplier'],
+    queryFn: async () => {
+      const res = await api.settings['sd-multiplier'].$get();
+      return res.json();
+    },
+  });
+
+  useEffect(() => {
+    subscribe([symbol]);
+    return () => unsubscribe([symbol]);
+  }, [symbol, subscribe, unsubscribe]);
+
+  // Rows of the selected underlying, grouped by expiry (nearest first)
+  const optionsByExpiry = useMemo(() => {
+    const grouped = new Map<string, OptionChain[]>();
+    for (const option of Object.values(optionChainData)) {
+      if (option.name !== symbol) continue;
+
+      const options = grouped.get(option.expiry) ?? [];
+      options.push(option);
+      grouped.set(option.expiry, options);
+    }
+    return Array.from(grouped.entries()).sort(([a], [b]) => a.localeCompare(b));
+  }, [optionChainData, symbol]);
+
+  return (
+    <div className='px-4'>
+      {/* Page Header */}
+      <div className='container mx-auto mb-6 flex items-end justify-between px-4'>
+        <div>
+          <h1 className='text-3xl font-bold'>Volatility</h1>
+          <p className='text-muted-foreground mt-2'>Implied volatility smile and term structure from live bids</p>
+        </div>
+        <Select value={symbol} onValueChange={setSymbol}>
+          <SelectTrigger className='w-[180px]'>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SYMBOLS.map((s) => (
+              <SelectItem key={s} value={s}>
+                {s}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Content */}
+      {!isConnected || optionsByExpiry.length === 0 ? (
+        <Card>
+          <CardContent className='flex items-center justify-center py-16'>
+            <p className='text-muted-foreground text-lg font-medium'>
+              {isConnected ? `Waiting for ${symbol} option chain data...` : 'Connecting to server...'}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className='flex flex-col gap-6'>
+          <TermStructureChart optionsByExpiry={optionsByExpiry} />
+          <div className='grid grid-cols-1 gap-6 xl:grid-cols-2'>
+            {optionsByExpiry.map(([expiry, options]) => (
+              <SmileChart key={expiry} expiry={expiry} options={options} sdMultiplier={sdData?.value} />
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+export type CandleInterval = '1m' | '5m' | '15m';
+
+export const CANDLE_INTERVALS: CandleInterval[] = ['1m', '5m', '15m'];
+
+/**
+ * OHLC candle of a future's LTP
+ */
+export type Candle = {
+  /**
+   * Start of the candle, as a Unix timestamp in milliseconds
+   */
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+};
+
+/**
+ * Latest (possibly still forming) candle of a future, pushed over the WebSocket
+ */
+export type CandleUpdate = {
+  symbol: string;
+  expiry: string;
+  interval: CandleInterval;
+  candle: Candle;
+};
+
+/**
+ * Latest candles keyed by `${symbol}:${expiry}:${interval}`
+ */
+export type LatestCandles = Record<string, Candle>;
+
+export const latestCandleKey = (symbol: string, expiry: string, interval: CandleInterval) =>
+  `${symbol}:${expiry}:${interval}`;
@@ -1,3 +1,12 @@
+/**
+ * State of the order margin an option's return value is computed from:
+ * - fresh: fetched within the refresh interval of the option
+ * - stale: older than that, or fetched before the underlying moved, and waiting for a refresh
+ * - failed: Kite didn't return it on the last attempt
+ * - pending: never fetched yet
+ */
+export type OrderMarginStatus = 'fresh' | 'stale' | 'failed' | 'pending';
+
 /**
  * Market depth entry structure (from Kite API)
  */
@@ -34,6 +43,11 @@ export type OptionChain = {
   sellValue: number;
   strikePosition: number;
   orderMargin: number;
+  /**
+   * When the order margin was last fetched, in epoch ms. 0 until the first fetch
+   */
+  orderMarginUpdatedAt: number;
+  orderMarginStatus: OrderMarginStatus;
   returnValue: number;
   sd: number;
   sigmaN: number;
@@ -43,6 +57,19 @@ export type OptionChain = {
   av: number;
   dv: number;
   addedValue: number;
+  /**
+   * Weighted score of the option as a sell candidate, from the score weights of its page. 0 without a return value
+   */
+  score: number;
+  theoreticalPrice: number;
+  gamma: number;
+  thetaPerMinute: number;
+  thetaPerDay: number;
+  vega: number;
+  rho: number;
+  ivBid: number;
+  ivAsk: number;
+  ivMid: number;
 };
 
 export type OptionChainData = Record<number, OptionChain>;
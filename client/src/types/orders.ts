@@ -0,0 +1,114 @@
+export type OrderStatus = 'open' | 'partial' | 'complete' | 'rejected' | 'cancelled';
+
+/**
+ * Order placed from the app, as tracked through the Kite order book
+ */
+export type TrackedOrder = {
+  orderId: string;
+  tradingsymbol: string;
+  transactionType: 'BUY' | 'SELL';
+  /**
+   * In lots
+   */
+  quantity: number;
+  price: number;
+  status: OrderStatus;
+  /**
+   * Raw status from Kite, e.g. OPEN, TRIGGER PENDING or MODIFY PENDING
+   */
+  kiteStatus: string | null;
+  statusMessage: string | null;
+  filledQuantity: number;
+  averagePrice: number;
+  /**
+   * Placed with the paper broker instead of Kite
+   */
+  paper: boolean;
+  placedAt: number;
+  updatedAt: number;
+};
+
+/**
+ * Latest state of the orders updated over the WebSocket, keyed by order ID
+ */
+export type LiveOrders = Record<string, TrackedOrder>;
+
+export type ChaseStatus = 'active' | 'filled' | 'closed' | 'exhausted' | 'timedOut' | 'stopped' | 'failed';
+
+export type ChaseStep = {
+  at: number;
+  action: 'modified' | 'error';
+  /**
+   * Best bid when the step was taken
+   */
+  bid: number;
+  /**
+   * Limit price of the order after the step
+   */
+  price: number;
+  message?: string;
+};
+
+/**
+ * Sell order whose limit price follows the best bid down to a floor, see the order chaser on the server
+ */
+export type OrderChase = {
+  orderId: string;
+  tradingsymbol: string;
+  floorPrice: number;
+  maxModifications: number;
+  modifications: number;
+  price: number;
+  status: ChaseStatus;
+  statusMessage?: string;
+  steps: ChaseStep[];
+  startedAt: number;
+  expiresAt: number;
+  updatedAt: number;
+};
+
+/**
+ * Latest state of the order chases updated over the WebSocket, keyed by order ID
+ */
+export type OrderChases = Record<string, OrderChase>;
+
+export type SlicedOrderStatus = 'active' | 'complete' | 'stopped' | 'failed';
+
+export type ChildOrder = {
+  orderId: string;
+  quantity: number;
+  price: number;
+  status: OrderStatus;
+  filledQuantity: number;
+  averagePrice: number;
+  placedAt: number;
+};
+
+/**
+ * Large sell order placed as a series of child orders sized to the quantity at the best bid
+ */
+export type SlicedOrder = {
+  id: string;
+  tradingsymbol: string;
+  instrumentToken: number;
+  totalQuantity: number;
+  /**
+   * Lowest price a child order is placed at
+   */
+  limitPrice: number;
+  maxSliceQuantity: number;
+  intervalSeconds: number;
+  placedQuantity: number;
+  filledQuantity: number;
+  averagePrice: number;
+  status: SlicedOrderStatus;
+  statusMessage?: string;
+  children: ChildOrder[];
+  startedAt: number;
+  updatedAt: number;
+};
+
+/**
+ * Latest state of the sliced orders updated over the WebSocket, keyed by ID
+ */
+export type SlicedOrders = Record<string, SlicedOrder>;
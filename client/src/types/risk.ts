@@ -0,0 +1,43 @@
+/**
+ * Aggregated greeks of a set of option positions
+ */
+export type RiskGreeks = {
+  /**
+   * Net delta in lots of the underlying
+   */
+  deltaLots: number;
+  /**
+   * Net delta as underlying value (lots × multiplier × underlying LTP)
+   */
+  deltaValue: number;
+  /**
+   * Change of the net delta in lots for a 1% move of the underlying
+   */
+  gamma: number;
+  /**
+   * P&L for a 1% rise in volatility
+   */
+  vega: number;
+  /**
+   * P&L from one market day of time decay
+   */
+  theta: number;
+};
+
+export type UnderlyingRisk = RiskGreeks & {
+  underlying: string;
+  positions: number;
+};
+
+/**
+ * Greeks of the open option positions per underlying and in total, pushed over the WebSocket
+ */
+export type PortfolioRisk = {
+  underlyings: UnderlyingRisk[];
+  total: RiskGreeks;
+  /**
+   * Positions whose option has no live data yet, so their greeks are counted as 0
+   */
+  unpricedPositions: number;
+  updatedAt: number;
+};
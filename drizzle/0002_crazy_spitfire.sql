@@ -0,0 +1,20 @@
+CREATE TABLE `option_snapshots` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`timestamp` integer NOT NULL,
+	`instrument_token` real NOT NULL,
+	`tradingsymbol` text NOT NULL,
+	`name` text NOT NULL,
+	`expiry` text NOT NULL,
+	`strike` real,
+	`instrument_type` text,
+	`bid` real NOT NULL,
+	`return_value` real NOT NULL,
+	`added_value` real NOT NULL,
+	`delta` real NOT NULL,
+	`sd` real NOT NULL,
+	`order_margin` real NOT NULL,
+	`underlying_ltp` real NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `option_snapshots_timestamp_idx` ON `option_snapshots` (`timestamp`);--> statement-breakpoint
+CREATE INDEX `option_snapshots_token_timestamp_idx` ON `option_snapshots` (`instrument_token`,`timestamp`);
\ No newline at end of file
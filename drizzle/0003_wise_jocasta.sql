@@ -0,0 +1,17 @@
+CREATE TABLE `orders` (
+	`order_id` text PRIMARY KEY NOT NULL,
+	`tradingsymbol` text NOT NULL,
+	`transaction_type` text NOT NULL,
+	`quantity` integer NOT NULL,
+	`price` real NOT NULL,
+	`status` text NOT NULL,
+	`kite_status` text,
+	`status_message` text,
+	`filled_quantity` integer DEFAULT 0 NOT NULL,
+	`average_price` real DEFAULT 0 NOT NULL,
+	`placed_at` integer NOT NULL,
+	`updated_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `orders_placed_at_idx` ON `orders` (`placed_at`);--> statement-breakpoint
+CREATE INDEX `orders_status_idx` ON `orders` (`status`);
\ No newline at end of file
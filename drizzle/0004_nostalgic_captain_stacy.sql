@@ -0,0 +1,36 @@
+CREATE TABLE `paper_account` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`starting_cash` real NOT NULL,
+	`cash` real NOT NULL,
+	`reset_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `paper_orders` (
+	`order_id` text PRIMARY KEY NOT NULL,
+	`tradingsymbol` text NOT NULL,
+	`instrument_token` real NOT NULL,
+	`transaction_type` text NOT NULL,
+	`product` text NOT NULL,
+	`quantity` integer NOT NULL,
+	`price` real NOT NULL,
+	`status` text NOT NULL,
+	`status_message` text,
+	`filled_quantity` integer DEFAULT 0 NOT NULL,
+	`average_price` real DEFAULT 0 NOT NULL,
+	`placed_at` integer NOT NULL,
+	`updated_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `paper_orders_status_idx` ON `paper_orders` (`status`);--> statement-breakpoint
+CREATE TABLE `paper_positions` (
+	`instrument_token` real PRIMARY KEY NOT NULL,
+	`tradingsymbol` text NOT NULL,
+	`product` text NOT NULL,
+	`quantity` integer NOT NULL,
+	`average_price` real NOT NULL,
+	`multiplier` real NOT NULL,
+	`margin_per_lot` real DEFAULT 0 NOT NULL,
+	`updated_at` integer NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE `orders` ADD `paper` integer DEFAULT false NOT NULL;
\ No newline at end of file
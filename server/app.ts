@@ -1,8 +1,17 @@
 import { serveStatic } from '@hono/node-server/serve-static';
 import { createNodeWebSocket } from '@hono/node-ws';
 import { logger } from '@server/lib/logger';
+import type { CandleUpdate } from '@server/lib/services/candles';
+import { orderChaserService, type OrderChase } from '@server/lib/services/chaser';
+import type { TrackedOrder } from '@server/lib/services/orders';
+import type { PortfolioRisk } from '@server/lib/services/risk';
+import { slicedOrderService, type SlicedOrder } from '@server/lib/services/slicer';
 import { httpLogger } from '@server/middlewares/http-logger';
+import { candlesRoute } from '@server/routes/candles';
+import { historyRoute } from '@server/routes/history';
 import { ordersRoute } from '@server/routes/orders';
+import { positionsRoute } from '@server/routes/positions';
+import { scenariosRoute } from '@server/routes/scenarios';
 import { settingsRoute } from '@server/routes/settings';
 import { userRoute } from '@server/routes/user';
 import type { Symbol } from '@server/shared/config';
@@ -14,6 +23,7 @@ import { randomUUID } from 'node:crypto';
 
 // Will be set by index.ts after initialization
 let updateSdMultiplierFn: ((value: number) => boolean) | null = null;
+let viewChangeFn: ((symbols: Symbol[], tokens: number[]) => void) | null = null;
 
 const app = new Hono();
 
@@ -25,10 +35,15 @@ app.use('*', httpLogger());
 interface ClientSubscription {
   ws: WSContext;
   symbols: Set<Symbol>;
+  /**
+   * Options the client has opened in an order modal or strategy
+   */
+  focusedTokens: Set<number>;
 }
 
 const connectedClients = new Map<string, ClientSubscription>();
 let latestOptionChain: Record<number, OptionChain> = {};
+let latestRisk: PortfolioRisk | null = null;
 
 /**
  * Set the callback function for updating SD multiplier.
@@ -38,6 +53,27 @@ export function setUpdateSdMultiplierCallback(callback: (value: number) => boole
   updateSdMultiplierFn = callback;
 }
 
+/**
+ * Set the callback notified with what all clients are looking at, whenever it changes.
+ * The coordinator forwards it to the workers to prioritise margin refreshes.
+ */
+export function setViewChangeCallback(callback: (symbols: Symbol[], tokens: number[]) => void) {
+  viewChangeFn = callback;
+}
+
+/**
+ * Union of the symbols subscribed to and the options focused by the connected clients
+ */
+function notifyViewChange() {
+  const symbols = new Set<Symbol>();
+  const tokens = new Set<number>();
+  for (const subscription of connectedClients.values()) {
+    subscription.symbols.forEach((symbol) => symbols.add(symbol));
+    subscription.focusedTokens.forEach((token) => tokens.add(token));
+  }
+  viewChangeFn?.([...symbols], [...tokens]);
+}
+
 /**
  * Set the aggregated option chain data from coordinator.
  * This data will be sent to connected clients based on their subscriptions.
@@ -66,11 +102,93 @@ export function setOptionChainData(data: Record<number, OptionChain>) {
   }
 }
 
+/**
+ * Send the latest futures candles from the coordinator to the clients subscribed to their symbols.
+ */
+export function sendCandleUpdates(updates: CandleUpdate[]) {
+  for (const [clientId, subscription] of connectedClients.entries()) {
+    const filteredUpdates = updates.filter((update) => subscription.symbols.has(update.symbol as Symbol));
+    if (filteredUpdates.length === 0) {
+      continue;
+    }
+
+    try {
+      subscription.ws.send(JSON.stringify({ type: 'candles', data: filteredUpdates }));
+    } catch (error) {
+      logger.error(`Failed to send candles to client ${clientId}:`, error);
+      connectedClients.delete(clientId);
+    }
+  }
+}
+
+/**
+ * Send the portfolio risk from the coordinator to all connected clients.
+ * It covers every open position, so it isn't filtered by the subscribed symbols.
+ */
+export function setRiskData(risk: PortfolioRisk) {
+  latestRisk = risk;
+
+  for (const [clientId, subscription] of connectedClients.entries()) {
+    try {
+      subscription.ws.send(JSON.stringify({ type: 'risk', data: risk }));
+    } catch (error) {
+      logger.error(`Failed to send risk to client ${clientId}:`, error);
+      connectedClients.delete(clientId);
+    }
+  }
+}
+
+/**
+ * Send orders whose status changed to all connected clients.
+ */
+export function sendOrderUpdates(orders: TrackedOrder[]) {
+  for (const [clientId, subscription] of connectedClients.entries()) {
+    try {
+      subscription.ws.send(JSON.stringify({ type: 'orders', data: orders }));
+    } catch (error) {
+      logger.error(`Failed to send order updates to client ${clientId}:`, error);
+      connectedClients.delete(clientId);
+    }
+  }
+}
+
+/**
+ * Send a step or the end of an order chase to all connected clients.
+ */
+export function sendChaseUpdate(chase: OrderChase) {
+  for (const [clientId, subscription] of connectedClients.entries()) {
+    try {
+      subscription.ws.send(JSON.stringify({ type: 'chase', data: chase }));
+    } catch (error) {
+      logger.error(`Failed to send chase update to client ${clientId}:`, error);
+      connectedClients.delete(clientId);
+    }
+  }
+}
+
+/**
+ * Send a sliced order whose children were placed or filled to all connected clients.
+ */
+export function sendSlicedOrderUpdate(order: SlicedOrder) {
+  for (const [clientId, subscription] of connectedClients.entries()) {
+    try {
+      subscription.ws.send(JSON.stringify({ type: 'slicedOrder', data: order }));
+    } catch (error) {
+      logger.error(`Failed to send sliced order to client ${clientId}:`, error);
+      connectedClients.delete(clientId);
+    }
+  }
+}
+
 const apiRoutes = app
   .basePath('/api')
   .route('/user', userRoute)
   .route('/settings', settingsRoute)
   .route('/orders', ordersRoute)
+  .route('/positions', positionsRoute)
+  .route('/scenarios', scenariosRoute)
+  .route('/history', historyRoute)
+  .route('/candles', candlesRoute)
   .get(
     '/ws',
     upgradeWebSocket(() => {
@@ -82,8 +200,19 @@ const apiRoutes = app
           connectedClients.set(clientId, {
             ws,
             symbols: new Set(),
+            focusedTokens: new Set(),
           });
           logger.info(`Client ${clientId} connected to WebSocket. Total clients: ${connectedClients.size}`);
+
+          if (latestRisk) {
+            ws.send(JSON.stringify({ type: 'risk', data: latestRisk }));
+          }
+          for (const chase of orderChaserService.getChases()) {
+            ws.send(JSON.stringify({ type: 'chase', data: chase }));
+          }
+          for (const order of slicedOrderService.getOrders()) {
+            ws.send(JSON.stringify({ type: 'slicedOrder', data: order }));
+          }
         },
         onMessage: (event, ws) => {
           try {
@@ -97,6 +226,7 @@ const apiRoutes = app
                   subscription.symbols.add(symbol as Symbol);
                 }
                 logger.info(`Client ${clientId} subscribed to: ${message.symbols.join(', ')}`);
+                notifyViewChange();
 
                 // Send initial data for subscribed symbols
                 const filteredData: Record<number, OptionChain> = {};
@@ -120,6 +250,13 @@ const apiRoutes = app
                   subscription.symbols.delete(symbol as Symbol);
                 }
                 logger.info(`Client ${clientId} unsubscribed from: ${message.symbols.join(', ')}`);
+                notifyViewChange();
+              }
+            } else if (message.type === 'focus' && Array.isArray(message.tokens)) {
+              const subscription = connectedClients.get(clientId);
+              if (subscription) {
+                subscription.focusedTokens = new Set(message.tokens.map(Number));
+                notifyViewChange();
               }
             } else if (message.type === 'updateSdMultiplier' && typeof message.value === 'number') {
               logger.info(`Client ${clientId} requested SD multiplier update to: ${message.value}`);
@@ -149,6 +286,7 @@ const apiRoutes = app
         },
         onClose: () => {
           connectedClients.delete(clientId);
+          notifyViewChange();
           logger.info(`Client ${clientId} disconnected from WebSocket. Total clients: ${connectedClients.size}`);
         },
       };
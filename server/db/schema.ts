@@ -1,4 +1,4 @@
-import { index, real, sqliteTable, text } from 'drizzle-orm/sqlite-core';
+import { index, integer, real, sqliteTable, text } from 'drizzle-orm/sqlite-core';
 import type { Exchange } from 'kiteconnect-ts';
 
 /**
@@ -46,3 +46,121 @@ export const holidaysTable = sqliteTable(
     index('holidays_year_month_idx').on(table.year, table.month),
   ]
 );
+
+/**
+ * Periodic samples of the option chain, written by the coordinator's snapshot sampler.
+ * Contract details are denormalised so snapshots stay readable after the instruments table is reseeded.
+ */
+export const optionSnapshotsTable = sqliteTable(
+  'option_snapshots',
+  {
+    id: integer().primaryKey({ autoIncrement: true }),
+    // Unix timestamp in milliseconds, shared by every row of a sample
+    timestamp: integer().notNull(),
+    instrumentToken: real().notNull(),
+    tradingsymbol: text().notNull(),
+    name: text().notNull(),
+    expiry: text().notNull(),
+    strike: real(),
+    instrumentType: text().$type<'EQ' | 'FUT' | 'CE' | 'PE'>(),
+    bid: real().notNull(),
+    returnValue: real().notNull(),
+    addedValue: real().notNull(),
+    delta: real().notNull(),
+    sd: real().notNull(),
+    orderMargin: real().notNull(),
+    underlyingLtp: real().notNull(),
+  },
+  (table) => [
+    index('option_snapshots_timestamp_idx').on(table.timestamp),
+    index('option_snapshots_token_timestamp_idx').on(table.instrumentToken, table.timestamp),
+  ]
+);
+
+export type OrderStatus = 'open' | 'partial' | 'complete' | 'rejected' | 'cancelled';
+
+/**
+ * Orders placed from the app, kept in sync with the Kite order book by the order tracker
+ */
+export const ordersTable = sqliteTable(
+  'orders',
+  {
+    orderId: text().primaryKey(),
+    tradingsymbol: text().notNull(),
+    transactionType: text().$type<'BUY' | 'SELL'>().notNull(),
+    // In lots
+    quantity: integer().notNull(),
+    price: real().notNull(),
+    status: text().$type<OrderStatus>().notNull(),
+    // Raw status from Kite, e.g. OPEN, TRIGGER PENDING or MODIFY PENDING
+    kiteStatus: text(),
+    statusMessage: text(),
+    filledQuantity: integer().notNull().default(0),
+    averagePrice: real().notNull().default(0),
+    // Placed with the paper broker instead of Kite
+    paper: integer({ mode: 'boolean' }).notNull().default(false),
+    // Unix timestamps in milliseconds
+    placedAt: integer().notNull(),
+    updatedAt: integer().notNull(),
+  },
+  (table) => [index('orders_placed_at_idx').on(table.placedAt), index('orders_status_idx').on(table.status)]
+);
+
+/**
+ * Status of a paper order, named like Kite's
+ */
+export type PaperOrderStatus = 'OPEN' | 'COMPLETE' | 'CANCELLED' | 'REJECTED';
+
+/**
+ * Order book of the paper broker
+ */
+export const paperOrdersTable = sqliteTable(
+  'paper_orders',
+  {
+    orderId: text().primaryKey(),
+    tradingsymbol: text().notNull(),
+    instrumentToken: real().notNull(),
+    transactionType: text().$type<'BUY' | 'SELL'>().notNull(),
+    product: text().notNull(),
+    // In lots
+    quantity: integer().notNull(),
+    price: real().notNull(),
+    status: text().$type<PaperOrderStatus>().notNull(),
+    statusMessage: text(),
+    filledQuantity: integer().notNull().default(0),
+    averagePrice: real().notNull().default(0),
+    // Unix timestamps in milliseconds
+    placedAt: integer().notNull(),
+    updatedAt: integer().notNull(),
+  },
+  (table) => [index('paper_orders_status_idx').on(table.status)]
+);
+
+/**
+ * Net positions of the paper broker, one row per option
+ */
+export const paperPositionsTable = sqliteTable('paper_positions', {
+  instrumentToken: real().primaryKey(),
+  tradingsymbol: text().notNull(),
+  product: text().notNull(),
+  // Net lots, negative for short positions
+  quantity: integer().notNull(),
+  averagePrice: real().notNull(),
+  // Units of the underlying per lot
+  multiplier: real().notNull(),
+  // Order margin per lot when the position was last filled, used while the option has no live data
+  marginPerLot: real().notNull().default(0),
+  updatedAt: integer().notNull(),
+});
+
+/**
+ * Virtual cash of the paper broker, a single row
+ */
+export const paperAccountTable = sqliteTable('paper_account', {
+  id: integer().primaryKey(),
+  startingCash: real().notNull(),
+  // Starting cash plus premiums received minus premiums paid
+  cash: real().notNull(),
+  // Unix timestamp in milliseconds
+  resetAt: integer().notNull(),
+});
@@ -1,21 +1,41 @@
 /**
  * Coordinator process that spawns worker processes and aggregates their data.
- * Each worker handles a subset of symbols via its own KiteTicker connection.
+ * Each worker handles a subset of symbols via its own market data connection (KiteTicker by default).
  *
  * This allows us to work around Zerodha's 3000 instrument limit per connection
  * and distribute the tick processing load across multiple processes.
  */
 
 import { serve } from '@hono/node-server';
-import app, { injectWebSocket, setOptionChainData, setUpdateSdMultiplierCallback } from '@server/app';
+import app, {
+  injectWebSocket,
+  sendCandleUpdates,
+  sendChaseUpdate,
+  sendOrderUpdates,
+  sendSlicedOrderUpdate,
+  setOptionChainData,
+  setRiskData,
+  setUpdateSdMultiplierCallback,
+  setViewChangeCallback,
+} from '@server/app';
 import { env } from '@server/lib/env';
 import { logger } from '@server/lib/logger';
+import { workingDaysCache } from '@server/lib/market-minutes-cache';
+import { candleService } from '@server/lib/services/candles';
+import { orderChaserService } from '@server/lib/services/chaser';
 import { kiteService } from '@server/lib/services/kite';
+import { orderService } from '@server/lib/services/orders';
+import { paperBroker } from '@server/lib/services/paper-broker';
+import { positionsService } from '@server/lib/services/positions';
+import { riskService } from '@server/lib/services/risk';
 import { settingsService } from '@server/lib/services/settings';
+import { slicedOrderService } from '@server/lib/services/slicer';
+import { snapshotService } from '@server/lib/services/snapshots';
 import { WORKER_GROUPS } from '@server/shared/config';
 import type { OptionChain } from '@shared/types/types';
 import { fork, type ChildProcess } from 'node:child_process';
 import path from 'node:path';
+import { createInterface } from 'node:readline';
 import { fileURLToPath } from 'node:url';
 import type { CoordinatorMessage, WorkerMessage } from './worker';
 
@@ -28,6 +48,9 @@ const aggregatedOptionChain: Record<number, OptionChain> = {};
 // Track which tokens belong to which worker (for proper cleanup on resubscription)
 const workerTokens: Map<number, Set<number>> = new Map();
 
+// Options watched outside the SD range (open positions), per worker
+const workerWatchedOptions: Map<number, Record<number, OptionChain>> = new Map();
+
 // Track worker processes
 const workers: ChildProcess[] = [];
 const workerReadyPromises: Promise<void>[] = [];
@@ -43,13 +66,23 @@ async function main() {
   currentSdMultiplier = await settingsService.getSdMultiplier();
   logger.info(`Loaded SD multiplier from database: ${currentSdMultiplier}`);
 
+  // Load futures candles saved by previous runs
+  candleService.init();
+
+  // Holidays and expiries are needed to reprice positions in scenarios
+  await workingDaysCache.initializeRuntimeCache();
+
   // Verify Kite session before starting workers
-  try {
-    await kiteService.getProfile();
-    logger.info(`Logged in as ${env.KITE_USER_ID}`);
-  } catch (error) {
-    logger.error('Session expired. Please login again using `npm run login`');
-    process.exit(1);
+  if (env.MARKET_DATA_SOURCE === 'kite') {
+    try {
+      await kiteService.getProfile();
+      logger.info(`Logged in as ${env.KITE_USER_ID}`);
+    } catch (error) {
+      logger.error('Session expired. Please login again using `npm run login`');
+      process.exit(1);
+    }
+  } else {
+    logger.info(`Using ${env.MARKET_DATA_SOURCE} market data, skipping Kite session check`);
   }
 
   // Spawn worker processes
@@ -95,6 +128,10 @@ async function main() {
 
           // Add new data from worker
           Object.assign(aggregatedOptionChain, msg.data);
+        } else if (msg.type === 'watchedOptions') {
+          workerWatchedOptions.set(i, msg.data);
+        } else if (msg.type === 'futureTicks') {
+          candleService.addTicks(msg.ticks);
         } else if (msg.type === 'error') {
           clearTimeout(timeoutId);
           reject(new Error(`Worker ${i + 1} error: ${msg.error}`));
@@ -144,6 +181,13 @@ async function main() {
   // Set the callback for updating SD multiplier from WebSocket messages
   setUpdateSdMultiplierCallback(updateSdMultiplier);
 
+  // Refresh the margins of the options clients are looking at first
+  setViewChangeCallback((symbols, tokens) => {
+    for (const worker of workers) {
+      worker.send({ type: 'view', symbols, tokens } satisfies CoordinatorMessage);
+    }
+  });
+
   // Wait for futures LTP data to be received before subscribing
   logger.info('Waiting 5 seconds for futures LTP data...');
   await new Promise((resolve) => setTimeout(resolve, 5000));
@@ -154,11 +198,75 @@ async function main() {
     worker.send({ type: 'subscribe', sdMultiplier: currentSdMultiplier } satisfies CoordinatorMessage);
   }
 
+  if (env.MARKET_DATA_SOURCE === 'replay' && env.REPLAY_MODE === 'step') {
+    listenForReplaySteps();
+  }
+
   // Update the app with aggregated option chain data periodically
   // Always send data, even if empty, to allow UI to show empty table when no options match
   setInterval(() => {
     setOptionChainData(aggregatedOptionChain);
+
+    const candleUpdates = candleService.drainUpdates();
+    if (candleUpdates.length > 0) {
+      sendCandleUpdates(candleUpdates);
+    }
   }, 250);
+
+  // Join positions to live option data, subscribing positions outside the SD range separately
+  positionsService.setLiveOptionSource(getLiveOption);
+  positionsService.setWatchCallback((tokens) => {
+    for (const worker of workers) {
+      worker.send({ type: 'watch', tokens } satisfies CoordinatorMessage);
+    }
+  });
+
+  // Push the aggregated greeks of the open positions to the clients as positions and ticks change
+  riskService.start(setRiskData);
+
+  // Fill paper orders against the live bid and ask
+  paperBroker.setLiveOptionSource(getLiveOption);
+  paperBroker.start();
+
+  // Follow the orders placed from the app until they are closed
+  orderService.start(sendOrderUpdates);
+
+  // Report each step of the orders chasing the best bid
+  orderChaserService.start(sendChaseUpdate);
+
+  // Report the child orders and fills of large orders placed in slices
+  slicedOrderService.start(sendSlicedOrderUpdate);
+
+  // Persist periodic samples of the option chain for later review, with the open positions outside the SD range
+  snapshotService.start(getSnapshotOptions);
+}
+
+/**
+ * Options sampled by the snapshots: the option chain and the options watched outside the SD range,
+ * so a position keeps being recorded after its strike drifts out of range.
+ */
+function getSnapshotOptions(): Record<number, OptionChain> {
+  const options: Record<number, OptionChain> = {};
+  for (const watchedOptions of workerWatchedOptions.values()) {
+    Object.assign(options, watchedOptions);
+  }
+  return Object.assign(options, aggregatedOptionChain);
+}
+
+/**
+ * Latest data of an option, from the option chain or from the options watched outside the SD range.
+ */
+function getLiveOption(instrumentToken: number): OptionChain | undefined {
+  const option = aggregatedOptionChain[instrumentToken];
+  if (option) {
+    return option;
+  }
+  for (const watchedOptions of workerWatchedOptions.values()) {
+    if (watchedOptions[instrumentToken]) {
+      return watchedOptions[instrumentToken];
+    }
+  }
+  return undefined;
 }
 
 /**
@@ -188,9 +296,37 @@ export function updateSdMultiplier(newMultiplier: number) {
   return true;
 }
 
+/**
+ * In step replay mode, advance all workers when Enter is pressed.
+ * A number can be typed before Enter to advance that many frames at once.
+ */
+function listenForReplaySteps() {
+  logger.info('Step replay: press Enter to advance one frame, or type a number of frames and press Enter');
+
+  const rl = createInterface({ input: process.stdin });
+  rl.on('line', (line) => {
+    const frames = line.trim() === '' ? 1 : parseInt(line, 10);
+    if (isNaN(frames) || frames <= 0) {
+      logger.warn(`Invalid frame count: ${line}`);
+      return;
+    }
+
+    for (const worker of workers) {
+      worker.send({ type: 'replayStep', frames } satisfies CoordinatorMessage);
+    }
+  });
+}
+
 // Handle graceful shutdown
 async function shutdown() {
   logger.info('Shutting down coordinator...');
+  snapshotService.stop();
+  riskService.stop();
+  orderService.stop();
+  paperBroker.stop();
+  orderChaserService.stop();
+  slicedOrderService.stop();
+  candleService.close();
 
   // Send shutdown command to all workers
   for (const worker of workers) {
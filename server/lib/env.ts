@@ -1,19 +1,51 @@
 import { logger } from '@server/lib/logger';
 import { z } from 'zod';
 
-const envSchema = z.object({
-  PORT: z.coerce.number(),
-  DATABASE_URL: z.string(),
-  KITE_USER_ID: z.string(),
-  KITE_PASSWORD: z.string(),
-  KITE_API_KEY: z.string(),
-  KITE_API_SECRET: z.string(),
-  KITE_TOTP_SECRET: z.string(),
-  // Optional: comma-separated list of symbols for worker mode
-  SYMBOLS: z.string().optional(),
-  // Optional: worker ID for logging
-  WORKER_ID: z.coerce.number().optional(),
-});
+const KITE_CREDENTIALS = [
+  'KITE_USER_ID',
+  'KITE_PASSWORD',
+  'KITE_API_KEY',
+  'KITE_API_SECRET',
+  'KITE_TOTP_SECRET',
+] as const;
+
+const envSchema = z
+  .object({
+    PORT: z.coerce.number(),
+    DATABASE_URL: z.string(),
+    // Market data source for workers: live Kite Ticker, a recorded session, or a random walk
+    MARKET_DATA_SOURCE: z.enum(['kite', 'replay', 'synthetic']).default('kite'),
+    // Kite credentials are only required when MARKET_DATA_SOURCE is kite
+    KITE_USER_ID: z.string().default(''),
+    KITE_PASSWORD: z.string().default(''),
+    KITE_API_KEY: z.string().default(''),
+    KITE_API_SECRET: z.string().default(''),
+    KITE_TOTP_SECRET: z.string().default(''),
+    // Optional: comma-separated list of symbols for worker mode
+    SYMBOLS: z.string().optional(),
+    // Optional: worker ID for logging
+    WORKER_ID: z.coerce.number().optional(),
+    // Optional: record market data under .data/recordings/<RECORD_SESSION> for offline replay
+    RECORD_SESSION: z.string().optional(),
+    // Required when MARKET_DATA_SOURCE is replay: the recorded session to replay
+    REPLAY_SESSION: z.string().optional(),
+    REPLAY_MODE: z.enum(['realtime', 'accelerated', 'step']).default('realtime'),
+    // Playback speed multiplier for accelerated replay
+    REPLAY_SPEED: z.coerce.number().positive().default(10),
+  })
+  .superRefine((value, ctx) => {
+    if (value.MARKET_DATA_SOURCE === 'kite') {
+      for (const key of KITE_CREDENTIALS) {
+        if (!value[key]) {
+          ctx.addIssue({ code: 'custom', path: [key], message: 'Required when MARKET_DATA_SOURCE is kite' });
+        }
+      }
+    }
+
+    if (value.MARKET_DATA_SOURCE === 'replay' && !value.REPLAY_SESSION) {
+      ctx.addIssue({ code: 'custom', path: ['REPLAY_SESSION'], message: 'Required when MARKET_DATA_SOURCE is replay' });
+    }
+  });
 
 const { data, error } = envSchema.safeParse(process.env);
 
@@ -0,0 +1,39 @@
+import { env } from '@server/lib/env';
+import { KiteMarketDataSource } from '@server/lib/market-data/kite';
+import { getRecordingPath, RecordingMarketDataSource } from '@server/lib/market-data/recorder';
+import { ReplayMarketDataSource } from '@server/lib/market-data/replay';
+import { SyntheticMarketDataSource } from '@server/lib/market-data/synthetic';
+import type { MarketDataSource } from '@server/lib/market-data/types';
+
+export type { MarketDataMode, MarketDataSource, MarketDataSourceName, MarketTick } from '@server/lib/market-data/types';
+export { ReplayMarketDataSource };
+
+/**
+ * Create the market data source selected by MARKET_DATA_SOURCE for this process.
+ * When RECORD_SESSION is set, live and synthetic sources are recorded for later replay.
+ */
+export function createMarketDataSource(): MarketDataSource {
+  const workerId = env.WORKER_ID ?? 0;
+
+  let source: MarketDataSource;
+  switch (env.MARKET_DATA_SOURCE) {
+    case 'replay':
+      return new ReplayMarketDataSource({
+        filePath: getRecordingPath(env.REPLAY_SESSION!, workerId),
+        mode: env.REPLAY_MODE,
+        speed: env.REPLAY_SPEED,
+      });
+    case 'synthetic':
+      source = new SyntheticMarketDataSource();
+      break;
+    case 'kite':
+      source = new KiteMarketDataSource();
+      break;
+  }
+
+  if (env.RECORD_SESSION) {
+    source = new RecordingMarketDataSource(source, getRecordingPath(env.RECORD_SESSION, workerId));
+  }
+
+  return source;
+}
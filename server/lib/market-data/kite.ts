@@ -0,0 +1,58 @@
+import { env } from '@server/lib/env';
+import type { MarketDataMode, MarketDataSource, TicksListener } from '@server/lib/market-data/types';
+import { accessToken } from '@server/lib/services/accessToken';
+import { getOrderMargins } from '@server/lib/services/kite';
+import { KiteTicker } from 'kiteconnect-ts';
+
+/**
+ * Live market data from Zerodha's Kite Ticker.
+ */
+export class KiteMarketDataSource implements MarketDataSource {
+  readonly description = 'Kite Ticker';
+
+  private ticker = new KiteTicker({
+    api_key: env.KITE_API_KEY,
+    access_token: accessToken,
+  });
+
+  async connect() {
+    await new Promise((resolve, reject) => {
+      const timeoutId = setTimeout(() => {
+        reject(new Error('Connection timed out'));
+      }, 10000);
+
+      this.ticker.on('connect', () => {
+        resolve(true);
+        clearTimeout(timeoutId);
+      });
+
+      this.ticker.on('error', (error) => {
+        clearTimeout(timeoutId);
+        reject(error);
+      });
+
+      this.ticker.connect();
+    });
+  }
+
+  disconnect() {
+    this.ticker.disconnect();
+  }
+
+  subscribe(tokens: number[], mode: MarketDataMode) {
+    this.ticker.subscribe(tokens);
+    this.ticker.setMode(mode === 'full' ? this.ticker.modeFull : this.ticker.modeLTP, tokens);
+  }
+
+  unsubscribe(tokens: number[]) {
+    this.ticker.unsubscribe(tokens);
+  }
+
+  onTicks(listener: TicksListener) {
+    this.ticker.on('ticks', listener);
+  }
+
+  getOrderMargins(tradingsymbols: string[]) {
+    return getOrderMargins(tradingsymbols);
+  }
+}
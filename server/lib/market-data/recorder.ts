@@ -0,0 +1,86 @@
+import { logger } from '@server/lib/logger';
+import type { MarketDataMode, MarketDataSource, MarketTick, TicksListener } from '@server/lib/market-data/types';
+import type { CompactMargin } from 'kiteconnect-ts';
+import { createWriteStream, mkdirSync, type WriteStream } from 'node:fs';
+import { dirname, join } from 'node:path';
+
+/**
+ * A single line in a recording file, along with the wall-clock time (ms since epoch)
+ * it was received at: either the ticks delivered in one `ticks` event, or the
+ * result of one order margins request.
+ */
+export type RecordedFrame = { t: number; ticks: MarketTick[] } | { t: number; margins: CompactMargin[] };
+
+/**
+ * Get the path of the recording file for a worker in a session.
+ * Each worker records its own file, since each worker owns its own market data source.
+ */
+export function getRecordingPath(session: string, workerId: number) {
+  return join('.data', 'recordings', session, `worker-${workerId}.jsonl`);
+}
+
+/**
+ * Wraps a market data source and persists everything it delivers to disk as JSON lines,
+ * so that the session can be replayed later with ReplayMarketDataSource.
+ */
+export class RecordingMarketDataSource implements MarketDataSource {
+  readonly description: string;
+
+  private stream: WriteStream;
+  private frameCount = 0;
+
+  constructor(
+    private readonly source: MarketDataSource,
+    private readonly filePath: string
+  ) {
+    this.description = `${source.description} (recording)`;
+
+    mkdirSync(dirname(filePath), { recursive: true });
+    this.stream = createWriteStream(filePath, { flags: 'w' });
+    this.stream.on('error', (error) => {
+      logger.error(`Error writing recording to ${filePath}:`, error);
+    });
+    logger.info(`Recording market data to ${filePath}`);
+  }
+
+  connect() {
+    return this.source.connect();
+  }
+
+  disconnect() {
+    this.source.disconnect();
+    this.stream.end(() => {
+      logger.info(`Recorded ${this.frameCount} frames to ${this.filePath}`);
+    });
+  }
+
+  subscribe(tokens: number[], mode: MarketDataMode) {
+    this.source.subscribe(tokens, mode);
+  }
+
+  unsubscribe(tokens: number[]) {
+    this.source.unsubscribe(tokens);
+  }
+
+  onTicks(listener: TicksListener) {
+    this.source.onTicks((ticks) => {
+      if (ticks.length > 0) {
+        this.write({ t: Date.now(), ticks });
+      }
+      listener(ticks);
+    });
+  }
+
+  async getOrderMargins(tradingsymbols: string[]) {
+    const margins = await this.source.getOrderMargins(tradingsymbols);
+    if (margins.length > 0) {
+      this.write({ t: Date.now(), margins });
+    }
+    return margins;
+  }
+
+  private write(frame: RecordedFrame) {
+    this.stream.write(JSON.stringify(frame) + '\n');
+    this.frameCount++;
+  }
+}
@@ -0,0 +1,177 @@
+import { logger } from '@server/lib/logger';
+import type { RecordedFrame } from '@server/lib/market-data/recorder';
+import type { MarketDataSource, MarketTick, TicksListener } from '@server/lib/market-data/types';
+import type { CompactMargin } from 'kiteconnect-ts';
+import { createReadStream, existsSync } from 'node:fs';
+import { createInterface } from 'node:readline';
+import { setTimeout } from 'node:timers/promises';
+
+/**
+ * - realtime: frames are emitted with the same gaps they were recorded with
+ * - accelerated: gaps are divided by the replay speed
+ * - step: frames are only emitted when `step()` is called
+ */
+export type ReplayMode = 'realtime' | 'accelerated' | 'step';
+
+interface ReplayParams {
+  filePath: string;
+  mode: ReplayMode;
+  speed: number;
+}
+
+/**
+ * Replays a session recorded by RecordingMarketDataSource.
+ *
+ * Like the live ticker, only ticks for subscribed tokens are emitted, and subscribing to a
+ * token immediately emits the latest tick seen for it so that late subscriptions behave the
+ * same way they do against Kite. Order margins are served from the latest recorded values.
+ */
+export class ReplayMarketDataSource implements MarketDataSource {
+  readonly description: string;
+
+  private listeners: TicksListener[] = [];
+  private subscribedTokens = new Set<number>();
+  private latestTicks = new Map<number, MarketTick>();
+  private latestMargins = new Map<string, CompactMargin>();
+  private pendingSteps = 0;
+  private stepWaiter: (() => void) | null = null;
+  private stopped = false;
+
+  constructor(private readonly params: ReplayParams) {
+    this.description = `replay of ${params.filePath} (${params.mode})`;
+  }
+
+  async connect() {
+    if (!existsSync(this.params.filePath)) {
+      throw new Error(`Recording not found: ${this.params.filePath}`);
+    }
+
+    this.run().catch((error) => {
+      logger.error('Replay failed:', error);
+    });
+  }
+
+  disconnect() {
+    this.stopped = true;
+    this.stepWaiter?.();
+  }
+
+  subscribe(tokens: number[]) {
+    for (const token of tokens) {
+      this.subscribedTokens.add(token);
+    }
+
+    // Emit a snapshot for the new tokens, like Kite does after a subscription.
+    // nextTick runs before the replay loop can resume, so the snapshot never overwrites a newer frame.
+    process.nextTick(() => {
+      const snapshot = tokens.map((token) => this.latestTicks.get(token)).filter((tick) => tick !== undefined);
+      if (snapshot.length > 0) {
+        this.emit(snapshot);
+      }
+    });
+  }
+
+  unsubscribe(tokens: number[]) {
+    for (const token of tokens) {
+      this.subscribedTokens.delete(token);
+    }
+  }
+
+  onTicks(listener: TicksListener) {
+    this.listeners.push(listener);
+  }
+
+  async getOrderMargins(tradingsymbols: string[]) {
+    return tradingsymbols.map((ts) => this.latestMargins.get(ts)).filter((margin) => margin !== undefined);
+  }
+
+  /**
+   * Allow the next `frames` frames to be emitted (step mode only).
+   */
+  step(frames = 1) {
+    this.pendingSteps += frames;
+    this.stepWaiter?.();
+  }
+
+  private emit(ticks: MarketTick[]) {
+    for (const listener of this.listeners) {
+      listener(ticks);
+    }
+  }
+
+  private async run() {
+    const lines = createInterface({ input: createReadStream(this.params.filePath), crlfDelay: Infinity });
+    let previousTimestamp: number | null = null;
+    let frameCount = 0;
+
+    for await (const line of lines) {
+      if (this.stopped) {
+        break;
+      }
+      if (!line.trim()) {
+        continue;
+      }
+
+      const frame = JSON.parse(line) as RecordedFrame;
+
+      // Margins are not paced, they just update what getOrderMargins serves
+      if ('margins' in frame) {
+        for (const margin of frame.margins) {
+          this.latestMargins.set(margin.tradingsymbol, margin);
+        }
+        continue;
+      }
+
+      await this.waitForFrame(previousTimestamp === null ? 0 : frame.t - previousTimestamp);
+      if (this.stopped) {
+        break;
+      }
+
+      previousTimestamp = frame.t;
+      frameCount++;
+      this.emitFrame(frame.ticks);
+    }
+
+    lines.close();
+    logger.info(`Replay finished after ${frameCount} frames`);
+  }
+
+  private async waitForFrame(gapMs: number) {
+    if (this.params.mode === 'step') {
+      while (this.pendingSteps === 0 && !this.stopped) {
+        await new Promise<void>((resolve) => {
+          this.stepWaiter = resolve;
+        });
+        this.stepWaiter = null;
+      }
+      this.pendingSteps = Math.max(0, this.pendingSteps - 1);
+      return;
+    }
+
+    const delay = this.params.mode === 'accelerated' ? gapMs / this.params.speed : gapMs;
+    if (delay > 0) {
+      await setTimeout(delay);
+    }
+  }
+
+  private emitFrame(ticks: MarketTick[]) {
+    const subscribedTicks: MarketTick[] = [];
+
+    for (const tick of ticks) {
+      // Dates are serialized as strings in the recording
+      if (tick.mode === 'full') {
+        tick.exchange_timestamp = new Date(tick.exchange_timestamp);
+        tick.last_trade_time = new Date(tick.last_trade_time);
+      }
+
+      this.latestTicks.set(tick.instrument_token, tick);
+      if (this.subscribedTokens.has(tick.instrument_token)) {
+        subscribedTicks.push(tick);
+      }
+    }
+
+    if (subscribedTicks.length > 0) {
+      this.emit(subscribedTicks);
+    }
+  }
+}
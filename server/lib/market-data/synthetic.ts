@@ -0,0 +1,221 @@
+import { db } from '@server/db';
+import { instrumentsTable } from '@server/db/schema';
+import { logger } from '@server/lib/logger';
+import type { MarketDataMode, MarketDataSource, MarketTick, TicksListener } from '@server/lib/market-data/types';
+import { workingDaysCache } from '@server/lib/market-minutes-cache';
+import { calculatePrice } from '@server/lib/utils/delta';
+import { CONFIG, type Symbol } from '@server/shared/config';
+import type { CompactMargin, TickFull, TickLtp } from 'kiteconnect-ts';
+
+type Instrument = typeof instrumentsTable.$inferSelect;
+
+const TICK_INTERVAL_MS = 1000;
+/**
+ * Annualised volatility of the random walk, also used to price the options
+ */
+const VOLATILITY = 0.25;
+/**
+ * Fraction of the contract's notional value blocked as margin for a short option (on top of the premium)
+ */
+const MARGIN_RATE = 0.1;
+const DEPTH_LEVELS = 5;
+
+/**
+ * Standard normal random number (Box-Muller transform)
+ */
+const randomNormal = () => Math.sqrt(-2 * Math.log(1 - Math.random())) * Math.cos(2 * Math.PI * Math.random());
+
+const randomInt = (min: number, max: number) => min + Math.floor(Math.random() * (max - min + 1));
+
+/**
+ * Simulated market data for demos and development, no Zerodha credentials required.
+ *
+ * Each underlying follows a geometric random walk starting at the median strike of its
+ * listed options, all futures of an underlying trade at that price, and options are
+ * quoted around their Black-Scholes value with a five level market depth.
+ * Instruments are read from the database, so it still needs to be seeded once.
+ */
+export class SyntheticMarketDataSource implements MarketDataSource {
+  readonly description = 'synthetic random walk';
+
+  private instruments = new Map<number, Instrument>();
+  private instrumentsByTradingsymbol = new Map<string, Instrument>();
+  /**
+   * underlying to current price
+   */
+  private prices = new Map<string, number>();
+  private subscriptions = new Map<number, MarketDataMode>();
+  private listeners: TicksListener[] = [];
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  async connect() {
+    const instruments = await db.select().from(instrumentsTable);
+
+    const strikesByName = new Map<string, number[]>();
+    for (const instrument of instruments) {
+      this.instruments.set(instrument.instrumentToken, instrument);
+      this.instrumentsByTradingsymbol.set(instrument.tradingsymbol, instrument);
+
+      if (instrument.strike) {
+        const strikes = strikesByName.get(instrument.name) ?? [];
+        strikes.push(instrument.strike);
+        strikesByName.set(instrument.name, strikes);
+      }
+    }
+
+    for (const [name, strikes] of strikesByName.entries()) {
+      strikes.sort((a, b) => a - b);
+      this.prices.set(name, strikes[Math.floor(strikes.length / 2)]!);
+    }
+
+    logger.info(`Simulating ${this.prices.size} underlyings from ${instruments.length} instruments`);
+    this.timer = setInterval(() => this.tick(), TICK_INTERVAL_MS);
+  }
+
+  disconnect() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  subscribe(tokens: number[], mode: MarketDataMode) {
+    for (const token of tokens) {
+      this.subscriptions.set(token, mode);
+    }
+  }
+
+  unsubscribe(tokens: number[]) {
+    for (const token of tokens) {
+      this.subscriptions.delete(token);
+    }
+  }
+
+  onTicks(listener: TicksListener) {
+    this.listeners.push(listener);
+  }
+
+  async getOrderMargins(tradingsymbols: string[]) {
+    const margins: CompactMargin[] = [];
+
+    for (const tradingsymbol of tradingsymbols) {
+      const instrument = this.instrumentsByTradingsymbol.get(tradingsymbol);
+      const price = instrument ? this.prices.get(instrument.name) : undefined;
+      if (!instrument || price === undefined) {
+        continue;
+      }
+
+      const contractSize = (instrument.lotSize ?? 1) * (CONFIG[instrument.name as Symbol]?.multiplier ?? 1);
+      const premium = this.getTheoreticalPrice(instrument, price);
+      margins.push({
+        type: 'commodity',
+        tradingsymbol,
+        exchange: 'MCX',
+        total: (price * MARGIN_RATE + premium) * contractSize,
+      });
+    }
+
+    return margins;
+  }
+
+  private tick() {
+    this.walk();
+
+    const ticks: MarketTick[] = [];
+    for (const [token, mode] of this.subscriptions.entries()) {
+      const instrument = this.instruments.get(token);
+      const underlyingPrice = instrument ? this.prices.get(instrument.name) : undefined;
+      if (!instrument || underlyingPrice === undefined) {
+        continue;
+      }
+
+      const price =
+        instrument.instrumentType === 'FUT' ? underlyingPrice : this.getTheoreticalPrice(instrument, underlyingPrice);
+      ticks.push(mode === 'full' ? this.createFullTick(instrument, price) : this.createLtpTick(instrument, price));
+    }
+
+    if (ticks.length > 0) {
+      for (const listener of this.listeners) {
+        listener(ticks);
+      }
+    }
+  }
+
+  /**
+   * Move every underlying one step along its geometric random walk.
+   */
+  private walk() {
+    const marketMinutesInYear = workingDaysCache.getMarketMinutesInLastYear();
+    if (marketMinutesInYear === 0) {
+      return;
+    }
+
+    const dt = TICK_INTERVAL_MS / 60_000 / marketMinutesInYear;
+    for (const [name, price] of this.prices.entries()) {
+      const shock = VOLATILITY * Math.sqrt(dt) * randomNormal() - 0.5 * VOLATILITY * VOLATILITY * dt;
+      this.prices.set(name, price * Math.exp(shock));
+    }
+  }
+
+  private getTheoreticalPrice(instrument: Instrument, underlyingPrice: number) {
+    if (instrument.instrumentType !== 'CE' && instrument.instrumentType !== 'PE') {
+      return 0;
+    }
+
+    const T =
+      workingDaysCache.getMarketMinutesTillExpiry(instrument.expiry) / workingDaysCache.getMarketMinutesInLastYear();
+    return calculatePrice(underlyingPrice, instrument.strike!, VOLATILITY, T, instrument.instrumentType);
+  }
+
+  private createLtpTick(instrument: Instrument, price: number): TickLtp {
+    return {
+      tradable: true,
+      mode: 'ltp',
+      instrument_token: instrument.instrumentToken,
+      last_price: price,
+    };
+  }
+
+  private createFullTick(instrument: Instrument, price: number): TickFull {
+    const tickSize = instrument.tickSize || 0.05;
+    const halfSpread = Math.max(tickSize, price * 0.02);
+    const bid = Math.floor((price - halfSpread) / tickSize) * tickSize;
+    const ask = Math.ceil((price + halfSpread) / tickSize) * tickSize;
+
+    const buy: TickFull['depth']['buy'] = [];
+    const sell: TickFull['depth']['sell'] = [];
+    for (let i = 0; i < DEPTH_LEVELS; i++) {
+      const buyPrice = bid - i * tickSize;
+      if (buyPrice > 0) {
+        buy.push({ price: Number(buyPrice.toFixed(2)), quantity: randomInt(1, 20), orders: randomInt(1, 5) });
+      }
+      sell.push({
+        price: Number((ask + i * tickSize).toFixed(2)),
+        quantity: randomInt(1, 20),
+        orders: randomInt(1, 5),
+      });
+    }
+
+    const now = new Date();
+    const lastPrice = Number(price.toFixed(2));
+    return {
+      tradable: true,
+      mode: 'full',
+      instrument_token: instrument.instrumentToken,
+      last_price: lastPrice,
+      last_traded_quantity: 1,
+      average_traded_price: lastPrice,
+      volume_traded: 0,
+      total_buy_quantity: buy.reduce((sum, entry) => sum + entry.quantity, 0),
+      total_sell_quantity: sell.reduce((sum, entry) => sum + entry.quantity, 0),
+      ohlc: { open: lastPrice, high: lastPrice, low: lastPrice, close: lastPrice },
+      change: 0,
+      last_trade_time: now,
+      exchange_timestamp: now,
+      oi: 0,
+      oi_day_high: 0,
+      oi_day_low: 0,
+      depth: { buy, sell },
+    };
+  }
+}
@@ -0,0 +1,31 @@
+import type { CompactMargin, TickFull, TickLtp } from 'kiteconnect-ts';
+
+export type MarketDataSourceName = 'kite' | 'replay' | 'synthetic';
+
+/**
+ * Futures are streamed in LTP mode, options in full mode (for market depth).
+ */
+export type MarketDataMode = 'ltp' | 'full';
+
+export type MarketTick = TickLtp | TickFull;
+export type TicksListener = (ticks: MarketTick[]) => void;
+
+/**
+ * A source of live (or simulated) market data for TickerService.
+ *
+ * Besides ticks, sources also provide order margins, since those come from the
+ * same place as the prices (Kite, a recording, or the simulation) and are required
+ * to compute return values.
+ */
+export interface MarketDataSource {
+  /**
+   * Human readable description for logs
+   */
+  readonly description: string;
+  connect(): Promise<void>;
+  disconnect(): void;
+  subscribe(tokens: number[], mode: MarketDataMode): void;
+  unsubscribe(tokens: number[]): void;
+  onTicks(listener: TicksListener): void;
+  getOrderMargins(tradingsymbols: string[]): Promise<CompactMargin[]>;
+}
@@ -6,7 +6,7 @@ import {
   calculateMarketMinutesTillExpiry,
   loadHolidayCache,
 } from '@server/lib/utils/market-minutes';
-import { parse, parseISO, subYears } from 'date-fns';
+import { addDays, parse, parseISO, subYears } from 'date-fns';
 import { inArray } from 'drizzle-orm';
 
 // TTL for expiry minutes cache (1 minute in milliseconds)
@@ -68,6 +68,21 @@ class MarketMinutesCache {
     return value;
   }
 
+  /**
+   * Get market minutes till expiry as they will be `days` calendar days from now, at the same time of day.
+   * The days in between are counted with their full market minutes, so weekends and holidays don't decay.
+   */
+  getMarketMinutesTillExpiryInDays(expiryDate: string, days: number): number {
+    const marketMinutesTillExpiry = this.getMarketMinutesTillExpiry(expiryDate);
+    if (days <= 0) {
+      return marketMinutesTillExpiry;
+    }
+
+    const today = new Date();
+    const elapsedMinutes = calculateMarketMinutesInRange(addDays(today, 1), addDays(today, days));
+    return Math.max(0, marketMinutesTillExpiry - elapsedMinutes);
+  }
+
   /**
    * Pre-validate expiry dates at startup
    * Only stores which dates are valid, NOT the market minutes values
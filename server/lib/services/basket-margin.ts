@@ -0,0 +1,80 @@
+import { getBasketMargins, type BasketMarginOrder } from '@server/lib/services/kite';
+import { positionsService } from '@server/lib/services/positions';
+
+// The margin of the book only changes when positions or prices move, so it is shared between quick requests
+const BOOK_MARGIN_CACHE_MS = 10_000;
+
+export interface IncrementalMargin {
+  /**
+   * Margin of the order on its own
+   */
+  standalone: number;
+  /**
+   * Margin the order adds to the current positions, lower than `standalone` when it hedges them
+   */
+  incremental: number;
+  /**
+   * Margin of the current positions
+   */
+  bookMargin: number;
+}
+
+/**
+ * Prices orders against the current position book with Kite's basket margin API, so the hedge benefit
+ * between an order and the open positions is counted.
+ *
+ * The book is sent as orders instead of letting Kite consider the account's positions, so paper positions
+ * are priced the same way.
+ */
+class BasketMarginService {
+  private bookCache: { key: string; margin: number; fetchedAt: number } | null = null;
+
+  /**
+   * Margin of adding the order to the book: margin(book + order) − margin(book)
+   */
+  async getIncrementalMargin(order: BasketMarginOrder): Promise<IncrementalMargin> {
+    const book = await this.getBookOrders();
+
+    const [standalone, withOrder, bookMargin] = await Promise.all([
+      getBasketMargins([order]),
+      getBasketMargins([...book, order]),
+      this.getBookMargin(book),
+    ]);
+
+    return {
+      standalone: standalone.final,
+      incremental: Math.max(0, withOrder.final - bookMargin),
+      bookMargin,
+    };
+  }
+
+  /**
+   * Open positions, futures included so they count as hedges, as the orders that would open them
+   */
+  private async getBookOrders(): Promise<BasketMarginOrder[]> {
+    const positions = await positionsService.getOpenPositions();
+    return positions.map((position) => ({
+      tradingsymbol: position.tradingsymbol,
+      transactionType: position.quantity < 0 ? 'SELL' : 'BUY',
+      quantity: Math.abs(position.quantity),
+      price: position.last_price || position.average_price,
+    }));
+  }
+
+  private async getBookMargin(book: BasketMarginOrder[]) {
+    if (book.length === 0) {
+      return 0;
+    }
+
+    const key = book.map((order) => `${order.transactionType}:${order.tradingsymbol}:${order.quantity}`).join(',');
+    if (this.bookCache?.key === key && Date.now() - this.bookCache.fetchedAt < BOOK_MARGIN_CACHE_MS) {
+      return this.bookCache.margin;
+    }
+
+    const { final } = await getBasketMargins(book);
+    this.bookCache = { key, margin: final, fetchedAt: Date.now() };
+    return final;
+  }
+}
+
+export const basketMarginService = new BasketMarginService();
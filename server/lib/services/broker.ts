@@ -0,0 +1,62 @@
+import { kiteService, queueKiteRequest } from '@server/lib/services/kite';
+import { isPaperOrderId, paperBroker } from '@server/lib/services/paper-broker';
+import { settingsService } from '@server/lib/services/settings';
+import type { Order, PlaceOrderParams, Position } from 'kiteconnect-ts';
+
+export interface BrokerMargins {
+  /**
+   * Margin available for new orders
+   */
+  net: number;
+  /**
+   * Margin blocked by positions and open orders
+   */
+  utilised: number;
+}
+
+/**
+ * The part of the Kite API that orders, positions and margins go through, so they can be simulated
+ * by the paper broker. Only regular LIMIT orders are placed from the app.
+ */
+export interface Broker {
+  readonly paper: boolean;
+  placeOrder(params: PlaceOrderParams): Promise<{ order_id: string }>;
+  modifyOrder(orderId: string, params: { price?: number; quantity?: number }): Promise<{ order_id: string }>;
+  cancelOrder(orderId: string): Promise<{ order_id: string }>;
+  getOrders(): Promise<Order[]>;
+  getOrderHistory(orderId: string): Promise<Order[]>;
+  /**
+   * Net positions
+   */
+  getPositions(): Promise<Position[]>;
+  getMargins(): Promise<BrokerMargins>;
+}
+
+export const kiteBroker: Broker = {
+  paper: false,
+  placeOrder: (params) => queueKiteRequest(() => kiteService.placeOrder('regular', params)),
+  modifyOrder: (orderId, params) =>
+    queueKiteRequest(() => kiteService.modifyOrder('regular', orderId, { order_type: 'LIMIT', ...params })),
+  cancelOrder: (orderId) => queueKiteRequest(() => kiteService.cancelOrder('regular', orderId)),
+  getOrders: () => kiteService.getOrders(),
+  getOrderHistory: (orderId) => kiteService.getOrderHistory(orderId),
+  getPositions: async () => (await kiteService.getPositions()).net,
+  getMargins: async () => {
+    const margins = await kiteService.getMargins('equity');
+    return { net: margins.net, utilised: margins.utilised.debits };
+  },
+};
+
+/**
+ * The broker new orders are placed with, depending on the paper trading setting
+ */
+export async function getBroker(): Promise<Broker> {
+  return (await settingsService.getPaperTrading()) ? paperBroker : kiteBroker;
+}
+
+/**
+ * The broker an existing order was placed with, whatever the current setting
+ */
+export function getOrderBroker(orderId: string): Broker {
+  return isPaperOrderId(orderId) ? paperBroker : kiteBroker;
+}
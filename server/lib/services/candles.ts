@@ -0,0 +1,248 @@
+import { logger } from '@server/lib/logger';
+import type { FutureTick } from '@shared/types/types';
+import {
+  createWriteStream,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  unlinkSync,
+  writeFileSync,
+  type WriteStream,
+} from 'node:fs';
+import { join } from 'node:path';
+
+/**
+ * Supported candle intervals, in minutes
+ */
+export const CANDLE_INTERVALS = {
+  '1m': 1,
+  '5m': 5,
+  '15m': 15,
+} as const;
+
+export type CandleInterval = keyof typeof CANDLE_INTERVALS;
+
+export const CANDLE_INTERVAL_NAMES = Object.keys(CANDLE_INTERVALS) as [CandleInterval, ...CandleInterval[]];
+
+export interface Candle {
+  /**
+   * Start of the candle, as a Unix timestamp in milliseconds
+   */
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+/**
+ * Latest (possibly still forming) candle of a future, pushed to WebSocket clients
+ */
+export interface CandleUpdate {
+  symbol: string;
+  expiry: string;
+  interval: CandleInterval;
+  candle: Candle;
+}
+
+const CANDLES_DIR = join('.data', 'candles');
+const MINUTE_MS = 60 * 1000;
+const RETENTION_MS = 3 * 24 * 60 * MINUTE_MS; // 3 days
+
+const seriesKey = (symbol: string, expiry: string) => `${symbol}_${expiry}`;
+
+/**
+ * Combine consecutive 1m candles into candles of the given interval
+ */
+function aggregate(minuteCandles: Candle[], interval: CandleInterval): Candle[] {
+  const intervalMs = CANDLE_INTERVALS[interval] * MINUTE_MS;
+  if (intervalMs === MINUTE_MS) {
+    return minuteCandles.map((candle) => ({ ...candle }));
+  }
+
+  const candles: Candle[] = [];
+  for (const candle of minuteCandles) {
+    const time = Math.floor(candle.time / intervalMs) * intervalMs;
+    const last = candles.at(-1);
+    if (last && last.time === time) {
+      last.high = Math.max(last.high, candle.high);
+      last.low = Math.min(last.low, candle.low);
+      last.close = candle.close;
+    } else {
+      candles.push({ ...candle, time });
+    }
+  }
+  return candles;
+}
+
+/**
+ * Builds OHLC candles of the futures LTPs forwarded by the workers.
+ *
+ * Only 1m candles are kept (in memory for the last few days, and appended to a JSON lines
+ * file per future as they close); 5m and 15m candles are aggregated from them on request.
+ */
+class CandleService {
+  /**
+   * 1m candles per future, oldest first. The last one may still be forming.
+   */
+  private series = new Map<string, { symbol: string; expiry: string; candles: Candle[] }>();
+  private streams = new Map<string, WriteStream>();
+
+  /**
+   * Futures that received ticks since the last call to drainUpdates
+   */
+  private updated = new Set<string>();
+
+  /**
+   * Load the candles saved by previous runs, dropping the ones past the retention period
+   */
+  init() {
+    mkdirSync(CANDLES_DIR, { recursive: true });
+    const cutoff = Date.now() - RETENTION_MS;
+
+    for (const file of readdirSync(CANDLES_DIR).filter((f) => f.endsWith('.jsonl'))) {
+      const [symbol, expiry] = file.slice(0, -'.jsonl'.length).split('_');
+      if (!symbol || !expiry) continue;
+
+      const filePath = join(CANDLES_DIR, file);
+      // A candle is written again if the process restarted while it was forming, so the last line wins
+      const byTime = new Map<number, Candle>();
+      for (const line of readFileSync(filePath, 'utf-8').split('\n')) {
+        if (!line) continue;
+        try {
+          const candle = JSON.parse(line) as Candle;
+          if (candle.time >= cutoff) {
+            byTime.set(candle.time, candle);
+          }
+        } catch {
+          logger.warn(`Skipping invalid candle in ${filePath}: ${line}`);
+        }
+      }
+
+      if (byTime.size === 0) {
+        unlinkSync(filePath);
+        continue;
+      }
+
+      const candles = Array.from(byTime.values()).sort((a, b) => a.time - b.time);
+      // Rewrite the file without the pruned and duplicate candles
+      writeFileSync(filePath, candles.map((candle) => JSON.stringify(candle) + '\n').join(''));
+      this.series.set(seriesKey(symbol, expiry), { symbol, expiry, candles });
+    }
+
+    logger.info(`Loaded candles for ${this.series.size} futures from ${CANDLES_DIR}`);
+  }
+
+  addTicks(ticks: FutureTick[]) {
+    for (const { underlying, expiry, ltp, timestamp } of ticks) {
+      if (ltp <= 0) continue;
+
+      const key = seriesKey(underlying, expiry);
+      let series = this.series.get(key);
+      if (!series) {
+        series = { symbol: underlying, expiry, candles: [] };
+        this.series.set(key, series);
+      }
+
+      const time = Math.floor(timestamp / MINUTE_MS) * MINUTE_MS;
+      const last = series.candles.at(-1);
+
+      if (last && last.time === time) {
+        last.high = Math.max(last.high, ltp);
+        last.low = Math.min(last.low, ltp);
+        last.close = ltp;
+      } else if (!last || time > last.time) {
+        if (last) {
+          this.persist(key, last);
+        }
+        series.candles.push({ time, open: ltp, high: ltp, low: ltp, close: ltp });
+
+        const cutoff = timestamp - RETENTION_MS;
+        const firstRetained = series.candles.findIndex((candle) => candle.time >= cutoff);
+        if (firstRetained > 0) {
+          series.candles.splice(0, firstRetained);
+        }
+      } else {
+        // Ticks for a minute that has already closed
+        continue;
+      }
+
+      this.updated.add(key);
+    }
+  }
+
+  /**
+   * Candles of a future, oldest first
+   */
+  getCandles(symbol: string, expiry: string, interval: CandleInterval): Candle[] {
+    const series = this.series.get(seriesKey(symbol, expiry));
+    return series ? aggregate(series.candles, interval) : [];
+  }
+
+  /**
+   * Expiries of the futures of a symbol that have candles, nearest first
+   */
+  getExpiries(symbol: string): string[] {
+    return Array.from(this.series.values())
+      .filter((series) => series.symbol === symbol && series.candles.length > 0)
+      .map((series) => series.expiry)
+      .sort();
+  }
+
+  /**
+   * Latest candle of every interval for the futures that received ticks since the last call
+   */
+  drainUpdates(): CandleUpdate[] {
+    const updates: CandleUpdate[] = [];
+
+    for (const key of this.updated) {
+      const series = this.series.get(key);
+      const last = series?.candles.at(-1);
+      if (!series || !last) continue;
+
+      for (const interval of CANDLE_INTERVAL_NAMES) {
+        const intervalMs = CANDLE_INTERVALS[interval] * MINUTE_MS;
+        const start = Math.floor(last.time / intervalMs) * intervalMs;
+        const [candle] = aggregate(
+          series.candles.filter((c) => c.time >= start),
+          interval
+        );
+        updates.push({ symbol: series.symbol, expiry: series.expiry, interval, candle: candle! });
+      }
+    }
+
+    this.updated.clear();
+    return updates;
+  }
+
+  /**
+   * Save the candles that are still forming and close the files
+   */
+  close() {
+    for (const [key, series] of this.series) {
+      const last = series.candles.at(-1);
+      if (last) {
+        this.persist(key, last);
+      }
+    }
+    for (const stream of this.streams.values()) {
+      stream.end();
+    }
+    this.streams.clear();
+  }
+
+  private persist(key: string, candle: Candle) {
+    let stream = this.streams.get(key);
+    if (!stream) {
+      const filePath = join(CANDLES_DIR, `${key}.jsonl`);
+      stream = createWriteStream(filePath, { flags: 'a' });
+      stream.on('error', (error) => {
+        logger.error(`Error writing candles to ${filePath}:`, error);
+      });
+      this.streams.set(key, stream);
+    }
+    stream.write(JSON.stringify(candle) + '\n');
+  }
+}
+
+export const candleService = new CandleService();
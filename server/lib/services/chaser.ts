@@ -0,0 +1,279 @@
+import { logger } from '@server/lib/logger';
+import { getOrderBroker } from '@server/lib/services/broker';
+import { toOrderStatus } from '@server/lib/services/orders';
+import { positionsService } from '@server/lib/services/positions';
+
+export type ChaseStatus = 'active' | 'filled' | 'closed' | 'exhausted' | 'timedOut' | 'stopped' | 'failed';
+
+export interface ChaseStep {
+  at: number;
+  action: 'modified' | 'error';
+  /**
+   * Best bid when the step was taken
+   */
+  bid: number;
+  /**
+   * Limit price of the order after the step
+   */
+  price: number;
+  message?: string;
+}
+
+/**
+ * A sell order whose limit price follows the best bid down to a floor
+ */
+export interface OrderChase {
+  orderId: string;
+  tradingsymbol: string;
+  floorPrice: number;
+  maxModifications: number;
+  modifications: number;
+  /**
+   * Current limit price of the order
+   */
+  price: number;
+  status: ChaseStatus;
+  /**
+   * Why the chase ended, unset while it is active
+   */
+  statusMessage?: string;
+  steps: ChaseStep[];
+  startedAt: number;
+  expiresAt: number;
+  updatedAt: number;
+}
+
+export interface ChaseParams {
+  orderId: string;
+  floorPrice: number;
+  maxModifications: number;
+  timeoutSeconds: number;
+}
+
+type ChaseUpdateCallback = (chase: OrderChase) => void;
+
+const CHASE_INTERVAL_MS = 1000;
+const MAX_CONSECUTIVE_ERRORS = 3;
+/**
+ * Finished chases are kept this long so clients can still show how they ended
+ */
+const FINISHED_CHASE_RETENTION_MS = 60 * 60 * 1000;
+
+/**
+ * Moves the limit price of open sell orders down to the best bid of their option as it changes, so they
+ * don't sit unfilled behind a falling bid. A chase never goes below its floor price, and ends when the
+ * order is closed, after the maximum number of modifications or at its timeout. The order is left open
+ * at its last price when the chase ends without a fill.
+ */
+class OrderChaserService {
+  private callback: ChaseUpdateCallback | null = null;
+  private chases = new Map<string, OrderChase>();
+  private timers = new Map<string, NodeJS.Timeout>();
+  private consecutiveErrors = new Map<string, number>();
+
+  /**
+   * Call the callback with a chase whenever it takes a step or ends
+   */
+  start(callback: ChaseUpdateCallback) {
+    logger.info('Starting order chaser');
+    this.callback = callback;
+  }
+
+  stop() {
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+    this.callback = null;
+  }
+
+  /**
+   * Start chasing the best bid with an open sell order. Replaces an active chase of the same order.
+   */
+  async chase({ orderId, floorPrice, maxModifications, timeoutSeconds }: ChaseParams) {
+    const order = (await getOrderBroker(orderId).getOrderHistory(orderId)).at(-1);
+    if (!order) {
+      throw new Error(`Order ${orderId} not found`);
+    }
+    if (order.transaction_type !== 'SELL') {
+      throw new Error('Only sell orders can be chased');
+    }
+    if (!['open', 'partial'].includes(toOrderStatus(order))) {
+      throw new Error(`Order is ${order.status}`);
+    }
+    if (floorPrice > order.price) {
+      throw new Error(`Floor price ${floorPrice} is above the order price ${order.price}`);
+    }
+
+    this.pruneFinishedChases();
+    const existing = this.chases.get(orderId);
+    if (existing?.status === 'active') {
+      this.finish(existing, 'stopped', 'Replaced by a new chase');
+    }
+
+    const now = Date.now();
+    const chase: OrderChase = {
+      orderId,
+      tradingsymbol: order.tradingsymbol,
+      floorPrice,
+      maxModifications,
+      modifications: 0,
+      price: order.price,
+      status: 'active',
+      steps: [],
+      startedAt: now,
+      expiresAt: now + timeoutSeconds * 1000,
+      updatedAt: now,
+    };
+    this.chases.set(orderId, chase);
+    this.consecutiveErrors.set(orderId, 0);
+    logger.info(
+      `Chasing order ${orderId} (${order.tradingsymbol}) from ${order.price} down to ${floorPrice}, ` +
+        `at most ${maxModifications} modifications in ${timeoutSeconds}s`
+    );
+
+    this.notify(chase);
+    this.scheduleNextStep(chase, order.instrument_token);
+    return chase;
+  }
+
+  /**
+   * Stop an active chase, leaving the order open at its current price
+   */
+  stopChase(orderId: string) {
+    const chase = this.chases.get(orderId);
+    if (!chase || chase.status !== 'active') {
+      throw new Error(`Order ${orderId} is not being chased`);
+    }
+    this.finish(chase, 'stopped', 'Stopped by user');
+    return chase;
+  }
+
+  /**
+   * Active chases and those that finished recently
+   */
+  getChases() {
+    this.pruneFinishedChases();
+    return Array.from(this.chases.values());
+  }
+
+  private scheduleNextStep(chase: OrderChase, instrumentToken: number) {
+    this.timers.set(
+      chase.orderId,
+      setTimeout(async () => {
+        await this.step(chase, instrumentToken);
+        if (chase.status === 'active') {
+          this.scheduleNextStep(chase, instrumentToken);
+        }
+      }, CHASE_INTERVAL_MS)
+    );
+  }
+
+  private async step(chase: OrderChase, instrumentToken: number) {
+    let bid = 0;
+    try {
+      const order = (await getOrderBroker(chase.orderId).getOrderHistory(chase.orderId)).at(-1);
+      // The chase may have been stopped while the order was being fetched
+      if (!order || chase.status !== 'active') {
+        return;
+      }
+
+      const status = toOrderStatus(order);
+      if (status === 'complete') {
+        this.finish(chase, 'filled', `Filled at ${order.average_price}`);
+        return;
+      }
+      if (status === 'rejected' || status === 'cancelled') {
+        this.finish(chase, 'closed', `Order was ${status}`);
+        return;
+      }
+      if (Date.now() >= chase.expiresAt) {
+        this.finish(chase, 'timedOut', `Timed out at ${order.price}`);
+        return;
+      }
+      // Wait for a modification (ours or one made in Kite) to go through before the next one
+      if (order.status.includes('PENDING')) {
+        return;
+      }
+      // The price may also have been changed outside the chase
+      chase.price = order.price;
+
+      const live = positionsService.getLiveOption(instrumentToken);
+      bid = live?.marketDepth?.buy[0]?.price ?? live?.bid ?? 0;
+      if (!bid) {
+        return;
+      }
+
+      const targetPrice = Math.max(bid, chase.floorPrice);
+      if (targetPrice >= chase.price) {
+        return;
+      }
+
+      await getOrderBroker(chase.orderId).modifyOrder(chase.orderId, { price: targetPrice });
+      chase.modifications++;
+      chase.price = targetPrice;
+      this.consecutiveErrors.set(chase.orderId, 0);
+      this.addStep(chase, {
+        action: 'modified',
+        bid,
+        price: targetPrice,
+        message: bid < chase.floorPrice ? 'Bid is below the floor' : undefined,
+      });
+
+      if (chase.modifications >= chase.maxModifications) {
+        this.finish(chase, 'exhausted', `Reached ${chase.maxModifications} modifications at ${targetPrice}`);
+      }
+    } catch (error) {
+      if (chase.status !== 'active') {
+        return;
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error(`Error chasing order ${chase.orderId}:`, error);
+      this.addStep(chase, { action: 'error', bid, price: chase.price, message });
+
+      const errors = (this.consecutiveErrors.get(chase.orderId) ?? 0) + 1;
+      this.consecutiveErrors.set(chase.orderId, errors);
+      if (errors >= MAX_CONSECUTIVE_ERRORS) {
+        this.finish(chase, 'failed', `Gave up after ${errors} consecutive errors: ${message}`);
+      }
+    }
+  }
+
+  private addStep(chase: OrderChase, step: Omit<ChaseStep, 'at'>) {
+    chase.steps.push({ ...step, at: Date.now() });
+    this.notify(chase);
+  }
+
+  private finish(chase: OrderChase, status: Exclude<ChaseStatus, 'active'>, message: string) {
+    this.clearTimer(chase.orderId);
+    this.consecutiveErrors.delete(chase.orderId);
+    chase.status = status;
+    chase.statusMessage = message;
+    logger.info(`Chase of order ${chase.orderId} (${chase.tradingsymbol}) ended: ${message}`);
+    this.notify(chase);
+  }
+
+  private notify(chase: OrderChase) {
+    chase.updatedAt = Date.now();
+    this.callback?.(chase);
+  }
+
+  private clearTimer(orderId: string) {
+    const timer = this.timers.get(orderId);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(orderId);
+    }
+  }
+
+  private pruneFinishedChases() {
+    const cutoff = Date.now() - FINISHED_CHASE_RETENTION_MS;
+    for (const [orderId, chase] of this.chases) {
+      if (chase.status !== 'active' && chase.updatedAt < cutoff) {
+        this.chases.delete(orderId);
+      }
+    }
+  }
+}
+
+export const orderChaserService = new OrderChaserService();
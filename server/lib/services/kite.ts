@@ -15,12 +15,18 @@ export const kiteService = new KiteConnect({
   access_token: accessToken,
 });
 
+/**
+ * Run a Kite API request through the rate limited queue shared with the margin fetches
+ */
+export const queueKiteRequest = <T>(request: () => Promise<T>) => queue.add(request);
+
 const MAX_RETRIES = 3;
 
+// NRML like the orders placed from the app and the basket margins, so RV and marginal RV agree
 const mapTsToMarginOrder = (tradingsymbol: string) => ({
   exchange: 'MCX' as const,
   order_type: 'LIMIT' as const,
-  product: 'MIS' as const,
+  product: 'NRML' as const,
   quantity: 1,
   tradingsymbol,
   transaction_type: 'SELL' as const,
@@ -63,3 +69,34 @@ export const getOrderMargins = async (tradingsymbols: string[]) => {
 
   return allMargins;
 };
+
+export interface BasketMarginOrder {
+  tradingsymbol: string;
+  transactionType: 'BUY' | 'SELL';
+  /**
+   * In lots
+   */
+  quantity: number;
+  price: number;
+}
+
+/**
+ * Margin of a basket of MCX LIMIT orders placed together, e.g. the legs of a spread.
+ * `initial` is the sum of the margins of the orders on their own, `final` includes the hedge benefit between them
+ * and, with `considerPositions`, the open positions.
+ */
+export const getBasketMargins = async (orders: BasketMarginOrder[], considerPositions = false) => {
+  const marginOrders = orders.map((order) => ({
+    exchange: 'MCX' as const,
+    order_type: 'LIMIT' as const,
+    product: 'NRML' as const,
+    quantity: order.quantity,
+    price: order.price,
+    trigger_price: 0,
+    tradingsymbol: order.tradingsymbol,
+    transaction_type: order.transactionType,
+    variety: 'regular' as const,
+  }));
+  const margins = await queue.add(() => kiteService.orderBasketMargins(marginOrders, considerPositions, 'compact'));
+  return { initial: margins.initial.total, final: margins.final.total };
+};
@@ -0,0 +1,175 @@
+import type { OptionChain } from '@shared/types/types';
+
+/**
+ * How urgently the margin of an option is kept up to date, most urgent first
+ */
+export type MarginPriority = 'focused' | 'topRanked' | 'visible' | 'far' | 'background';
+
+/**
+ * Age after which a margin is refreshed, by priority
+ */
+const REFRESH_INTERVAL_MS: Record<MarginPriority, number> = {
+  // Opened in an order modal, or an open position
+  focused: 5_000,
+  // Among the best by RV or AV of their expiry
+  topRanked: 15_000,
+  // On a page a client has open
+  visible: 30_000,
+  // On an open page, but many SDs away
+  far: 120_000,
+  // No client is looking at the underlying
+  background: 300_000,
+};
+const PRIORITY_ORDER = Object.keys(REFRESH_INTERVAL_MS) as MarginPriority[];
+
+const TOP_RANKED_PER_EXPIRY = 10;
+const FAR_SD_DISTANCE = 2;
+/**
+ * Move of the underlying since the margin was fetched that makes it stale whatever its priority, in %
+ */
+const INVALIDATION_MOVE_PCT = 0.5;
+/**
+ * Wait before asking again for a margin Kite didn't return
+ */
+const RETRY_MS = 10_000;
+/**
+ * Margins fetched per cycle, sent as a single request
+ */
+const MAX_SYMBOLS_PER_CYCLE = 200;
+
+interface MarginFetch {
+  attemptedAt: number;
+  /**
+   * Whether Kite didn't return the margin on the last attempt, after its retries
+   */
+  failed: boolean;
+  /**
+   * LTP of the underlying when the margin was last fetched, 0 when it never was
+   */
+  underlyingLtp: number;
+}
+
+/**
+ * Decides which option margins a ticker refreshes on each cycle, instead of refetching the whole chain.
+ * Options without a margin come first, then those whose margin is older than the refresh interval of their
+ * priority or was fetched before the underlying moved by more than the invalidation threshold.
+ */
+export class MarginRefreshScheduler {
+  private fetches = new Map<number, MarginFetch>();
+  private visibleSymbols = new Set<string>();
+  private focusedTokens = new Set<number>();
+
+  /**
+   * Set what the clients are looking at: the underlyings of the open pages and the options opened in an order modal
+   */
+  setView(symbols: string[], tokens: number[]) {
+    this.visibleSymbols = new Set(symbols);
+    this.focusedTokens = new Set(tokens);
+  }
+
+  /**
+   * Options whose margin should be fetched now, most urgent first.
+   * Also sets the `orderMarginStatus` of every option from its margin age and last attempt.
+   * @param watchedTokens options held in positions, kept as fresh as focused ones
+   */
+  selectDue(options: OptionChain[], watchedTokens: Set<number>, now = Date.now()) {
+    const topRanked = this.getTopRanked(options);
+    const due: { option: OptionChain; rank: number; overdue: number }[] = [];
+
+    for (const option of options) {
+      const fetch = this.fetches.get(option.instrumentToken);
+      const sinceAttempt = now - (fetch?.attemptedAt ?? 0);
+
+      if (!option.orderMarginUpdatedAt) {
+        option.orderMarginStatus = fetch?.failed ? 'failed' : 'pending';
+        if (sinceAttempt >= RETRY_MS) {
+          due.push({ option, rank: -1, overdue: sinceAttempt });
+        }
+        continue;
+      }
+
+      const priority = this.getPriority(option, topRanked, watchedTokens);
+      const interval = REFRESH_INTERVAL_MS[priority];
+      const age = now - option.orderMarginUpdatedAt;
+      const moved =
+        fetch && fetch.underlyingLtp > 0
+          ? (Math.abs(option.underlyingLtp - fetch.underlyingLtp) * 100) / fetch.underlyingLtp
+          : 0;
+
+      const isStale = age >= interval || moved > INVALIDATION_MOVE_PCT;
+      option.orderMarginStatus = fetch?.failed ? 'failed' : isStale ? 'stale' : 'fresh';
+
+      if (isStale && sinceAttempt >= Math.min(interval, RETRY_MS)) {
+        due.push({ option, rank: PRIORITY_ORDER.indexOf(priority), overdue: age / interval });
+      }
+    }
+
+    return due
+      .sort((a, b) => a.rank - b.rank || b.overdue - a.overdue)
+      .slice(0, MAX_SYMBOLS_PER_CYCLE)
+      .map(({ option }) => option);
+  }
+
+  /**
+   * Record the outcome of fetching the margins of the given options
+   * @param fetchedTokens options Kite returned a margin for, the others failed
+   */
+  markAttempted(options: OptionChain[], fetchedTokens: Set<number>, now = Date.now()) {
+    for (const option of options) {
+      const fetched = fetchedTokens.has(option.instrumentToken);
+      const fetch = this.fetches.get(option.instrumentToken);
+      this.fetches.set(option.instrumentToken, {
+        attemptedAt: now,
+        failed: !fetched,
+        underlyingLtp: fetched ? option.underlyingLtp : (fetch?.underlyingLtp ?? 0),
+      });
+    }
+  }
+
+  /**
+   * Drop the state of options that are no longer subscribed
+   */
+  prune(tokens: Set<number>) {
+    for (const token of this.fetches.keys()) {
+      if (!tokens.has(token)) {
+        this.fetches.delete(token);
+      }
+    }
+  }
+
+  private getPriority(option: OptionChain, topRanked: Set<number>, watchedTokens: Set<number>): MarginPriority {
+    if (this.focusedTokens.has(option.instrumentToken) || watchedTokens.has(option.instrumentToken)) {
+      return 'focused';
+    }
+    if (!this.visibleSymbols.has(option.name)) {
+      return 'background';
+    }
+    if (topRanked.has(option.instrumentToken)) {
+      return 'topRanked';
+    }
+    const sdDistance = option.sd > 0 ? option.strikePosition / option.sd : 0;
+    return sdDistance > FAR_SD_DISTANCE ? 'far' : 'visible';
+  }
+
+  /**
+   * Options among the best of their underlying and expiry by return value or added value
+   */
+  private getTopRanked(options: OptionChain[]) {
+    const byExpiry = new Map<string, OptionChain[]>();
+    for (const option of options) {
+      const key = `${option.name}:${option.expiry}`;
+      byExpiry.set(key, [...(byExpiry.get(key) ?? []), option]);
+    }
+
+    const topRanked = new Set<number>();
+    for (const expiryOptions of byExpiry.values()) {
+      for (const field of ['returnValue', 'addedValue'] as const) {
+        const ranked = expiryOptions.filter((option) => option[field] > 0).sort((a, b) => b[field] - a[field]);
+        for (const option of ranked.slice(0, TOP_RANKED_PER_EXPIRY)) {
+          topRanked.add(option.instrumentToken);
+        }
+      }
+    }
+    return topRanked;
+  }
+}
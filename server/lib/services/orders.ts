@@ -0,0 +1,349 @@
+import { db } from '@server/db';
+import { ordersTable, type OrderStatus } from '@server/db/schema';
+import { logger } from '@server/lib/logger';
+import { getBroker, getOrderBroker, kiteBroker } from '@server/lib/services/broker';
+import { paperBroker } from '@server/lib/services/paper-broker';
+import { positionsService } from '@server/lib/services/positions';
+import { riskLimitsService } from '@server/lib/services/risk-limits';
+import { desc, eq, inArray } from 'drizzle-orm';
+import type { Order, PlaceOrderParams } from 'kiteconnect-ts';
+
+export type TrackedOrder = typeof ordersTable.$inferSelect;
+
+/**
+ * Open order in the Kite order book, with the current best bid and ask of its option
+ */
+export interface OpenOrder {
+  orderId: string;
+  tradingsymbol: string;
+  instrumentToken: number;
+  transactionType: string;
+  quantity: number;
+  filledQuantity: number;
+  pendingQuantity: number;
+  price: number;
+  kiteStatus: string;
+  placedAt: number;
+  /**
+   * 0 when the option has no live data
+   */
+  bid: number;
+  ask: number;
+}
+
+export interface LimitOrder {
+  tradingsymbol: string;
+  transactionType: 'BUY' | 'SELL';
+  /**
+   * In lots
+   */
+  quantity: number;
+  price: number;
+  product?: PlaceOrderParams['product'];
+}
+
+/**
+ * Outcome of closing one short position in a square-off
+ */
+export type SquareOffResult =
+  | { tradingsymbol: string; quantity: number; price: number; orderId: string }
+  | { tradingsymbol: string; quantity: number; price: number; error: string };
+
+type OrderUpdateCallback = (orders: TrackedOrder[]) => void;
+
+const POLL_INTERVAL_MS = 2000;
+const OPEN_STATUSES: OrderStatus[] = ['open', 'partial'];
+
+/**
+ * Map a Kite order status to the lifecycle tracked by the app. Transient states like
+ * PUT ORDER REQ RECEIVED or MODIFY PENDING count as open.
+ */
+export function toOrderStatus(order: Order): OrderStatus {
+  switch (order.status) {
+    case 'COMPLETE':
+      return 'complete';
+    case 'REJECTED':
+      return 'rejected';
+    case 'CANCELLED':
+      return 'cancelled';
+    default:
+      return order.filled_quantity > 0 ? 'partial' : 'open';
+  }
+}
+
+/**
+ * Persists the orders placed from the app and follows them through the Kite order book until they
+ * are complete, rejected or cancelled. The order book is only polled while some orders are open.
+ */
+class OrderService {
+  private callback: OrderUpdateCallback | null = null;
+  private pollTimeout: NodeJS.Timeout | null = null;
+  private failing = false;
+
+  /**
+   * Start polling the order book, calling the callback with the orders whose status changed
+   */
+  start(callback: OrderUpdateCallback) {
+    logger.info('Starting order tracker');
+    this.callback = callback;
+    this.scheduleNextPoll();
+  }
+
+  stop() {
+    if (this.pollTimeout) {
+      clearTimeout(this.pollTimeout);
+      this.pollTimeout = null;
+    }
+    this.callback = null;
+  }
+
+  /**
+   * Place a regular MCX LIMIT order and start tracking it. Sell orders that break a risk limit are rejected.
+   * @param options.skipRiskLimits for orders that only close what was just filled, like the rollback of a strategy,
+   * which must not be blocked by the short exposure limits
+   * @returns the Kite order ID
+   */
+  async placeLimitOrder(order: LimitOrder, { skipRiskLimits = false }: { skipRiskLimits?: boolean } = {}) {
+    const { tradingsymbol, transactionType, quantity, price, product = 'NRML' } = order;
+
+    const violations = skipRiskLimits ? [] : await riskLimitsService.check(order);
+    if (violations.length > 0) {
+      logger.warn(`Order for ${tradingsymbol} rejected by risk limits:`, violations);
+      throw new Error(`Risk limits: ${violations.join('; ')}`);
+    }
+
+    const placeOrderParams: PlaceOrderParams = {
+      exchange: 'MCX',
+      tradingsymbol,
+      transaction_type: transactionType,
+      quantity,
+      product,
+      order_type: 'LIMIT',
+      price,
+    };
+    const broker = await getBroker();
+    logger.info(broker.paper ? 'Placing paper order:' : 'Placing order:', placeOrderParams);
+    const result = await broker.placeOrder(placeOrderParams);
+
+    logger.info(`Order placed successfully: ${result.order_id} for ${tradingsymbol}`);
+
+    // The order is placed at this point, so a failure to track it must not fail the request
+    await this.record({
+      orderId: result.order_id,
+      tradingsymbol,
+      transactionType,
+      quantity,
+      price,
+      paper: broker.paper,
+    }).catch((error) => logger.error(`Failed to record order ${result.order_id}:`, error));
+
+    return result.order_id;
+  }
+
+  /**
+   * Modify the price and/or quantity of an open order. Increasing the quantity of a sell order is checked against the
+   * risk limits like a new order of the added lots.
+   */
+  async modifyOrder(orderId: string, params: { price?: number; quantity?: number }) {
+    const broker = getOrderBroker(orderId);
+
+    if (params.quantity !== undefined) {
+      const order = (await broker.getOrderHistory(orderId)).at(-1);
+      if (order && order.transaction_type === 'SELL' && params.quantity > order.quantity) {
+        const violations = await riskLimitsService.check(
+          {
+            tradingsymbol: order.tradingsymbol,
+            transactionType: 'SELL',
+            quantity: params.quantity,
+            price: params.price ?? order.price,
+          },
+          params.quantity - order.quantity
+        );
+        if (violations.length > 0) {
+          logger.warn(`Modification of order ${orderId} rejected by risk limits:`, violations);
+          throw new Error(`Risk limits: ${violations.join('; ')}`);
+        }
+      }
+    }
+
+    return broker.modifyOrder(orderId, params);
+  }
+
+  /**
+   * Buy back every short option position of an underlying at its best ask.
+   * Positions without a live ask are not closed, and one failed order doesn't stop the others.
+   */
+  async squareOffShorts(underlying: string): Promise<SquareOffResult[]> {
+    const shorts = (await positionsService.getOptionPositions()).filter(
+      (position) => position.underlying === underlying && position.quantity < 0
+    );
+
+    const results: SquareOffResult[] = [];
+    for (const position of shorts) {
+      const order = { tradingsymbol: position.tradingsymbol, quantity: -position.quantity, price: position.ask };
+      if (!position.ask) {
+        results.push({ ...order, error: 'No ask price available' });
+        continue;
+      }
+
+      try {
+        const orderId = await this.placeLimitOrder({
+          ...order,
+          transactionType: 'BUY',
+          // Kite types the product of a position as a plain string
+          product: position.product as LimitOrder['product'],
+        });
+        results.push({ ...order, orderId });
+      } catch (error) {
+        logger.error(`Error squaring off ${position.tradingsymbol}:`, error);
+        results.push({ ...order, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Save an order that was just placed, so it is tracked until it is closed
+   */
+  async record(
+    order: Pick<TrackedOrder, 'orderId' | 'tradingsymbol' | 'transactionType' | 'quantity' | 'price'> &
+      Partial<Pick<TrackedOrder, 'paper'>>
+  ) {
+    const now = Date.now();
+    const [tracked] = await db
+      .insert(ordersTable)
+      .values({ ...order, status: 'open', placedAt: now, updatedAt: now })
+      .returning();
+    this.callback?.([tracked!]);
+    return tracked!;
+  }
+
+  /**
+   * Latest tracked state of the given orders
+   */
+  async getOrdersByIds(orderIds: string[]) {
+    if (orderIds.length === 0) {
+      return [];
+    }
+    return db.select().from(ordersTable).where(inArray(ordersTable.orderId, orderIds));
+  }
+
+  /**
+   * Most recently placed orders first
+   */
+  async getOrders(limit: number) {
+    return db.select().from(ordersTable).orderBy(desc(ordersTable.placedAt)).limit(limit);
+  }
+
+  /**
+   * Today's open MCX orders from the order book of the current broker, including those placed outside the app
+   */
+  async getOpenOrders(): Promise<OpenOrder[]> {
+    const orders = await (await getBroker()).getOrders();
+
+    return orders
+      .filter((order) => order.exchange === 'MCX' && OPEN_STATUSES.includes(toOrderStatus(order)))
+      .map((order) => {
+        const live = positionsService.getLiveOption(order.instrument_token);
+        return {
+          orderId: order.order_id,
+          tradingsymbol: order.tradingsymbol,
+          instrumentToken: order.instrument_token,
+          transactionType: order.transaction_type,
+          quantity: order.quantity,
+          filledQuantity: order.filled_quantity,
+          pendingQuantity: order.pending_quantity,
+          price: order.price,
+          kiteStatus: order.status,
+          placedAt: new Date(order.order_timestamp).getTime(),
+          bid: live?.bid ?? 0,
+          ask: live?.marketDepth?.sell[0]?.price ?? 0,
+        };
+      })
+      .sort((a, b) => b.placedAt - a.placedAt);
+  }
+
+  private scheduleNextPoll() {
+    this.pollTimeout = setTimeout(async () => {
+      await this.poll();
+      if (this.callback) {
+        this.scheduleNextPoll();
+      }
+    }, POLL_INTERVAL_MS);
+  }
+
+  private async poll() {
+    try {
+      const openOrders = await db.select().from(ordersTable).where(inArray(ordersTable.status, OPEN_STATUSES));
+      if (openOrders.length === 0) {
+        return;
+      }
+
+      // Paper orders are followed in the paper order book, whether or not paper trading is still on
+      const kiteOrders = new Map<string, Order>();
+      for (const broker of [kiteBroker, paperBroker]) {
+        if (openOrders.some((order) => order.paper === broker.paper)) {
+          for (const order of await broker.getOrders()) {
+            kiteOrders.set(order.order_id, order);
+          }
+        }
+      }
+      // Kite clears the order book at the end of the day, and unfilled MCX orders lapse with it
+      const startOfDay = new Date().setHours(0, 0, 0, 0);
+
+      const updatedOrders: TrackedOrder[] = [];
+      for (const order of openOrders) {
+        const kiteOrder = kiteOrders.get(order.orderId);
+        let update: Partial<TrackedOrder>;
+
+        if (kiteOrder) {
+          update = {
+            status: toOrderStatus(kiteOrder),
+            kiteStatus: kiteOrder.status,
+            statusMessage: kiteOrder.status_message,
+            filledQuantity: kiteOrder.filled_quantity,
+            averagePrice: kiteOrder.average_price,
+            price: kiteOrder.price,
+            quantity: kiteOrder.quantity,
+          };
+        } else if (order.placedAt < startOfDay) {
+          update = { status: 'cancelled', statusMessage: 'No longer in the order book' };
+        } else {
+          continue;
+        }
+
+        const changed = (Object.keys(update) as (keyof TrackedOrder)[]).some((key) => update[key] !== order[key]);
+        if (!changed) {
+          continue;
+        }
+
+        const [updated] = await db
+          .update(ordersTable)
+          .set({ ...update, updatedAt: Date.now() })
+          .where(eq(ordersTable.orderId, order.orderId))
+          .returning();
+        if (update.status !== order.status) {
+          logger.info(`Order ${order.orderId} (${order.tradingsymbol}) is ${update.status}`);
+        }
+        updatedOrders.push(updated!);
+      }
+
+      if (this.failing) {
+        logger.info('Order tracker recovered');
+        this.failing = false;
+      }
+      if (updatedOrders.length > 0) {
+        this.callback?.(updatedOrders);
+      }
+    } catch (error) {
+      // Log only the first failure, the order book can't be read until the session is restored
+      if (!this.failing) {
+        logger.error('Failed to poll the order book:', error);
+        this.failing = true;
+      }
+    }
+  }
+}
+
+export const orderService = new OrderService();
@@ -0,0 +1,502 @@
+import { db } from '@server/db';
+import {
+  instrumentsTable,
+  paperAccountTable,
+  paperOrdersTable,
+  paperPositionsTable,
+  type PaperOrderStatus,
+} from '@server/db/schema';
+import { logger } from '@server/lib/logger';
+import type { Broker, BrokerMargins } from '@server/lib/services/broker';
+import { CONFIG, type Symbol } from '@server/shared/config';
+import type { OptionChain } from '@shared/types/types';
+import { and, asc, eq, gte, lt, sql } from 'drizzle-orm';
+import type { Order, PlaceOrderParams, Position } from 'kiteconnect-ts';
+import { randomUUID } from 'node:crypto';
+
+type PaperOrder = typeof paperOrdersTable.$inferSelect;
+type PaperPosition = typeof paperPositionsTable.$inferSelect;
+type LiveOptionSource = (instrumentToken: number) => OptionChain | undefined;
+
+/**
+ * Prefix of the IDs of paper orders, which tells them apart from Kite orders
+ */
+const PAPER_ORDER_PREFIX = 'PAPER-';
+const DEFAULT_STARTING_CASH = 10_00_000;
+const FILL_INTERVAL_MS = 500;
+const ACCOUNT_ID = 1;
+
+export function isPaperOrderId(orderId: string) {
+  return orderId.startsWith(PAPER_ORDER_PREFIX);
+}
+
+/**
+ * Paper order in the shape of a Kite order, so it can be tracked like one
+ */
+function toKiteOrder(order: PaperOrder): Order {
+  const unfilledQuantity = order.quantity - order.filledQuantity;
+  return {
+    order_id: order.orderId,
+    parent_order_id: null,
+    exchange_order_id: null,
+    placed_by: 'PAPER',
+    variety: 'regular',
+    status: order.status,
+    tradingsymbol: order.tradingsymbol,
+    exchange: 'MCX',
+    instrument_token: order.instrumentToken,
+    transaction_type: order.transactionType,
+    order_type: 'LIMIT',
+    product: order.product,
+    validity: 'DAY',
+    price: order.price,
+    quantity: order.quantity,
+    trigger_price: 0,
+    average_price: order.averagePrice,
+    pending_quantity: order.status === 'OPEN' ? unfilledQuantity : 0,
+    filled_quantity: order.filledQuantity,
+    disclosed_quantity: 0,
+    order_timestamp: new Date(order.placedAt),
+    exchange_timestamp: null,
+    exchange_update_timestamp: null,
+    status_message: order.statusMessage,
+    status_message_raw: order.statusMessage,
+    cancelled_quantity: order.status === 'CANCELLED' ? unfilledQuantity : 0,
+    meta: {},
+    tag: null,
+    guid: order.orderId,
+    market_protection: 0,
+  };
+}
+
+/**
+ * Paper position in the shape of a Kite net position. Only the fields the app reads are filled in.
+ */
+function toKitePosition(position: PaperPosition, lastPrice: number): Position {
+  const value = -position.quantity * position.averagePrice * position.multiplier;
+  return {
+    tradingsymbol: position.tradingsymbol,
+    exchange: 'MCX',
+    instrument_token: position.instrumentToken,
+    product: position.product,
+    quantity: position.quantity,
+    overnight_quantity: 0,
+    multiplier: position.multiplier,
+    average_price: position.averagePrice,
+    close_price: 0,
+    last_price: lastPrice,
+    value,
+    pnl: (lastPrice - position.averagePrice) * position.quantity * position.multiplier,
+    m2m: 0,
+    unrealised: (lastPrice - position.averagePrice) * position.quantity * position.multiplier,
+    realised: 0,
+    buy_quantity: Math.max(0, position.quantity),
+    buy_price: position.quantity > 0 ? position.averagePrice : 0,
+    buy_value: position.quantity > 0 ? -value : 0,
+    buy_m2m: 0,
+    day_buy_quantity: 0,
+    day_buy_price: 0,
+    day_buy_value: 0,
+    sell_quantity: Math.max(0, -position.quantity),
+    sell_price: position.quantity < 0 ? position.averagePrice : 0,
+    sell_value: position.quantity < 0 ? value : 0,
+    sell_m2m: 0,
+    day_sell_quantity: 0,
+    day_sell_price: 0,
+    day_sell_value: 0,
+  };
+}
+
+/**
+ * Simulates Kite against the live option chain, with its order book, positions and cash in SQLite.
+ *
+ * Open sell orders fill in full at the best bid once it reaches their limit price, and buy orders at
+ * the best ask once it is at or below theirs. Sells that open a short position block the cached
+ * order margin of the option, and are rejected when the available margin doesn't cover it. Premiums
+ * received and paid go to the cash balance. Unfilled orders lapse at the end of the day, like MCX orders.
+ */
+class PaperBroker implements Broker {
+  readonly paper = true;
+
+  private liveOptionSource: LiveOptionSource | null = null;
+  private fillTimeout: NodeJS.Timeout | null = null;
+  private running = false;
+  private failing = false;
+
+  /**
+   * Set the lookup for live option data (set by the coordinator).
+   */
+  setLiveOptionSource(source: LiveOptionSource) {
+    this.liveOptionSource = source;
+  }
+
+  /**
+   * Start matching open paper orders against the live bid and ask
+   */
+  start() {
+    logger.info('Starting paper broker');
+    this.running = true;
+    this.scheduleNextFill();
+  }
+
+  stop() {
+    this.running = false;
+    if (this.fillTimeout) {
+      clearTimeout(this.fillTimeout);
+      this.fillTimeout = null;
+    }
+  }
+
+  async placeOrder(params: PlaceOrderParams) {
+    const [instrument] = await db
+      .select()
+      .from(instrumentsTable)
+      .where(eq(instrumentsTable.tradingsymbol, params.tradingsymbol))
+      .limit(1);
+    if (!instrument) {
+      throw new Error(`Unknown instrument ${params.tradingsymbol}`);
+    }
+    if (params.price === undefined || params.price <= 0) {
+      throw new Error('Paper orders need a limit price');
+    }
+
+    const now = Date.now();
+    const order: PaperOrder = {
+      orderId: `${PAPER_ORDER_PREFIX}${randomUUID()}`,
+      tradingsymbol: params.tradingsymbol,
+      instrumentToken: instrument.instrumentToken,
+      transactionType: params.transaction_type,
+      product: params.product,
+      quantity: params.quantity,
+      price: params.price,
+      status: 'OPEN',
+      statusMessage: null,
+      filledQuantity: 0,
+      averagePrice: 0,
+      placedAt: now,
+      updatedAt: now,
+    };
+
+    // Like Kite, an order without enough margin is accepted and then rejected
+    const rejection = order.transactionType === 'SELL' ? await this.checkMargin(order) : null;
+    if (rejection) {
+      order.status = 'REJECTED';
+      order.statusMessage = rejection;
+    }
+
+    await db.insert(paperOrdersTable).values(order);
+    logger.info(
+      `Paper order ${order.orderId}: ${order.transactionType} ${order.quantity} x ${order.tradingsymbol} @ ${order.price}`
+    );
+
+    if (order.status === 'OPEN') {
+      await this.match(order);
+    }
+    return { order_id: order.orderId };
+  }
+
+  async modifyOrder(orderId: string, params: { price?: number; quantity?: number }) {
+    const order = await this.getOpenOrder(orderId);
+    const quantity = params.quantity ?? order.quantity;
+    if (order.transactionType === 'SELL' && quantity > order.quantity) {
+      // The margin of the current quantity is already blocked, so only the added lots need margin
+      const rejection = await this.checkMargin({ ...order, quantity }, quantity - order.quantity);
+      if (rejection) {
+        throw new Error(rejection);
+      }
+    }
+
+    const [modified] = await db
+      .update(paperOrdersTable)
+      .set({ price: params.price ?? order.price, quantity, updatedAt: Date.now() })
+      .where(eq(paperOrdersTable.orderId, orderId))
+      .returning();
+
+    await this.match(modified!);
+    return { order_id: orderId };
+  }
+
+  async cancelOrder(orderId: string) {
+    await this.getOpenOrder(orderId);
+    await this.setStatus(orderId, 'CANCELLED', 'Cancelled by user');
+    return { order_id: orderId };
+  }
+
+  /**
+   * Today's paper orders
+   */
+  async getOrders() {
+    const orders = await db
+      .select()
+      .from(paperOrdersTable)
+      .where(gte(paperOrdersTable.placedAt, new Date().setHours(0, 0, 0, 0)))
+      .orderBy(asc(paperOrdersTable.placedAt));
+    return orders.map(toKiteOrder);
+  }
+
+  async getOrderHistory(orderId: string) {
+    const [order] = await db.select().from(paperOrdersTable).where(eq(paperOrdersTable.orderId, orderId)).limit(1);
+    if (!order) {
+      throw new Error(`Paper order ${orderId} not found`);
+    }
+    return [toKiteOrder(order)];
+  }
+
+  async getPositions() {
+    const positions = await db.select().from(paperPositionsTable);
+    return positions
+      .filter((position) => position.quantity !== 0)
+      .map((position) => {
+        const live = this.liveOptionSource?.(position.instrumentToken);
+        const lastPrice =
+          (position.quantity < 0 ? live?.marketDepth?.sell[0]?.price : live?.bid) || position.averagePrice;
+        return toKitePosition(position, lastPrice);
+      });
+  }
+
+  async getMargins(): Promise<BrokerMargins> {
+    const { cash } = await this.getAccount();
+    const utilised = await this.getUtilisedMargin();
+    return { net: cash - utilised, utilised };
+  }
+
+  /**
+   * Cash and margin of the paper account
+   */
+  async getAccount() {
+    const [account] = await db.select().from(paperAccountTable).where(eq(paperAccountTable.id, ACCOUNT_ID));
+    if (account) {
+      return account;
+    }
+
+    const [created] = await db
+      .insert(paperAccountTable)
+      .values({ id: ACCOUNT_ID, startingCash: DEFAULT_STARTING_CASH, cash: DEFAULT_STARTING_CASH, resetAt: Date.now() })
+      .returning();
+    return created!;
+  }
+
+  /**
+   * Close all paper positions and cancel the open orders, starting over with the given cash
+   */
+  async reset(startingCash: number) {
+    await this.getAccount();
+    const now = Date.now();
+    await db.transaction(async (tx) => {
+      await tx.delete(paperPositionsTable);
+      await tx
+        .update(paperOrdersTable)
+        .set({ status: 'CANCELLED', statusMessage: 'Paper account reset', updatedAt: now })
+        .where(eq(paperOrdersTable.status, 'OPEN'));
+      await tx
+        .update(paperAccountTable)
+        .set({ startingCash, cash: startingCash, resetAt: now })
+        .where(eq(paperAccountTable.id, ACCOUNT_ID));
+    });
+    logger.info(`Paper account reset with ${startingCash} cash`);
+  }
+
+  private scheduleNextFill() {
+    this.fillTimeout = setTimeout(async () => {
+      await this.matchOpenOrders();
+      if (this.running) {
+        this.scheduleNextFill();
+      }
+    }, FILL_INTERVAL_MS);
+  }
+
+  private async matchOpenOrders() {
+    try {
+      await db
+        .update(paperOrdersTable)
+        .set({ status: 'CANCELLED', statusMessage: 'Lapsed at the end of the day', updatedAt: Date.now() })
+        .where(
+          and(eq(paperOrdersTable.status, 'OPEN'), lt(paperOrdersTable.placedAt, new Date().setHours(0, 0, 0, 0)))
+        );
+
+      const openOrders = await db.select().from(paperOrdersTable).where(eq(paperOrdersTable.status, 'OPEN'));
+      for (const order of openOrders) {
+        await this.match(order);
+      }
+
+      if (this.failing) {
+        logger.info('Paper broker recovered');
+        this.failing = false;
+      }
+    } catch (error) {
+      // Log only the first failure, the same error would be logged on every tick
+      if (!this.failing) {
+        logger.error('Failed to match paper orders:', error);
+        this.failing = true;
+      }
+    }
+  }
+
+  /**
+   * Fill an open order if the live bid (for sells) or ask (for buys) reaches its limit price
+   */
+  private async match(order: PaperOrder) {
+    const live = this.liveOptionSource?.(order.instrumentToken);
+    if (!live) {
+      return;
+    }
+
+    const ask = live.marketDepth?.sell[0]?.price ?? 0;
+    if (order.transactionType === 'SELL' && live.bid > 0 && live.bid >= order.price) {
+      await this.fill(order, live.bid, live.orderMargin);
+    } else if (order.transactionType === 'BUY' && ask > 0 && ask <= order.price) {
+      await this.fill(order, ask, live.orderMargin);
+    }
+  }
+
+  private async fill(order: PaperOrder, price: number, orderMargin: number) {
+    const [instrument] = await db
+      .select({ name: instrumentsTable.name, lotSize: instrumentsTable.lotSize })
+      .from(instrumentsTable)
+      .where(eq(instrumentsTable.instrumentToken, order.instrumentToken))
+      .limit(1);
+    const multiplier = CONFIG[instrument?.name as Symbol]?.multiplier ?? instrument?.lotSize ?? 1;
+    const now = Date.now();
+
+    await this.getAccount();
+    const filled = await db.transaction(async (tx) => {
+      // The order may have been filled by another match, cancelled or modified since it was loaded
+      const [filledOrder] = await tx
+        .update(paperOrdersTable)
+        .set({
+          status: 'COMPLETE',
+          filledQuantity: sql`${paperOrdersTable.quantity}`,
+          averagePrice: price,
+          updatedAt: now,
+        })
+        .where(and(eq(paperOrdersTable.orderId, order.orderId), eq(paperOrdersTable.status, 'OPEN')))
+        .returning();
+      if (!filledOrder) {
+        return null;
+      }
+
+      const signedQuantity = filledOrder.transactionType === 'SELL' ? -filledOrder.quantity : filledOrder.quantity;
+      const [position] = await tx
+        .select()
+        .from(paperPositionsTable)
+        .where(eq(paperPositionsTable.instrumentToken, order.instrumentToken));
+      const quantity = (position?.quantity ?? 0) + signedQuantity;
+
+      let averagePrice = price;
+      if (position && position.quantity !== 0) {
+        if (Math.sign(position.quantity) === Math.sign(signedQuantity)) {
+          averagePrice =
+            (Math.abs(position.quantity) * position.averagePrice + filledOrder.quantity * price) / Math.abs(quantity);
+        } else if (Math.abs(signedQuantity) <= Math.abs(position.quantity)) {
+          // Reducing a position doesn't change the price it was opened at
+          averagePrice = quantity === 0 ? 0 : position.averagePrice;
+        }
+      }
+
+      await tx
+        .insert(paperPositionsTable)
+        .values({
+          instrumentToken: order.instrumentToken,
+          tradingsymbol: order.tradingsymbol,
+          product: order.product,
+          quantity,
+          averagePrice,
+          multiplier,
+          marginPerLot: orderMargin,
+          updatedAt: now,
+        })
+        .onConflictDoUpdate({
+          target: paperPositionsTable.instrumentToken,
+          set: { quantity, averagePrice, marginPerLot: orderMargin || position?.marginPerLot || 0, updatedAt: now },
+        });
+
+      await tx
+        .update(paperAccountTable)
+        .set({ cash: sql`${paperAccountTable.cash} - ${signedQuantity * price * multiplier}` })
+        .where(eq(paperAccountTable.id, ACCOUNT_ID));
+
+      return filledOrder;
+    });
+
+    if (filled) {
+      logger.info(
+        `Paper order ${filled.orderId} filled: ${filled.transactionType} ${filled.quantity} x ${filled.tradingsymbol} @ ${price}`
+      );
+    }
+  }
+
+  /**
+   * @param addedQuantity lots the order adds, less than its quantity when it is increased by a modification
+   * @returns why a sell order can't be placed, or null when the available margin covers the short it opens
+   */
+  private async checkMargin(order: PaperOrder, addedQuantity = order.quantity) {
+    const [position] = await db
+      .select()
+      .from(paperPositionsTable)
+      .where(eq(paperPositionsTable.instrumentToken, order.instrumentToken));
+    // Selling what is held long needs no margin
+    const shortQuantity = Math.min(addedQuantity, order.quantity - Math.max(0, position?.quantity ?? 0));
+    if (shortQuantity <= 0) {
+      return null;
+    }
+
+    const orderMargin = this.liveOptionSource?.(order.instrumentToken)?.orderMargin ?? 0;
+    if (orderMargin <= 0) {
+      return 'Margin of the option is not known yet';
+    }
+
+    const required = orderMargin * shortQuantity;
+    const { net } = await this.getMargins();
+    if (required > net) {
+      return `Insufficient paper margin: ${required.toFixed(0)} required, ${net.toFixed(0)} available`;
+    }
+    return null;
+  }
+
+  /**
+   * Margin blocked by short positions and open sell orders, at the current order margin of each option
+   */
+  private async getUtilisedMargin() {
+    const marginPerLot = (instrumentToken: number, fallback: number) =>
+      this.liveOptionSource?.(instrumentToken)?.orderMargin || fallback;
+
+    const positions = await db.select().from(paperPositionsTable);
+    const positionsMargin = positions
+      .filter((position) => position.quantity < 0)
+      .reduce(
+        (sum, position) => sum + -position.quantity * marginPerLot(position.instrumentToken, position.marginPerLot),
+        0
+      );
+
+    const openSellOrders = await db
+      .select()
+      .from(paperOrdersTable)
+      .where(and(eq(paperOrdersTable.status, 'OPEN'), eq(paperOrdersTable.transactionType, 'SELL')));
+    const ordersMargin = openSellOrders.reduce(
+      (sum, order) => sum + order.quantity * marginPerLot(order.instrumentToken, 0),
+      0
+    );
+
+    return positionsMargin + ordersMargin;
+  }
+
+  private async getOpenOrder(orderId: string) {
+    const [order] = await db.select().from(paperOrdersTable).where(eq(paperOrdersTable.orderId, orderId)).limit(1);
+    if (!order) {
+      throw new Error(`Paper order ${orderId} not found`);
+    }
+    if (order.status !== 'OPEN') {
+      throw new Error(`Order is ${order.status.toLowerCase()}`);
+    }
+    return order;
+  }
+
+  private async setStatus(orderId: string, status: PaperOrderStatus, statusMessage: string) {
+    await db
+      .update(paperOrdersTable)
+      .set({ status, statusMessage, updatedAt: Date.now() })
+      .where(eq(paperOrdersTable.orderId, orderId));
+  }
+}
+
+export const paperBroker = new PaperBroker();
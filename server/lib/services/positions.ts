@@ -0,0 +1,206 @@
+import { db } from '@server/db';
+import { instrumentsTable } from '@server/db/schema';
+import { logger } from '@server/lib/logger';
+import { getBroker } from '@server/lib/services/broker';
+import { CONFIG, type Symbol } from '@server/shared/config';
+import type { OptionChain } from '@shared/types/types';
+import { inArray } from 'drizzle-orm';
+import type { Position } from 'kiteconnect-ts';
+
+// Positions only change when orders fill, so there is no need to hit Kite on every request
+const POSITIONS_CACHE_MS = 5000;
+
+export interface OptionPosition {
+  tradingsymbol: string;
+  instrumentToken: number;
+  underlying: string;
+  expiry: string;
+  strike: number;
+  instrumentType: 'CE' | 'PE';
+  product: string;
+  /**
+   * Net quantity in lots, negative for short positions
+   */
+  quantity: number;
+  averagePrice: number;
+  /**
+   * Value of a price move of 1 per lot (from Kite)
+   */
+  multiplier: number;
+  lastPrice: number;
+  bid: number;
+  ask: number;
+  /**
+   * Unrealised P&L, marking shorts at the best ask and longs at the best bid (the price they would close at),
+   * or at the last price when there is no quote
+   */
+  mtm: number;
+  /**
+   * Delta of one option, 0 when the option isn't priced yet
+   */
+  delta: number;
+  /**
+   * Net delta of the position in lots of the underlying (quantity × delta)
+   */
+  deltaExposure: number;
+  /**
+   * Greeks of one option, 0 when the option isn't priced yet
+   */
+  gamma: number;
+  vega: number;
+  thetaPerDay: number;
+  /**
+   * LTP of the underlying future, 0 when the option isn't priced yet
+   */
+  underlyingLtp: number;
+  /**
+   * Annual volatility (%) the option is priced at, 0 when the option isn't priced yet
+   */
+  av: number;
+  /**
+   * Margin blocked by short positions (order margin per lot × lots)
+   */
+  margin: number;
+  /**
+   * Whether bid, ask, delta and margin come from a live option chain row
+   */
+  live: boolean;
+}
+
+/**
+ * Units of the underlying per lot. Symbols outside the config fall back to Kite's multiplier.
+ */
+export function getPositionMultiplier(position: OptionPosition) {
+  return CONFIG[position.underlying as Symbol]?.multiplier ?? position.multiplier;
+}
+
+type LiveOptionSource = (instrumentToken: number) => OptionChain | undefined;
+type WatchCallback = (instrumentTokens: number[]) => void;
+
+/**
+ * Open MCX option positions from Kite, joined to their live option chain rows.
+ *
+ * Positions outside the SD range have no option chain row, so their tokens are handed to the
+ * watch callback, which subscribes them separately in the workers.
+ */
+class PositionsService {
+  private cache: { positions: Position[]; paper: boolean; fetchedAt: number } | null = null;
+  private liveOptionSource: LiveOptionSource | null = null;
+  private watchCallback: WatchCallback | null = null;
+  private watchedTokens: number[] = [];
+
+  /**
+   * Set the lookup for live option data (set by the coordinator).
+   */
+  setLiveOptionSource(source: LiveOptionSource) {
+    this.liveOptionSource = source;
+  }
+
+  /**
+   * Set the callback used to subscribe the options of open positions (set by the coordinator).
+   */
+  setWatchCallback(callback: WatchCallback) {
+    this.watchCallback = callback;
+  }
+
+  /**
+   * Latest option chain data of an option, if it is in the SD range or watched
+   */
+  getLiveOption(instrumentToken: number) {
+    return this.liveOptionSource?.(instrumentToken);
+  }
+
+  /**
+   * Open MCX net positions, futures as well as options
+   */
+  async getOpenPositions() {
+    return (await this.fetchPositions()).filter((p) => p.exchange === 'MCX' && p.quantity !== 0);
+  }
+
+  async getOptionPositions(): Promise<OptionPosition[]> {
+    const positions = await this.getOpenPositions();
+    if (positions.length === 0) {
+      this.updateWatchedTokens([]);
+      return [];
+    }
+
+    const instruments = await db
+      .select()
+      .from(instrumentsTable)
+      .where(
+        inArray(
+          instrumentsTable.instrumentToken,
+          positions.map((p) => p.instrument_token)
+        )
+      );
+    const instrumentsByToken = new Map(instruments.map((instrument) => [instrument.instrumentToken, instrument]));
+
+    const optionPositions: OptionPosition[] = [];
+    for (const position of positions) {
+      const instrument = instrumentsByToken.get(position.instrument_token);
+      if (!instrument || (instrument.instrumentType !== 'CE' && instrument.instrumentType !== 'PE')) {
+        continue;
+      }
+
+      const live = this.getLiveOption(position.instrument_token);
+      const bid = live?.bid ?? 0;
+      const ask = live?.marketDepth?.sell[0]?.price ?? 0;
+      const markPrice = (position.quantity < 0 ? ask : bid) || position.last_price;
+      const delta = live?.delta ?? 0;
+
+      optionPositions.push({
+        tradingsymbol: position.tradingsymbol,
+        instrumentToken: position.instrument_token,
+        underlying: instrument.name,
+        expiry: instrument.expiry,
+        strike: instrument.strike!,
+        instrumentType: instrument.instrumentType,
+        product: position.product,
+        quantity: position.quantity,
+        averagePrice: position.average_price,
+        multiplier: position.multiplier,
+        lastPrice: position.last_price,
+        bid,
+        ask,
+        mtm: (markPrice - position.average_price) * position.quantity * position.multiplier,
+        delta,
+        deltaExposure: position.quantity * delta,
+        gamma: live?.gamma ?? 0,
+        vega: live?.vega ?? 0,
+        thetaPerDay: live?.thetaPerDay ?? 0,
+        underlyingLtp: live?.underlyingLtp ?? 0,
+        av: live?.av ?? 0,
+        margin: position.quantity < 0 ? (live?.orderMargin ?? 0) * -position.quantity : 0,
+        live: live !== undefined,
+      });
+    }
+
+    this.updateWatchedTokens(optionPositions.map((p) => p.instrumentToken));
+    return optionPositions;
+  }
+
+  private async fetchPositions() {
+    const broker = await getBroker();
+    // Switching paper trading on or off must not serve the positions of the other broker
+    if (this.cache && this.cache.paper === broker.paper && Date.now() - this.cache.fetchedAt < POSITIONS_CACHE_MS) {
+      return this.cache.positions;
+    }
+
+    const positions = await broker.getPositions();
+    this.cache = { positions, paper: broker.paper, fetchedAt: Date.now() };
+    return positions;
+  }
+
+  private updateWatchedTokens(tokens: number[]) {
+    const sorted = [...tokens].sort((a, b) => a - b);
+    if (sorted.join(',') === this.watchedTokens.join(',')) {
+      return;
+    }
+
+    this.watchedTokens = sorted;
+    logger.info(`Watching ${sorted.length} option positions`);
+    this.watchCallback?.(sorted);
+  }
+}
+
+export const positionsService = new PositionsService();
@@ -0,0 +1,145 @@
+import { db } from '@server/db';
+import { instrumentsTable, ordersTable } from '@server/db/schema';
+import { getBroker } from '@server/lib/services/broker';
+import type { LimitOrder } from '@server/lib/services/orders';
+import { positionsService } from '@server/lib/services/positions';
+import { settingsService, type RiskLimits } from '@server/lib/services/settings';
+import { and, eq, inArray } from 'drizzle-orm';
+
+/**
+ * Checks new sell orders against the risk limits in the settings before they are sent to Kite.
+ * Buy orders only reduce short positions, so they are never blocked.
+ */
+class RiskLimitsService {
+  /**
+   * @param addedQuantity lots the order adds to the short exposure, less than its quantity when an open order is
+   * increased, as its current lots are already counted
+   * @returns a description of each limit the order would break, empty when it can be placed
+   */
+  async check(order: LimitOrder, addedQuantity = order.quantity): Promise<string[]> {
+    if (order.transactionType !== 'SELL') {
+      return [];
+    }
+
+    const limits = await settingsService.getRiskLimits();
+    const violations: string[] = [];
+
+    if (limits.maxLotsPerOrder > 0 && order.quantity > limits.maxLotsPerOrder) {
+      violations.push(`${order.quantity} lots is more than the limit of ${limits.maxLotsPerOrder} lots per order`);
+    }
+
+    if (!Object.entries(limits).some(([field, value]) => field !== 'maxLotsPerOrder' && value > 0)) {
+      return violations;
+    }
+
+    const [instrument] = await db
+      .select()
+      .from(instrumentsTable)
+      .where(eq(instrumentsTable.tradingsymbol, order.tradingsymbol))
+      .limit(1);
+    if (!instrument) {
+      violations.push(`${order.tradingsymbol} is not a known instrument`);
+      return violations;
+    }
+
+    if (limits.maxLotsPerUnderlying > 0) {
+      const shortLots = (await this.getShortLots(instrument.name)) + addedQuantity;
+      if (shortLots > limits.maxLotsPerUnderlying) {
+        violations.push(
+          `${shortLots} short lots of ${instrument.name} including open orders is more than the limit of ` +
+            `${limits.maxLotsPerUnderlying} lots per underlying`
+        );
+      }
+    }
+
+    violations.push(...(await this.checkOption(instrument.instrumentToken, addedQuantity, limits)));
+
+    return violations;
+  }
+
+  /**
+   * Check the limits that depend on the live data of the option
+   */
+  private async checkOption(instrumentToken: number, quantity: number, limits: RiskLimits) {
+    const violations: string[] = [];
+    const live = positionsService.getLiveOption(instrumentToken);
+    if (!live) {
+      if (limits.minStrikePosition > 0 || limits.minSdDistance > 0 || limits.maxDelta > 0) {
+        violations.push('No live data to check the strike and delta limits against');
+      }
+      if (limits.maxMarginUtilisationPct > 0) {
+        violations.push('No live data to check the margin limit against');
+      }
+      return violations;
+    }
+
+    if (limits.minStrikePosition > 0 && live.strikePosition < limits.minStrikePosition) {
+      violations.push(
+        `Strike is ${live.strikePosition.toFixed(2)}% from the future, closer than the minimum of ` +
+          `${limits.minStrikePosition}%`
+      );
+    }
+
+    if (limits.minSdDistance > 0) {
+      const sdDistance = live.sd > 0 ? live.strikePosition / live.sd : 0;
+      if (sdDistance < limits.minSdDistance) {
+        violations.push(
+          `Strike is ${sdDistance.toFixed(2)} SD from the future, closer than the minimum of ${limits.minSdDistance} SD`
+        );
+      }
+    }
+
+    if (limits.maxDelta > 0 && Math.abs(live.delta) > limits.maxDelta) {
+      violations.push(`Delta of ${Math.abs(live.delta).toFixed(4)} is above the limit of ${limits.maxDelta}`);
+    }
+
+    if (limits.maxMarginUtilisationPct > 0) {
+      if (live.orderMargin <= 0) {
+        violations.push('Margin of the option is not known yet to check the margin limit against');
+      } else {
+        const margins = await (await getBroker()).getMargins();
+        const orderMargin = live.orderMargin * quantity;
+        const accountMargin = margins.net + margins.utilised;
+        const utilisation = accountMargin > 0 ? ((margins.utilised + orderMargin) / accountMargin) * 100 : 100;
+        if (utilisation > limits.maxMarginUtilisationPct) {
+          violations.push(
+            `Margin utilisation would be ${utilisation.toFixed(1)}%, above the limit of ` +
+              `${limits.maxMarginUtilisationPct}%`
+          );
+        }
+      }
+    }
+
+    return violations;
+  }
+
+  /**
+   * Lots an underlying is short, in positions and in the unfilled part of open sell orders, with the broker new
+   * orders go to
+   */
+  private async getShortLots(underlying: string) {
+    const { paper } = await getBroker();
+    const positions = await positionsService.getOptionPositions();
+    const positionLots = positions
+      .filter((position) => position.underlying === underlying && position.quantity < 0)
+      .reduce((sum, position) => sum + -position.quantity, 0);
+
+    const openSellOrders = await db
+      .select({ quantity: ordersTable.quantity, filledQuantity: ordersTable.filledQuantity })
+      .from(ordersTable)
+      .innerJoin(instrumentsTable, eq(ordersTable.tradingsymbol, instrumentsTable.tradingsymbol))
+      .where(
+        and(
+          eq(ordersTable.transactionType, 'SELL'),
+          inArray(ordersTable.status, ['open', 'partial']),
+          eq(ordersTable.paper, paper),
+          eq(instrumentsTable.name, underlying)
+        )
+      );
+    const orderLots = openSellOrders.reduce((sum, order) => sum + order.quantity - order.filledQuantity, 0);
+
+    return positionLots + orderLots;
+  }
+}
+
+export const riskLimitsService = new RiskLimitsService();
@@ -0,0 +1,156 @@
+import { logger } from '@server/lib/logger';
+import { getPositionMultiplier, positionsService } from '@server/lib/services/positions';
+
+const REFRESH_INTERVAL_MS = 1000;
+
+export interface RiskGreeks {
+  /**
+   * Net delta in lots of the underlying
+   */
+  deltaLots: number;
+  /**
+   * Net delta as underlying value (lots × multiplier × underlying LTP)
+   */
+  deltaValue: number;
+  /**
+   * Change of the net delta in lots for a 1% move of the underlying
+   */
+  gamma: number;
+  /**
+   * P&L for a 1% rise in volatility
+   */
+  vega: number;
+  /**
+   * P&L from one market day of time decay
+   */
+  theta: number;
+}
+
+export interface UnderlyingRisk extends RiskGreeks {
+  underlying: string;
+  positions: number;
+}
+
+export interface PortfolioRisk {
+  underlyings: UnderlyingRisk[];
+  total: RiskGreeks;
+  /**
+   * Positions whose option has no live data yet, so their greeks are counted as 0
+   */
+  unpricedPositions: number;
+  /**
+   * Unix timestamp in milliseconds at which the risk was computed
+   */
+  updatedAt: number;
+}
+
+type RiskCallback = (risk: PortfolioRisk) => void;
+
+const emptyGreeks = (): RiskGreeks => ({ deltaLots: 0, deltaValue: 0, gamma: 0, vega: 0, theta: 0 });
+
+/**
+ * Aggregates the greeks of the open option positions per underlying and across the portfolio.
+ */
+class RiskService {
+  private callback: RiskCallback | null = null;
+  private refreshTimeout: NodeJS.Timeout | null = null;
+  private latestKey = '';
+  private failing = false;
+
+  /**
+   * Recompute the risk every second, calling the callback whenever it changes
+   * (positions are cached by the positions service, so this doesn't hit Kite every second)
+   */
+  start(callback: RiskCallback) {
+    logger.info('Starting portfolio risk aggregation');
+    this.callback = callback;
+    this.scheduleNextRefresh();
+  }
+
+  stop() {
+    if (this.refreshTimeout) {
+      clearTimeout(this.refreshTimeout);
+      this.refreshTimeout = null;
+    }
+    this.callback = null;
+  }
+
+  async getRisk(): Promise<PortfolioRisk> {
+    const positions = await positionsService.getOptionPositions();
+
+    const byUnderlying = new Map<string, UnderlyingRisk>();
+    const total = emptyGreeks();
+    let unpricedPositions = 0;
+
+    for (const position of positions) {
+      if (!position.live) {
+        unpricedPositions++;
+      }
+
+      let risk = byUnderlying.get(position.underlying);
+      if (!risk) {
+        risk = { underlying: position.underlying, positions: 0, ...emptyGreeks() };
+        byUnderlying.set(position.underlying, risk);
+      }
+
+      const multiplier = getPositionMultiplier(position);
+      const greeks: RiskGreeks = {
+        deltaLots: position.deltaExposure,
+        deltaValue: position.deltaExposure * multiplier * position.underlyingLtp,
+        gamma: position.quantity * position.gamma * (position.underlyingLtp / 100),
+        vega: position.quantity * position.vega * multiplier,
+        theta: position.quantity * position.thetaPerDay * multiplier,
+      };
+
+      risk.positions++;
+      for (const key of Object.keys(greeks) as (keyof RiskGreeks)[]) {
+        risk[key] += greeks[key];
+        total[key] += greeks[key];
+      }
+    }
+
+    return {
+      underlyings: Array.from(byUnderlying.values()).sort((a, b) => a.underlying.localeCompare(b.underlying)),
+      total,
+      unpricedPositions,
+      updatedAt: Date.now(),
+    };
+  }
+
+  private scheduleNextRefresh() {
+    this.refreshTimeout = setTimeout(async () => {
+      await this.refresh();
+      if (this.callback) {
+        this.scheduleNextRefresh();
+      }
+    }, REFRESH_INTERVAL_MS);
+  }
+
+  private async refresh() {
+    let risk: PortfolioRisk;
+    try {
+      risk = await this.getRisk();
+    } catch (error) {
+      // Log only the first failure, the positions can't be fetched until the session is restored
+      if (!this.failing) {
+        logger.error('Failed to compute portfolio risk:', error);
+        this.failing = true;
+      }
+      return;
+    }
+
+    if (this.failing) {
+      logger.info('Portfolio risk aggregation recovered');
+      this.failing = false;
+    }
+
+    const { updatedAt: _, ...values } = risk;
+    const key = JSON.stringify(values);
+    if (key !== this.latestKey) {
+      this.latestKey = key;
+      this.callback?.(risk);
+    }
+  }
+}
+
+export const riskService = new RiskService();
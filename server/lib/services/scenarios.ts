@@ -0,0 +1,121 @@
+import { workingDaysCache } from '@server/lib/market-minutes-cache';
+import { getPositionMultiplier, positionsService } from '@server/lib/services/positions';
+import { settingsService } from '@server/lib/services/settings';
+import { PRICING_MODELS } from '@server/lib/utils/pricing-models';
+
+/**
+ * Default moves of the underlying, in %
+ */
+export const DEFAULT_UNDERLYING_MOVES = [-10, -7.5, -5, -3, -2, -1, 0, 1, 2, 3, 5, 7.5, 10];
+
+/**
+ * Default shifts of the annual volatility, in percentage points
+ */
+export const DEFAULT_IV_SHIFTS = [-10, -5, -2.5, 0, 2.5, 5, 10, 20];
+
+// Volatility used when a negative shift would take it to or below zero
+const MIN_VOLATILITY = 1;
+
+export interface ScenarioParams {
+  underlyingMoves: number[];
+  ivShifts: number[];
+  /**
+   * Calendar days to move forward, counted in market minutes
+   */
+  daysForward: number;
+}
+
+/**
+ * P&L per scenario, indexed as pnl[underlying move][IV shift]
+ */
+export type ScenarioGrid = number[][];
+
+export interface UnderlyingScenarios {
+  underlying: string;
+  positions: number;
+  pnl: ScenarioGrid;
+}
+
+export interface ScenarioResult extends ScenarioParams {
+  underlyings: UnderlyingScenarios[];
+  total: ScenarioGrid;
+  /**
+   * Positions that couldn't be repriced because their option has no live data yet
+   */
+  skippedPositions: string[];
+}
+
+const emptyGrid = (params: ScenarioParams): ScenarioGrid =>
+  params.underlyingMoves.map(() => params.ivShifts.map(() => 0));
+
+/**
+ * Reprices the open option positions under a grid of underlying moves and volatility shifts.
+ *
+ * Every position is repriced with the selected pricing model from its own underlying LTP and volatility,
+ * so the P&L of a scenario is the change of the model value (0 for no move, no shift and no days forward).
+ */
+class ScenarioService {
+  async run(params: ScenarioParams): Promise<ScenarioResult> {
+    const [positions, pricingModelName, riskFreeRate] = await Promise.all([
+      positionsService.getOptionPositions(),
+      settingsService.getPricingModel(),
+      settingsService.getRiskFreeRate(),
+    ]);
+    const pricingModel = PRICING_MODELS[pricingModelName];
+    const marketMinutesInLastYear = workingDaysCache.getMarketMinutesInLastYear();
+
+    const byUnderlying = new Map<string, UnderlyingScenarios>();
+    const total = emptyGrid(params);
+    const skippedPositions: string[] = [];
+
+    for (const position of positions) {
+      if (!position.underlyingLtp || !position.av) {
+        skippedPositions.push(position.tradingsymbol);
+        continue;
+      }
+
+      let scenarios = byUnderlying.get(position.underlying);
+      if (!scenarios) {
+        scenarios = { underlying: position.underlying, positions: 0, pnl: emptyGrid(params) };
+        byUnderlying.set(position.underlying, scenarios);
+      }
+      scenarios.positions++;
+
+      const currentT = workingDaysCache.getMarketMinutesTillExpiry(position.expiry) / marketMinutesInLastYear;
+      const scenarioT =
+        workingDaysCache.getMarketMinutesTillExpiryInDays(position.expiry, params.daysForward) /
+        marketMinutesInLastYear;
+      const price = (underlyingPrice: number, volatility: number, timeToExpiry: number) =>
+        pricingModel.calculateGreeks(
+          underlyingPrice,
+          position.strike,
+          volatility / 100,
+          timeToExpiry,
+          position.instrumentType,
+          riskFreeRate
+        ).price;
+
+      const currentPrice = price(position.underlyingLtp, position.av, currentT);
+      const value = position.quantity * getPositionMultiplier(position);
+
+      params.underlyingMoves.forEach((move, i) => {
+        const underlyingPrice = position.underlyingLtp * (1 + move / 100);
+        params.ivShifts.forEach((shift, j) => {
+          const volatility = Math.max(position.av + shift, MIN_VOLATILITY);
+          const pnl = (price(underlyingPrice, volatility, scenarioT) - currentPrice) * value;
+          scenarios.pnl[i]![j]! += pnl;
+          total[i]![j]! += pnl;
+        });
+      });
+    }
+
+    return {
+      ...params,
+      underlyings: Array.from(byUnderlying.values()).sort((a, b) => a.underlying.localeCompare(b.underlying)),
+      total,
+      skippedPositions,
+    };
+  }
+}
+
+export const scenarioService = new ScenarioService();
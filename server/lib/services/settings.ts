@@ -1,16 +1,70 @@
 import { db } from '@server/db';
 import { settingsTable } from '@server/db/schema';
 import { logger } from '@server/lib/logger';
-import { CONFIG, NUMERIC_VIX_SYMBOLS, type Symbol } from '@server/shared/config';
+import { DEFAULT_RISK_FREE_RATE } from '@server/lib/utils/delta';
+import { DEFAULT_PRICING_MODEL, isPricingModelName, type PricingModelName } from '@server/lib/utils/pricing-models';
+import { DEFAULT_SCORE_WEIGHTS, SCORE_FIELD_NAMES, type ScoreWeights } from '@server/lib/utils/scoring';
+import { CONFIG, NUMERIC_VIX_SYMBOLS, PAGE_GROUPS, type PageId, type Symbol } from '@server/shared/config';
 import { eq } from 'drizzle-orm';
+import { constantCase } from 'es-toolkit';
 
 /**
  * Settings keys used in the application.
  */
 export const SETTINGS_KEYS = {
   SD_MULTIPLIER: 'SD_MULTIPLIER',
+  PRICING_MODEL: 'PRICING_MODEL',
+  RISK_FREE_RATE: 'RISK_FREE_RATE',
+  SNAPSHOT_INTERVAL_SECONDS: 'SNAPSHOT_INTERVAL_SECONDS',
+  SNAPSHOT_RETENTION_DAYS: 'SNAPSHOT_RETENTION_DAYS',
+  RISK_MAX_LOTS_PER_ORDER: 'RISK_MAX_LOTS_PER_ORDER',
+  RISK_MAX_LOTS_PER_UNDERLYING: 'RISK_MAX_LOTS_PER_UNDERLYING',
+  RISK_MAX_MARGIN_UTILISATION_PCT: 'RISK_MAX_MARGIN_UTILISATION_PCT',
+  RISK_MIN_STRIKE_POSITION: 'RISK_MIN_STRIKE_POSITION',
+  RISK_MIN_SD_DISTANCE: 'RISK_MIN_SD_DISTANCE',
+  RISK_MAX_DELTA: 'RISK_MAX_DELTA',
+  PAPER_TRADING: 'PAPER_TRADING',
 } as const;
 
+const DEFAULT_SNAPSHOT_INTERVAL_SECONDS = 60;
+const DEFAULT_SNAPSHOT_RETENTION_DAYS = 30;
+
+/**
+ * Pre-trade limits on new sell orders. A limit of 0 is disabled.
+ */
+export interface RiskLimits {
+  maxLotsPerOrder: number;
+  /**
+   * Short lots across all options of an underlying, including open sell orders
+   */
+  maxLotsPerUnderlying: number;
+  /**
+   * Margin in use after the order, as a % of the account margin (available net plus utilised)
+   */
+  maxMarginUtilisationPct: number;
+  /**
+   * Distance of the strike from the future, in %
+   */
+  minStrikePosition: number;
+  /**
+   * Distance of the strike from the future, in SDs till expiry
+   */
+  minSdDistance: number;
+  /**
+   * Absolute delta of the option
+   */
+  maxDelta: number;
+}
+
+const RISK_LIMIT_KEYS: Record<keyof RiskLimits, string> = {
+  maxLotsPerOrder: SETTINGS_KEYS.RISK_MAX_LOTS_PER_ORDER,
+  maxLotsPerUnderlying: SETTINGS_KEYS.RISK_MAX_LOTS_PER_UNDERLYING,
+  maxMarginUtilisationPct: SETTINGS_KEYS.RISK_MAX_MARGIN_UTILISATION_PCT,
+  minStrikePosition: SETTINGS_KEYS.RISK_MIN_STRIKE_POSITION,
+  minSdDistance: SETTINGS_KEYS.RISK_MIN_SD_DISTANCE,
+  maxDelta: SETTINGS_KEYS.RISK_MAX_DELTA,
+};
+
 /**
  * Generate settings key for a commodity setting.
  */
@@ -18,6 +72,13 @@ function commodityKey(symbol: Symbol, field: 'VIX' | 'BIDBALANCE' | 'MULTIPLIER'
   return `${field}_${symbol}`;
 }
 
+/**
+ * Generate settings key for the weight of a field in the score of a page, e.g. SCORE_GOLD_RETURN_VALUE
+ */
+function scoreKey(page: PageId, field: keyof ScoreWeights): string {
+  return `SCORE_${constantCase(page)}_${constantCase(field)}`;
+}
+
 /**
  * Get all symbols from CONFIG.
  */
@@ -29,8 +90,27 @@ const ALL_SYMBOLS = Object.keys(CONFIG) as Symbol[];
 function buildDefaultValues(): Record<string, string> {
   const defaults: Record<string, string> = {
     [SETTINGS_KEYS.SD_MULTIPLIER]: '2.05',
+    [SETTINGS_KEYS.PRICING_MODEL]: DEFAULT_PRICING_MODEL,
+    [SETTINGS_KEYS.RISK_FREE_RATE]: String(DEFAULT_RISK_FREE_RATE),
+    [SETTINGS_KEYS.SNAPSHOT_INTERVAL_SECONDS]: String(DEFAULT_SNAPSHOT_INTERVAL_SECONDS),
+    [SETTINGS_KEYS.SNAPSHOT_RETENTION_DAYS]: String(DEFAULT_SNAPSHOT_RETENTION_DAYS),
   };
 
+  // Orders go to Kite until paper trading is turned on
+  defaults[SETTINGS_KEYS.PAPER_TRADING] = 'false';
+
+  // Risk limits are disabled until they are set
+  for (const key of Object.values(RISK_LIMIT_KEYS)) {
+    defaults[key] = '0';
+  }
+
+  // Pages rank by added value until their score weights are set
+  for (const page of Object.keys(PAGE_GROUPS) as PageId[]) {
+    for (const field of SCORE_FIELD_NAMES) {
+      defaults[scoreKey(page, field)] = String(DEFAULT_SCORE_WEIGHTS[field]);
+    }
+  }
+
   for (const symbol of ALL_SYMBOLS) {
     const config = CONFIG[symbol];
 
@@ -128,6 +208,131 @@ class SettingsService {
     await this.set(SETTINGS_KEYS.SD_MULTIPLIER, value.toString());
   }
 
+  // ==================== Pricing ====================
+
+  /**
+   * Get the option pricing model used for delta, greeks and implied volatility.
+   */
+  async getPricingModel(): Promise<PricingModelName> {
+    const value = await this.get(SETTINGS_KEYS.PRICING_MODEL);
+    return value !== null && isPricingModelName(value) ? value : DEFAULT_PRICING_MODEL;
+  }
+
+  /**
+   * Set the option pricing model.
+   */
+  async setPricingModel(value: PricingModelName): Promise<void> {
+    await this.set(SETTINGS_KEYS.PRICING_MODEL, value);
+  }
+
+  /**
+   * Get the annualised risk-free rate as a fraction (e.g. 0.07 for 7%).
+   */
+  async getRiskFreeRate(): Promise<number> {
+    return this.getNumber(SETTINGS_KEYS.RISK_FREE_RATE, DEFAULT_RISK_FREE_RATE);
+  }
+
+  /**
+   * Set the annualised risk-free rate as a fraction.
+   */
+  async setRiskFreeRate(value: number): Promise<void> {
+    await this.set(SETTINGS_KEYS.RISK_FREE_RATE, value.toString());
+  }
+
+  // ==================== Snapshots ====================
+
+  /**
+   * Get the interval between option chain snapshots, in seconds.
+   */
+  async getSnapshotIntervalSeconds(): Promise<number> {
+    return this.getNumber(SETTINGS_KEYS.SNAPSHOT_INTERVAL_SECONDS, DEFAULT_SNAPSHOT_INTERVAL_SECONDS);
+  }
+
+  /**
+   * Set the interval between option chain snapshots, in seconds.
+   */
+  async setSnapshotIntervalSeconds(value: number): Promise<void> {
+    await this.set(SETTINGS_KEYS.SNAPSHOT_INTERVAL_SECONDS, value.toString());
+  }
+
+  /**
+   * Get the number of days option chain snapshots are kept for.
+   */
+  async getSnapshotRetentionDays(): Promise<number> {
+    return this.getNumber(SETTINGS_KEYS.SNAPSHOT_RETENTION_DAYS, DEFAULT_SNAPSHOT_RETENTION_DAYS);
+  }
+
+  /**
+   * Set the number of days option chain snapshots are kept for.
+   */
+  async setSnapshotRetentionDays(value: number): Promise<void> {
+    await this.set(SETTINGS_KEYS.SNAPSHOT_RETENTION_DAYS, value.toString());
+  }
+
+  // ==================== Risk Limits ====================
+
+  /**
+   * Get the pre-trade risk limits, 0 for the disabled ones.
+   */
+  async getRiskLimits(): Promise<RiskLimits> {
+    const limits = {} as RiskLimits;
+    for (const [field, key] of Object.entries(RISK_LIMIT_KEYS) as [keyof RiskLimits, string][]) {
+      limits[field] = await this.getNumber(key, 0);
+    }
+    return limits;
+  }
+
+  /**
+   * Update some of the pre-trade risk limits.
+   */
+  async setRiskLimits(updates: Partial<RiskLimits>): Promise<void> {
+    for (const [field, value] of Object.entries(updates) as [keyof RiskLimits, number | undefined][]) {
+      if (value !== undefined) {
+        await this.set(RISK_LIMIT_KEYS[field], value.toString());
+      }
+    }
+  }
+
+  // ==================== Paper Trading ====================
+
+  /**
+   * Whether orders are placed with the paper broker instead of Kite.
+   */
+  async getPaperTrading(): Promise<boolean> {
+    return (await this.get(SETTINGS_KEYS.PAPER_TRADING)) === 'true';
+  }
+
+  /**
+   * Switch orders between the paper broker and Kite.
+   */
+  async setPaperTrading(enabled: boolean): Promise<void> {
+    await this.set(SETTINGS_KEYS.PAPER_TRADING, String(enabled));
+  }
+
+  // ==================== Scoring ====================
+
+  /**
+   * Get the weights of the fields in the score of the sell candidates of a page.
+   */
+  async getScoreWeights(page: PageId): Promise<ScoreWeights> {
+    const weights = {} as ScoreWeights;
+    for (const field of SCORE_FIELD_NAMES) {
+      weights[field] = await this.getNumber(scoreKey(page, field), DEFAULT_SCORE_WEIGHTS[field]);
+    }
+    return weights;
+  }
+
+  /**
+   * Update some of the score weights of a page.
+   */
+  async setScoreWeights(page: PageId, updates: Partial<ScoreWeights>): Promise<void> {
+    for (const [field, value] of Object.entries(updates) as [keyof ScoreWeights, number | undefined][]) {
+      if (value !== undefined) {
+        await this.set(scoreKey(page, field), value.toString());
+      }
+    }
+  }
+
   // ==================== Commodity Settings ====================
 
   /**
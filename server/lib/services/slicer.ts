@@ -0,0 +1,328 @@
+import type { OrderStatus } from '@server/db/schema';
+import { logger } from '@server/lib/logger';
+import { orderService } from '@server/lib/services/orders';
+import { positionsService } from '@server/lib/services/positions';
+import { settingsService } from '@server/lib/services/settings';
+import { randomUUID } from 'node:crypto';
+
+export type SlicedOrderStatus = 'active' | 'complete' | 'stopped' | 'failed';
+
+export interface ChildOrder {
+  orderId: string;
+  quantity: number;
+  price: number;
+  status: OrderStatus;
+  filledQuantity: number;
+  averagePrice: number;
+  placedAt: number;
+}
+
+/**
+ * A large sell order placed as a series of child orders, each no larger than the quantity at the best bid
+ */
+export interface SlicedOrder {
+  id: string;
+  tradingsymbol: string;
+  instrumentToken: number;
+  /**
+   * In lots
+   */
+  totalQuantity: number;
+  /**
+   * Lowest price a child order is placed at
+   */
+  limitPrice: number;
+  /**
+   * Upper bound on the size of a child order, whatever the visible depth
+   */
+  maxSliceQuantity: number;
+  intervalSeconds: number;
+  /**
+   * Quantity of the children that are still open or filled
+   */
+  placedQuantity: number;
+  filledQuantity: number;
+  /**
+   * Quantity weighted average price of the fills
+   */
+  averagePrice: number;
+  status: SlicedOrderStatus;
+  /**
+   * Why the order is waiting or why it ended
+   */
+  statusMessage?: string;
+  children: ChildOrder[];
+  startedAt: number;
+  updatedAt: number;
+}
+
+export interface SlicedOrderParams {
+  tradingsymbol: string;
+  instrumentToken: number;
+  quantity: number;
+  price: number;
+  maxSliceQuantity: number;
+  intervalSeconds: number;
+}
+
+type SlicedOrderCallback = (order: SlicedOrder) => void;
+
+const OPEN_STATUSES: OrderStatus[] = ['open', 'partial'];
+/**
+ * Finished sliced orders are kept this long so clients can still show their fills
+ */
+const FINISHED_ORDER_RETENTION_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Places large sell orders in slices sized to the quantity at the best bid, so a single order doesn't walk
+ * down the book. A slice is placed every interval once the previous one is no longer open, at the best bid
+ * but never below the limit price. Child orders go through the order service, so they are recorded and
+ * rate limited like any other order.
+ */
+class SlicedOrderService {
+  private callback: SlicedOrderCallback | null = null;
+  private orders = new Map<string, SlicedOrder>();
+  private timers = new Map<string, NodeJS.Timeout>();
+
+  /**
+   * Call the callback with a sliced order whenever a child is placed or fills, or it ends
+   */
+  start(callback: SlicedOrderCallback) {
+    logger.info('Starting sliced order placement');
+    this.callback = callback;
+  }
+
+  stop() {
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+    this.callback = null;
+  }
+
+  /**
+   * Start placing a sliced sell order. The first slice is placed right away.
+   */
+  async place({
+    tradingsymbol,
+    instrumentToken,
+    quantity,
+    price,
+    maxSliceQuantity,
+    intervalSeconds,
+  }: SlicedOrderParams) {
+    this.pruneFinishedOrders();
+
+    const now = Date.now();
+    const order: SlicedOrder = {
+      id: randomUUID(),
+      tradingsymbol,
+      instrumentToken,
+      totalQuantity: quantity,
+      limitPrice: price,
+      maxSliceQuantity,
+      intervalSeconds,
+      placedQuantity: 0,
+      filledQuantity: 0,
+      averagePrice: 0,
+      status: 'active',
+      children: [],
+      startedAt: now,
+      updatedAt: now,
+    };
+    this.orders.set(order.id, order);
+    logger.info(
+      `Slicing sell order ${order.id}: ${quantity} x ${tradingsymbol} at ${price} or better, ` +
+        `at most ${maxSliceQuantity} every ${intervalSeconds}s`
+    );
+
+    await this.step(order);
+    if (order.status === 'active') {
+      this.scheduleNextStep(order);
+    }
+    return order;
+  }
+
+  /**
+   * Stop placing slices. Children that are already open stay in the order book.
+   */
+  stopOrder(id: string) {
+    const order = this.orders.get(id);
+    if (!order || order.status !== 'active') {
+      throw new Error(`Sliced order ${id} is not active`);
+    }
+    this.finish(order, 'stopped', `Stopped by user with ${order.filledQuantity}/${order.totalQuantity} filled`);
+    return order;
+  }
+
+  /**
+   * Active sliced orders and those that finished recently, most recent first
+   */
+  getOrders() {
+    this.pruneFinishedOrders();
+    return Array.from(this.orders.values()).sort((a, b) => b.startedAt - a.startedAt);
+  }
+
+  private scheduleNextStep(order: SlicedOrder) {
+    this.timers.set(
+      order.id,
+      setTimeout(async () => {
+        await this.step(order);
+        if (order.status === 'active') {
+          this.scheduleNextStep(order);
+        }
+      }, order.intervalSeconds * 1000)
+    );
+  }
+
+  private async step(order: SlicedOrder) {
+    try {
+      const changed = await this.refreshChildren(order);
+      if (order.status !== 'active') {
+        return;
+      }
+
+      const rejected = order.children.find((child) => child.status === 'rejected');
+      if (rejected) {
+        this.finish(order, 'failed', `Child order ${rejected.orderId} was rejected`);
+        return;
+      }
+      if (order.filledQuantity >= order.totalQuantity) {
+        this.finish(order, 'complete', `Filled ${order.filledQuantity} at an average of ${order.averagePrice}`);
+        return;
+      }
+
+      // Pace the slices, so each one only takes the bid that's visible when it's placed
+      if (order.children.some((child) => OPEN_STATUSES.includes(child.status))) {
+        this.setStatusMessage(order, 'Waiting for the last slice to fill', changed);
+        return;
+      }
+
+      const depth = positionsService.getLiveOption(order.instrumentToken)?.marketDepth?.buy[0];
+      if (!depth || depth.price <= 0 || depth.quantity <= 0) {
+        this.setStatusMessage(order, 'Waiting for market depth', changed);
+        return;
+      }
+      if (depth.price < order.limitPrice) {
+        this.setStatusMessage(order, `Best bid ${depth.price} is below the limit price`, changed);
+        return;
+      }
+
+      // Keep each slice within the risk limit on the size of an order
+      const { maxLotsPerOrder } = await settingsService.getRiskLimits();
+      const quantity = Math.min(
+        order.totalQuantity - order.placedQuantity,
+        depth.quantity,
+        order.maxSliceQuantity,
+        maxLotsPerOrder > 0 ? maxLotsPerOrder : Infinity
+      );
+      const orderId = await orderService.placeLimitOrder({
+        tradingsymbol: order.tradingsymbol,
+        transactionType: 'SELL',
+        quantity,
+        price: depth.price,
+      });
+
+      order.children.push({
+        orderId,
+        quantity,
+        price: depth.price,
+        status: 'open',
+        filledQuantity: 0,
+        averagePrice: 0,
+        placedAt: Date.now(),
+      });
+      order.placedQuantity += quantity;
+      this.setStatusMessage(order, undefined, true);
+    } catch (error) {
+      if (order.status !== 'active') {
+        return;
+      }
+      // Placing a slice failed, so any further slices would most likely fail too
+      logger.error(`Error placing a slice of order ${order.id}:`, error);
+      this.finish(order, 'failed', error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * Update the children from the orders tracked through the order book
+   * @returns whether any of them changed
+   */
+  private async refreshChildren(order: SlicedOrder) {
+    const trackedOrders = new Map(
+      (await orderService.getOrdersByIds(order.children.map((child) => child.orderId))).map((tracked) => [
+        tracked.orderId,
+        tracked,
+      ])
+    );
+
+    let changed = false;
+    for (const child of order.children) {
+      const tracked = trackedOrders.get(child.orderId);
+      if (
+        !tracked ||
+        (tracked.status === child.status &&
+          tracked.filledQuantity === child.filledQuantity &&
+          tracked.averagePrice === child.averagePrice)
+      ) {
+        continue;
+      }
+      child.status = tracked.status;
+      child.filledQuantity = tracked.filledQuantity;
+      child.averagePrice = tracked.averagePrice;
+      changed = true;
+    }
+
+    // The unfilled part of a cancelled child is placed again in later slices
+    order.placedQuantity = order.children.reduce(
+      (sum, child) => sum + (OPEN_STATUSES.includes(child.status) ? child.quantity : child.filledQuantity),
+      0
+    );
+    order.filledQuantity = order.children.reduce((sum, child) => sum + child.filledQuantity, 0);
+    order.averagePrice =
+      order.filledQuantity > 0
+        ? order.children.reduce((sum, child) => sum + child.averagePrice * child.filledQuantity, 0) /
+          order.filledQuantity
+        : 0;
+
+    return changed;
+  }
+
+  /**
+   * Notify when the sliced order changed or the reason it's waiting did
+   */
+  private setStatusMessage(order: SlicedOrder, message: string | undefined, changed: boolean) {
+    if (changed || order.statusMessage !== message) {
+      order.statusMessage = message;
+      this.notify(order);
+    }
+  }
+
+  private finish(order: SlicedOrder, status: Exclude<SlicedOrderStatus, 'active'>, message: string) {
+    const timer = this.timers.get(order.id);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(order.id);
+    }
+    order.status = status;
+    order.statusMessage = message;
+    logger.info(`Sliced order ${order.id} (${order.tradingsymbol}) is ${status}: ${message}`);
+    this.notify(order);
+  }
+
+  private notify(order: SlicedOrder) {
+    order.updatedAt = Date.now();
+    this.callback?.(order);
+  }
+
+  private pruneFinishedOrders() {
+    const cutoff = Date.now() - FINISHED_ORDER_RETENTION_MS;
+    for (const [id, order] of this.orders) {
+      if (order.status !== 'active' && order.updatedAt < cutoff) {
+        this.orders.delete(id);
+      }
+    }
+  }
+}
+
+export const slicedOrderService = new SlicedOrderService();
@@ -0,0 +1,212 @@
+import { db } from '@server/db';
+import { optionSnapshotsTable } from '@server/db/schema';
+import { logger } from '@server/lib/logger';
+import { settingsService } from '@server/lib/services/settings';
+import type { OptionChain } from '@shared/types/types';
+import { and, eq, gte, lt, lte, sql, type SQL } from 'drizzle-orm';
+
+type OptionSnapshot = typeof optionSnapshotsTable.$inferInsert;
+
+/**
+ * Sampled metrics that can be requested from the history API
+ */
+export const HISTORY_FIELDS = [
+  'bid',
+  'returnValue',
+  'addedValue',
+  'delta',
+  'sd',
+  'orderMargin',
+  'underlyingLtp',
+] as const;
+
+export type HistoryField = (typeof HISTORY_FIELDS)[number];
+
+export type HistoryPoint = { timestamp: number } & Partial<Record<HistoryField, number>>;
+
+// Rows per INSERT statement, well below SQLite's bound parameter limit (15 columns per row)
+const INSERT_BATCH_SIZE = 500;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+const MIN_INTERVAL_SECONDS = 5;
+// Used when the setting can't be read, so a transient database error doesn't stop sampling
+const DEFAULT_INTERVAL_SECONDS = 60;
+// Unchanged rows are still written this often, so an instrument keeps samples within the retention period
+const MAX_UNCHANGED_MS = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Samples the aggregated option chain, and the open positions outside the SD range, into the option_snapshots
+ * table at the interval configured in the settings, and prunes samples older than the retention period.
+ */
+class SnapshotService {
+  private getOptionChain: (() => Record<number, OptionChain>) | null = null;
+  private sampleTimeout: NodeJS.Timeout | null = null;
+  private pruneInterval: NodeJS.Timeout | null = null;
+
+  /**
+   * Last written values per instrument token and when they were written, used to skip rows that haven't changed
+   * (e.g. while the market is closed and the chain holds the last ticks)
+   */
+  private lastWritten = new Map<number, { key: string; timestamp: number }>();
+
+  /**
+   * Start sampling. The interval is re-read from the settings after every sample,
+   * so changes take effect without a restart.
+   */
+  start(getOptionChain: () => Record<number, OptionChain>) {
+    this.getOptionChain = getOptionChain;
+    logger.info('Starting option chain snapshot sampler');
+
+    this.prune();
+    this.pruneInterval = setInterval(() => this.prune(), PRUNE_INTERVAL_MS);
+    this.scheduleNextSample();
+  }
+
+  stop() {
+    if (this.sampleTimeout) {
+      clearTimeout(this.sampleTimeout);
+      this.sampleTimeout = null;
+    }
+    if (this.pruneInterval) {
+      clearInterval(this.pruneInterval);
+      this.pruneInterval = null;
+    }
+    this.getOptionChain = null;
+  }
+
+  private async scheduleNextSample() {
+    const intervalSeconds = await settingsService.getSnapshotIntervalSeconds().catch(() => DEFAULT_INTERVAL_SECONDS);
+    if (!this.getOptionChain) {
+      return;
+    }
+
+    this.sampleTimeout = setTimeout(
+      async () => {
+        await this.sample();
+        this.scheduleNextSample();
+      },
+      Math.max(intervalSeconds, MIN_INTERVAL_SECONDS) * 1000
+    );
+  }
+
+  private async sample() {
+    if (!this.getOptionChain) {
+      return;
+    }
+
+    const timestamp = Date.now();
+    const rows: OptionSnapshot[] = [];
+    const options = this.getOptionChain();
+
+    // Forget the instruments that left the chain, like expired options
+    for (const instrumentToken of this.lastWritten.keys()) {
+      if (!options[instrumentToken]) {
+        this.lastWritten.delete(instrumentToken);
+      }
+    }
+
+    for (const option of Object.values(options)) {
+      // Skip rows that haven't received the FUT LTP yet
+      if (!option.underlyingLtp) {
+        continue;
+      }
+
+      const key = `${option.bid}|${option.underlyingLtp}|${option.orderMargin}|${option.delta}|${option.sd}`;
+      const lastWritten = this.lastWritten.get(option.instrumentToken);
+      if (lastWritten?.key === key && timestamp - lastWritten.timestamp < MAX_UNCHANGED_MS) {
+        continue;
+      }
+      this.lastWritten.set(option.instrumentToken, { key, timestamp });
+
+      rows.push({
+        timestamp,
+        instrumentToken: option.instrumentToken,
+        tradingsymbol: option.tradingsymbol,
+        name: option.name,
+        expiry: option.expiry,
+        strike: option.strike,
+        instrumentType: option.instrumentType,
+        bid: option.bid,
+        returnValue: option.returnValue,
+        addedValue: option.addedValue,
+        delta: option.delta,
+        sd: option.sd,
+        orderMargin: option.orderMargin,
+        underlyingLtp: option.underlyingLtp,
+      });
+    }
+
+    if (rows.length === 0) {
+      return;
+    }
+
+    try {
+      for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+        await db.insert(optionSnapshotsTable).values(rows.slice(i, i + INSERT_BATCH_SIZE));
+      }
+    } catch (error) {
+      logger.error('Failed to write option snapshots:', error);
+      // Write the failed rows again on the next sample
+      for (const row of rows) {
+        this.lastWritten.delete(row.instrumentToken);
+      }
+    }
+  }
+
+  /**
+   * Time series of the given fields for one instrument between `from` and `to` (Unix ms, inclusive).
+   * The range is split into at most `maxPoints` equal buckets; each point holds the average of the
+   * samples in its bucket and the timestamp of the last one. Empty buckets are omitted.
+   */
+  async getHistory(
+    instrumentToken: number,
+    from: number,
+    to: number,
+    fields: readonly HistoryField[],
+    maxPoints: number
+  ): Promise<{ bucketMs: number; points: HistoryPoint[] }> {
+    const bucketMs = Math.max(1, Math.ceil((to - from + 1) / maxPoints));
+    // Bound numbers are REAL in SQLite, so cast to get integer bucket indexes
+    const bucket = sql`cast((${optionSnapshotsTable.timestamp} - ${from}) / ${bucketMs} as integer)`;
+
+    const averages: Record<string, SQL<number>> = {};
+    for (const field of fields) {
+      averages[field] = sql<number>`avg(${optionSnapshotsTable[field]})`.mapWith(Number);
+    }
+
+    const points = await db
+      .select({
+        timestamp: sql<number>`max(${optionSnapshotsTable.timestamp})`.mapWith(Number),
+        ...averages,
+      })
+      .from(optionSnapshotsTable)
+      .where(
+        and(
+          eq(optionSnapshotsTable.instrumentToken, instrumentToken),
+          gte(optionSnapshotsTable.timestamp, from),
+          lte(optionSnapshotsTable.timestamp, to)
+        )
+      )
+      .groupBy(bucket)
+      .orderBy(bucket);
+
+    return { bucketMs, points };
+  }
+
+  /**
+   * Delete snapshots older than the configured retention period
+   */
+  private async prune() {
+    try {
+      const retentionDays = await settingsService.getSnapshotRetentionDays();
+      const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+      const result = await db.delete(optionSnapshotsTable).where(lt(optionSnapshotsTable.timestamp, cutoff));
+      if (result.rowsAffected > 0) {
+        logger.info(`Pruned ${result.rowsAffected} option snapshots older than ${retentionDays} days`);
+      }
+    } catch (error) {
+      logger.error('Failed to prune option snapshots:', error);
+    }
+  }
+}
+
+export const snapshotService = new SnapshotService();
@@ -0,0 +1,157 @@
+import { logger } from '@server/lib/logger';
+import { getOrderBroker } from '@server/lib/services/broker';
+import { orderService, toOrderStatus, type LimitOrder } from '@server/lib/services/orders';
+import { positionsService } from '@server/lib/services/positions';
+
+/**
+ * Kite order statuses that are no longer being processed. Until an order reaches one, like while it is
+ * PUT ORDER REQ RECEIVED or VALIDATION PENDING, it may still be rejected or its fills may still change.
+ */
+const CLOSED_STATUSES = ['COMPLETE', 'REJECTED', 'CANCELLED'];
+const SETTLED_STATUSES = [...CLOSED_STATUSES, 'OPEN', 'TRIGGER PENDING'];
+const SETTLE_TIMEOUT_MS = 5_000;
+const SETTLE_POLL_MS = 250;
+
+/**
+ * What was done to undo a leg that was placed before another leg failed
+ */
+export type RollbackResult =
+  | { tradingsymbol: string; orderId: string; action: 'cancelled' }
+  | { tradingsymbol: string; orderId: string; action: 'reversed'; quantity: number; reverseOrderId: string }
+  | { tradingsymbol: string; orderId: string; action: 'failed'; error: string };
+
+export type StrategyResult =
+  | { success: true; orderIds: string[] }
+  | { success: false; error: string; rollback: RollbackResult[] };
+
+/**
+ * Places the legs of a multi-leg strategy, like a strangle or a credit spread, as one unit
+ */
+class StrategyService {
+  /**
+   * Place the buy legs first, so Kite counts the hedges when it blocks margin for the sell legs.
+   * When a leg can't be placed or is rejected straight away, the legs placed before it are rolled back:
+   * open orders are cancelled and filled quantities are closed at the best bid or ask.
+   */
+  async place(legs: LimitOrder[]): Promise<StrategyResult> {
+    const ordered = [...legs].sort(
+      (a, b) => Number(a.transactionType === 'SELL') - Number(b.transactionType === 'SELL')
+    );
+    logger.info(
+      `Placing ${legs.length} leg strategy:`,
+      ordered.map((leg) => `${leg.transactionType} ${leg.tradingsymbol}`)
+    );
+
+    const placed: { leg: LimitOrder; orderId: string }[] = [];
+    for (const leg of ordered) {
+      try {
+        const orderId = await orderService.placeLimitOrder(leg);
+        placed.push({ leg, orderId });
+
+        const order = await this.waitForSettled(orderId);
+        if (toOrderStatus(order) === 'rejected') {
+          throw new Error(order.status_message ?? 'Order was rejected');
+        }
+      } catch (error) {
+        const message = `${leg.transactionType} ${leg.tradingsymbol}: ${error instanceof Error ? error.message : String(error)}`;
+        logger.error(`Strategy leg failed, rolling back ${placed.length} legs. ${message}`);
+        const rollback = await this.rollback(placed);
+        const failed = rollback.filter((result) => result.action === 'failed');
+        if (failed.length > 0) {
+          logger.error(
+            `Strategy rollback incomplete, ${failed.length} legs left on the book:`,
+            failed.map((result) => result.tradingsymbol)
+          );
+        }
+        return { success: false, error: message, rollback };
+      }
+    }
+
+    return { success: true, orderIds: placed.map(({ orderId }) => orderId) };
+  }
+
+  private async rollback(placed: { leg: LimitOrder; orderId: string }[]) {
+    const results: RollbackResult[] = [];
+    for (const { leg, orderId } of placed) {
+      const { tradingsymbol } = leg;
+      try {
+        let order = await this.waitForSettled(orderId);
+
+        const status = toOrderStatus(order);
+        // Includes the leg that was rejected
+        if ((status === 'rejected' || status === 'cancelled') && order.filled_quantity === 0) {
+          continue;
+        }
+        if (status === 'open' || status === 'partial') {
+          await getOrderBroker(orderId).cancelOrder(orderId);
+          // Lots can still fill until the cancellation goes through
+          order = await this.waitForSettled(orderId, CLOSED_STATUSES);
+        }
+
+        if (order.filled_quantity === 0) {
+          results.push({ tradingsymbol, orderId, action: 'cancelled' });
+          continue;
+        }
+
+        // Close what was filled at the other side of the book
+        const live = positionsService.getLiveOption(order.instrument_token);
+        const isSell = leg.transactionType === 'SELL';
+        const price = isSell ? live?.marketDepth?.sell[0]?.price : live?.bid;
+        if (!price) {
+          throw new Error(`${order.filled_quantity} lots filled and no ${isSell ? 'ask' : 'bid'} to close them at`);
+        }
+
+        // Closing a filled buy leg sells, which the risk limits would count as new short exposure
+        const reverseOrderId = await orderService.placeLimitOrder(
+          {
+            tradingsymbol,
+            transactionType: isSell ? 'BUY' : 'SELL',
+            quantity: order.filled_quantity,
+            price,
+            product: leg.product,
+          },
+          { skipRiskLimits: true }
+        );
+        results.push({ tradingsymbol, orderId, action: 'reversed', quantity: order.filled_quantity, reverseOrderId });
+      } catch (error) {
+        logger.error(`Failed to roll back strategy leg ${orderId} (${tradingsymbol}):`, error);
+        results.push({
+          tradingsymbol,
+          orderId,
+          action: 'failed',
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Poll an order until Kite is done processing it, so its status and filled quantity are final for now
+   * @param statuses to wait for, e.g. only the closed ones after cancelling the order
+   * @throws when the order is still being processed after the timeout
+   */
+  private async waitForSettled(orderId: string, statuses = SETTLED_STATUSES) {
+    const broker = getOrderBroker(orderId);
+    const getOrder = async () => {
+      const order = (await broker.getOrderHistory(orderId)).at(-1);
+      if (!order) {
+        throw new Error('Order not found');
+      }
+      return order;
+    };
+
+    const deadline = Date.now() + SETTLE_TIMEOUT_MS;
+    let order = await getOrder();
+    while (!statuses.includes(order.status)) {
+      if (Date.now() >= deadline) {
+        throw new Error(`Order is still ${order.status} after ${SETTLE_TIMEOUT_MS / 1000}s`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, SETTLE_POLL_MS));
+      order = await getOrder();
+    }
+    return order;
+  }
+}
+
+export const strategyService = new StrategyService();
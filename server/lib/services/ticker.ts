@@ -1,21 +1,28 @@
 import { db } from '@server/db';
 import { instrumentsTable } from '@server/db/schema';
-import { env } from '@server/lib/env';
 import { logger } from '@server/lib/logger';
+import { createMarketDataSource, ReplayMarketDataSource, type MarketTick } from '@server/lib/market-data';
 import { workingDaysCache } from '@server/lib/market-minutes-cache';
-import { accessToken } from '@server/lib/services/accessToken';
-import { getOrderMargins } from '@server/lib/services/kite';
+import { MarginRefreshScheduler } from '@server/lib/services/margin-scheduler';
 import { settingsService } from '@server/lib/services/settings';
 import { volatilityService } from '@server/lib/services/volatility';
-import { calculateDeltas } from '@server/lib/utils/delta';
-import { CONFIG, type Symbol } from '@server/shared/config';
-import type { OptionChain } from '@shared/types/types';
+import { DEFAULT_RISK_FREE_RATE } from '@server/lib/utils/delta';
+import { calculateImpliedVolatility } from '@server/lib/utils/implied-volatility';
+import { getFullDayMinutes } from '@server/lib/utils/market-minutes';
+import {
+  DEFAULT_PRICING_MODEL,
+  PRICING_MODELS,
+  type PricingModel,
+  type PricingModelName,
+} from '@server/lib/utils/pricing-models';
+import { calculateScore, DEFAULT_SCORE_WEIGHTS, type ScoreWeights } from '@server/lib/utils/scoring';
+import { CONFIG, PAGE_GROUPS, type PageId, type Symbol } from '@server/shared/config';
+import type { FutureTick, OptionChain } from '@shared/types/types';
 import { and, asc, eq, inArray, isNotNull } from 'drizzle-orm';
-import { chunk } from 'es-toolkit';
 import type { WSContext } from 'hono/ws';
-import { KiteTicker, type TickFull, type TickLtp } from 'kiteconnect-ts';
 
 export type OptionChainCallback = (data: Record<number, OptionChain>) => void;
+export type FutureTicksCallback = (ticks: FutureTick[]) => void;
 type Instrument = typeof instrumentsTable.$inferSelect;
 type DesiredOption = { instrument: Instrument; futExpiry: string; underlyingLtp: number };
 type RangeRefreshReason = 'subscribe' | 'ltp' | 'pending';
@@ -27,14 +34,11 @@ interface ClientSubscription {
 
 export class TickerService {
   private readonly OPTION_CHAIN_UPDATE_INTERVAL = 500;
-  private readonly MARGIN_UPDATE_INTERVAL = 5000;
+  private readonly MARGIN_UPDATE_INTERVAL = 1000;
   private readonly COMMODITY_CONFIG_REFRESH_INTERVAL = 5000; // 5 seconds
   private readonly RANGE_REFRESH_THROTTLE_MS = 2000;
 
-  private ticker = new KiteTicker({
-    api_key: env.KITE_API_KEY,
-    access_token: accessToken,
-  });
+  private source = createMarketDataSource();
   private clients: Map<string, ClientSubscription> = new Map();
   private subscribedTokens = new Set<number>();
   private subscribedTokensBySymbol = new Map<Symbol, Set<number>>();
@@ -50,7 +54,15 @@ export class TickerService {
   private optionInstrumentsBySymbol = new Map<Symbol, Map<string, Instrument[]>>();
 
   private optionChain: Record<number, OptionChain> = {};
+  private optionInstrumentsByToken = new Map<number, Instrument>();
+
+  /**
+   * Options outside the SD range that are subscribed and priced anyway (e.g. open positions),
+   * published separately from the option chain
+   */
+  private watchedOptions: Record<number, OptionChain> = {};
   private isFetchingMargins = false;
+  private marginScheduler = new MarginRefreshScheduler();
   private activeSdMultiplier: number | null = null;
   private rangeRefreshTimers = new Map<Symbol, ReturnType<typeof setTimeout>>();
   private rangeRefreshInFlight = new Set<Symbol>();
@@ -62,11 +74,36 @@ export class TickerService {
    */
   private commodityConfigCache: Record<string, { bidBalance: number; multiplier: number }> = {};
 
+  /**
+   * Cached pricing settings (model, risk-free rate), refreshed along with the commodity config.
+   */
+  private pricingConfigCache: { model: PricingModelName; riskFreeRate: number } = {
+    model: DEFAULT_PRICING_MODEL,
+    riskFreeRate: DEFAULT_RISK_FREE_RATE,
+  };
+
+  /**
+   * Cached score weights of the page each symbol is shown on, refreshed along with the commodity config.
+   */
+  private scoreWeightsCache: Record<string, ScoreWeights> = {};
+
   /**
    * Optional callback for publishing option chain data (used in worker mode)
    */
   private dataCallback: OptionChainCallback | null = null;
 
+  /**
+   * Optional callback for publishing future ticks (used in worker mode), and the ticks
+   * received since it was last called
+   */
+  private futureTicksCallback: FutureTicksCallback | null = null;
+  private pendingFutureTicks: FutureTick[] = [];
+
+  /**
+   * Optional callback for publishing watched options (used in worker mode)
+   */
+  private watchedOptionsCallback: OptionChainCallback | null = null;
+
   /**
    * Optional filter for symbols this instance should handle
    */
@@ -89,6 +126,75 @@ export class TickerService {
     this.dataCallback = callback;
   }
 
+  /**
+   * Set a callback for publishing future ticks.
+   * Ticks are batched and published along with the option chain.
+   */
+  public setFutureTicksCallback(callback: FutureTicksCallback) {
+    this.futureTicksCallback = callback;
+  }
+
+  /**
+   * Set a callback for publishing watched options, called along with the option chain.
+   */
+  public setWatchedOptionsCallback(callback: OptionChainCallback) {
+    this.watchedOptionsCallback = callback;
+  }
+
+  /**
+   * Replace the set of watched options. Tokens of other symbols (handled by other workers) are ignored.
+   */
+  public setWatchedTokens(tokens: number[]) {
+    const watchedTokens = new Set(tokens.filter((token) => this.optionInstrumentsByToken.has(token)));
+
+    const tokensToUnwatch = Object.keys(this.watchedOptions)
+      .map(Number)
+      .filter((token) => !watchedTokens.has(token));
+    for (const token of tokensToUnwatch) {
+      delete this.watchedOptions[token];
+    }
+    // Keep receiving ticks for tokens that are still in the SD range
+    this.unsubscribeFromTokens(tokensToUnwatch.filter((token) => !(token in this.optionChain)));
+
+    const tokensToWatch = Array.from(watchedTokens).filter((token) => !(token in this.watchedOptions));
+    for (const token of tokensToWatch) {
+      const instrument = this.optionInstrumentsByToken.get(token)!;
+      const futExpiry = this.getFutExpiry(instrument.name as Symbol, instrument.expiry);
+      if (!futExpiry) {
+        logger.error(`No future expiry found for watched option ${instrument.tradingsymbol}`);
+        continue;
+      }
+
+      const option = this.createOptionChainEntry(instrument, futExpiry, 0);
+      // Start from the depth of the SD range copy, if any, instead of waiting for the next tick
+      const inRange = this.optionChain[token];
+      if (inRange) {
+        option.bid = inRange.bid;
+        option.marketDepth = inRange.marketDepth;
+        option.orderMargin = inRange.orderMargin;
+        option.orderMarginUpdatedAt = inRange.orderMarginUpdatedAt;
+        option.orderMarginStatus = inRange.orderMarginStatus;
+      }
+      this.watchedOptions[token] = option;
+    }
+    this.subscribeToTokens(tokensToWatch);
+
+    if (tokensToWatch.length > 0 || tokensToUnwatch.length > 0) {
+      logger.info(
+        `Watched options: +${tokensToWatch.length}, -${tokensToUnwatch.length}, total ${Object.keys(this.watchedOptions).length}`
+      );
+    }
+  }
+
+  /**
+   * Set what clients are looking at, so the margins of those options are refreshed first
+   * @param symbols underlyings of the pages clients have open
+   * @param tokens options clients have opened in an order modal or strategy
+   */
+  public setView(symbols: Symbol[], tokens: number[]) {
+    this.marginScheduler.setView(symbols, tokens);
+  }
+
   private subscribeToTokens(tokens: number[]) {
     const tokensToSubscribe = tokens.filter((token) => !this.subscribedTokens.has(token));
     if (tokensToSubscribe.length === 0) {
@@ -102,8 +208,7 @@ export class TickerService {
     if (this.subscribedTokens.size > 3000) {
       logger.warn('Subscribed tokens limit reached -', this.subscribedTokens.size);
     }
-    this.ticker.subscribe(tokensToSubscribe);
-    this.ticker.setMode(this.ticker.modeFull, tokensToSubscribe);
+    this.source.subscribe(tokensToSubscribe, 'full');
 
     return tokensToSubscribe;
   }
@@ -119,7 +224,7 @@ export class TickerService {
     for (const token of tokensToUnsubscribe) {
       this.subscribedTokens.delete(token);
     }
-    this.ticker.unsubscribe(tokensToUnsubscribe);
+    this.source.unsubscribe(tokensToUnsubscribe);
 
     return tokensToUnsubscribe;
   }
@@ -137,6 +242,7 @@ export class TickerService {
       : await optionsQuery;
 
     this.optionInstrumentsBySymbol.clear();
+    this.optionInstrumentsByToken.clear();
 
     for (const option of options) {
       const symbol = option.name as Symbol;
@@ -149,6 +255,7 @@ export class TickerService {
       const instruments = expiries.get(option.expiry) ?? [];
       instruments.push(option);
       expiries.set(option.expiry, instruments);
+      this.optionInstrumentsByToken.set(option.instrumentToken, option);
     }
 
     logger.info(`Loaded ${options.length} option instruments into cache`);
@@ -164,6 +271,8 @@ export class TickerService {
       sellValue: 0,
       strikePosition: 0,
       orderMargin: 0,
+      orderMarginUpdatedAt: 0,
+      orderMarginStatus: 'pending',
       returnValue: 0,
       sd: 0,
       sigmaN: 0,
@@ -173,9 +282,29 @@ export class TickerService {
       av: 0,
       dv: 0,
       addedValue: 0,
+      score: 0,
+      theoreticalPrice: 0,
+      gamma: 0,
+      thetaPerMinute: 0,
+      thetaPerDay: 0,
+      vega: 0,
+      rho: 0,
+      ivBid: 0,
+      ivAsk: 0,
+      ivMid: 0,
     };
   }
 
+  /**
+   * Expiry of the future an option is priced off: the first one expiring after the option
+   */
+  private getFutExpiry(underlying: Symbol, optionExpiry: string) {
+    const [futExpiry] = Object.keys(this.futureLtps[underlying] ?? {})
+      .filter((e) => e > optionExpiry)
+      .sort();
+    return futExpiry;
+  }
+
   private calculateDesiredOptionsForSymbol(underlying: Symbol, sdMultiplier: number) {
     const expiries = this.optionInstrumentsBySymbol.get(underlying);
     if (!expiries) {
@@ -185,9 +314,7 @@ export class TickerService {
     const desiredOptions = new Map<number, DesiredOption>();
 
     for (const [expiry, options] of expiries.entries()) {
-      const [futExpiry] = Object.keys(this.futureLtps[underlying] ?? {})
-        .filter((e) => e > expiry)
-        .sort();
+      const futExpiry = this.getFutExpiry(underlying, expiry);
       if (!futExpiry) {
         logger.error(`No future expiry found for ${underlying} ${expiry}`);
         continue;
@@ -259,7 +386,7 @@ export class TickerService {
     for (const token of tokensToUnsubscribe) {
       delete this.optionChain[token];
     }
-    this.unsubscribeFromTokens(tokensToUnsubscribe);
+    this.unsubscribeFromTokens(tokensToUnsubscribe.filter((token) => !(token in this.watchedOptions)));
 
     for (const [token, desired] of desiredOptions.entries()) {
       const existingOption = this.optionChain[token];
@@ -346,50 +473,40 @@ export class TickerService {
 
     await this.loadOptionInstrumentsCache();
 
-    logger.info('Connecting to Kite Ticker');
-    await new Promise((resolve, reject) => {
-      const timeoutId = setTimeout(() => {
-        reject(new Error('Connection timed out'));
-      }, 10000);
-
-      this.ticker.on('connect', () => {
-        resolve(true);
-        clearTimeout(timeoutId);
-      });
-
-      this.ticker.on('error', (error) => {
-        clearTimeout(timeoutId);
-        reject(error);
-      });
-
-      this.ticker.connect();
-    });
-    logger.info('Connected to Kite Ticker');
+    logger.info(`Connecting to ${this.source.description}`);
+    await this.source.connect();
+    logger.info(`Connected to ${this.source.description}`);
 
-    this.ticker.on('ticks', (ticks: (TickLtp | TickFull)[]) => {
+    this.source.onTicks((ticks: MarketTick[]) => {
       for (const tick of ticks) {
         if (tick.instrument_token in this.futureTokensMap) {
           const { underlying, expiry } = this.futureTokensMap[tick.instrument_token]!;
           const previousLtp = this.futureLtps[underlying]![expiry];
           this.futureLtps[underlying]![expiry] = tick.last_price;
+          if (this.futureTicksCallback) {
+            this.pendingFutureTicks.push({ underlying, expiry, ltp: tick.last_price, timestamp: Date.now() });
+          }
           if (previousLtp !== tick.last_price) {
             this.scheduleRangeRefresh(underlying as Symbol);
           }
         } else if (tick.mode === 'full') {
-          const instrument = this.optionChain[tick.instrument_token];
-          if (!instrument) {
-            continue;
-          }
+          for (const instrument of [
+            this.optionChain[tick.instrument_token],
+            this.watchedOptions[tick.instrument_token],
+          ]) {
+            if (!instrument) {
+              continue;
+            }
 
-          instrument.bid = tick.depth?.buy[0]?.price ?? 0;
-          instrument.marketDepth = tick.depth;
+            instrument.bid = tick.depth?.buy[0]?.price ?? 0;
+            instrument.marketDepth = tick.depth;
+          }
         }
       }
     });
 
     const futureTokens = futures.map((f) => f.instrumentToken);
-    this.ticker.subscribe(futureTokens);
-    this.ticker.setMode(this.ticker.modeLTP, futureTokens);
+    this.source.subscribe(futureTokens, 'ltp');
 
     // Update option chain
     setInterval(() => {
@@ -409,11 +526,14 @@ export class TickerService {
         this.sendToClients(optionsArray);
       }
 
-      // import { json2csv } from 'json-2-csv';
-      // import { writeFileSync } from 'node:fs';
-      // import { join } from 'node:path';
-      // const csv = json2csv(options.sort((a, b) => a.strike! - b.strike!));
-      // writeFileSync(join('.data', 'option-chain.csv'), csv);
+      if (this.watchedOptionsCallback) {
+        this.watchedOptionsCallback(this.watchedOptions);
+      }
+
+      if (this.futureTicksCallback && this.pendingFutureTicks.length > 0) {
+        this.futureTicksCallback(this.pendingFutureTicks);
+        this.pendingFutureTicks = [];
+      }
     }, this.OPTION_CHAIN_UPDATE_INTERVAL);
 
     // Update order margins
@@ -436,7 +556,7 @@ export class TickerService {
   }
 
   /**
-   * Refresh the cached commodity config values from settings service.
+   * Refresh the cached commodity config and pricing values from settings service.
    */
   private async refreshCommodityConfigCache() {
     const symbols = this.symbolsFilter ?? (Object.keys(CONFIG) as Symbol[]);
@@ -446,32 +566,63 @@ export class TickerService {
       const multiplier = await settingsService.getMultiplier(symbol);
       this.commodityConfigCache[symbol] = { bidBalance, multiplier };
     }
+
+    this.pricingConfigCache = {
+      model: await settingsService.getPricingModel(),
+      riskFreeRate: await settingsService.getRiskFreeRate(),
+    };
+
+    for (const [page, pageSymbols] of Object.entries(PAGE_GROUPS) as [PageId, readonly Symbol[]][]) {
+      if (pageSymbols.some((symbol) => symbols.includes(symbol))) {
+        const weights = await settingsService.getScoreWeights(page);
+        for (const symbol of pageSymbols) {
+          this.scoreWeightsCache[symbol] = weights;
+        }
+      }
+    }
   }
 
+  /**
+   * Fetch the margins the scheduler picks as due, updating both the option chain and watched copies of an option
+   */
   private async updateOrderMargins() {
     this.isFetchingMargins = true;
-    const options = Object.values(this.optionChain);
-    if (options.length > 0) {
-      const tsToTokenMap: Record<string, number> = {};
-      for (const option of options) {
-        tsToTokenMap[option.tradingsymbol] = option.instrumentToken;
+    try {
+      const options = Object.values(this.optionChain);
+      // Watched options that are also in the SD range are updated along with their option chain row
+      options.push(...Object.values(this.watchedOptions).filter((o) => !(o.instrumentToken in this.optionChain)));
+      this.marginScheduler.prune(new Set(options.map((o) => o.instrumentToken)));
+
+      const watchedTokens = new Set(Object.keys(this.watchedOptions).map(Number));
+      const due = this.marginScheduler.selectDue(options, watchedTokens);
+      for (const watched of Object.values(this.watchedOptions)) {
+        const inRange = this.optionChain[watched.instrumentToken];
+        if (inRange) {
+          watched.orderMarginStatus = inRange.orderMarginStatus;
+        }
       }
+      if (due.length > 0) {
+        const tsToTokenMap: Record<string, number> = {};
+        for (const option of due) {
+          tsToTokenMap[option.tradingsymbol] = option.instrumentToken;
+        }
 
-      const chunks = chunk(
-        options.map((o) => o.tradingsymbol),
-        400
-      );
-
-      for (const tradingSymbols of chunks) {
+        const fetchedTokens = new Set<number>();
         try {
-          const margins = await getOrderMargins(tradingSymbols);
+          const margins = await this.source.getOrderMargins(due.map((o) => o.tradingsymbol));
+          const updatedAt = Date.now();
 
           for (const margin of margins) {
             const token = tsToTokenMap[margin.tradingsymbol];
             if (token) {
-              const foundOption = this.optionChain[token];
-              if (foundOption) {
-                foundOption.orderMargin = margin.total;
+              const foundOptions = [this.optionChain[token], this.watchedOptions[token]].filter((o) => o !== undefined);
+              if (foundOptions.length > 0) {
+                for (const foundOption of foundOptions) {
+                  foundOption.orderMargin = margin.total;
+                  foundOption.orderMarginUpdatedAt = updatedAt;
+                  foundOption.orderMarginStatus = 'fresh';
+                }
+                fetchedTokens.add(token);
               } else {
                 logger.error(`Option not found for ${margin.tradingsymbol}`);
               }
@@ -480,78 +631,157 @@ export class TickerService {
             }
           }
         } catch (error) {
-          logger.error(`Error fetching margins for chunk:`, error);
+          logger.error(`Error fetching margins for ${due.length} options:`, error);
+        }
+
+        // Margins getOrderMargins gave up on after its retries
+        for (const option of due) {
+          if (!fetchedTokens.has(option.instrumentToken)) {
+            for (const failedOption of [
+              this.optionChain[option.instrumentToken],
+              this.watchedOptions[option.instrumentToken],
+            ]) {
+              if (failedOption) {
+                failedOption.orderMarginStatus = 'failed';
+              }
+            }
+          }
         }
+        this.marginScheduler.markAttempted(due, fetchedTokens);
       }
+    } finally {
+      this.isFetchingMargins = false;
     }
-
-    this.isFetchingMargins = false;
   }
 
   private calculateOptions() {
+    // Length of a full trading session today, used to express theta per day
+    const marketMinutesPerDay = getFullDayMinutes(new Date());
+    const pricingModel = PRICING_MODELS[this.pricingConfigCache.model];
+    const { riskFreeRate } = this.pricingConfigCache;
+
     for (const instrument of Object.values(this.optionChain)) {
-      const av = volatilityService.values[instrument.name]?.av;
-      if (!av) {
-        continue;
-      }
-      instrument.av = av;
-      // If av exists, dv should also exist
-      instrument.dv = volatilityService.values[instrument.name]?.dv!;
-
-      // Use cached commodity config values (refreshed from settings service)
-      const commodityConfig =
-        this.commodityConfigCache[instrument.name] ?? CONFIG[instrument.name as keyof typeof CONFIG];
-      const { bidBalance, multiplier } = commodityConfig;
-      instrument.underlyingLtp = this.futureLtps[instrument.name]![instrument.futExpiry]!;
-      instrument.strikePosition =
-        (Math.abs(instrument.strike! - instrument.underlyingLtp) * 100) / instrument.underlyingLtp;
-      if (instrument.bid) {
-        instrument.sellValue = (instrument.bid - bidBalance) * instrument.lotSize! * multiplier;
-        if (instrument.orderMargin > 0) {
-          instrument.returnValue = instrument.sellValue / instrument.orderMargin;
-        }
-      } else {
-        instrument.bid = 0;
-        instrument.sellValue = 0;
-        instrument.returnValue = 0;
-      }
+      this.calculateOption(instrument, pricingModel, riskFreeRate, marketMinutesPerDay);
+    }
+    for (const instrument of Object.values(this.watchedOptions)) {
+      this.calculateOption(instrument, pricingModel, riskFreeRate, marketMinutesPerDay);
+    }
 
-      instrument.sd = workingDaysCache.calculateSD(av, instrument.expiry);
+    return Object.values(this.optionChain).filter((o) => o.sellValue > o.returnValue);
+  }
 
-      // Calculate new sigma values
-      const sigmas = workingDaysCache.calculateAllSigmas(
-        av,
-        1, // Use base multiplier of 1 for individual instruments (multiplier applied at bounds level)
-        instrument.expiry,
-        instrument.instrumentType as 'CE' | 'PE'
-      );
+  /**
+   * Update the derived values (return value, sigmas, greeks, implied volatility...) of an option from the latest ticks
+   */
+  private calculateOption(
+    instrument: OptionChain,
+    pricingModel: PricingModel,
+    riskFreeRate: number,
+    marketMinutesPerDay: number
+  ) {
+    const av = volatilityService.values[instrument.name]?.av;
+    if (!av) {
+      return;
+    }
+    instrument.av = av;
+    // If av exists, dv should also exist
+    instrument.dv = volatilityService.values[instrument.name]?.dv!;
+
+    // Use cached commodity config values (refreshed from settings service)
+    const commodityConfig =
+      this.commodityConfigCache[instrument.name] ?? CONFIG[instrument.name as keyof typeof CONFIG];
+    const { bidBalance, multiplier } = commodityConfig;
+    instrument.underlyingLtp = this.futureLtps[instrument.name]![instrument.futExpiry]!;
+    // Watched options can be added before their future has ticked
+    if (!instrument.underlyingLtp) {
+      return;
+    }
+    instrument.strikePosition =
+      (Math.abs(instrument.strike! - instrument.underlyingLtp) * 100) / instrument.underlyingLtp;
+    if (instrument.bid) {
+      instrument.sellValue = (instrument.bid - bidBalance) * instrument.lotSize! * multiplier;
+      if (instrument.orderMargin > 0) {
+        instrument.returnValue = instrument.sellValue / instrument.orderMargin;
+      }
+    } else {
+      instrument.bid = 0;
+      instrument.sellValue = 0;
+      instrument.returnValue = 0;
+    }
 
-      instrument.sigmaN = sigmas.sigmaN;
-      instrument.sigmaX = sigmas.sigmaX;
-      instrument.sigmaXI = sigmas.sigmaXI;
+    instrument.sd = workingDaysCache.calculateSD(av, instrument.expiry);
 
-      // Calculate delta using Black-Scholes (fresh calculation every time)
-      const marketMinutesTillExpiry = workingDaysCache.getMarketMinutesTillExpiry(instrument.expiry);
-      const marketMinutesInLastYear = workingDaysCache.getMarketMinutesInLastYear();
-      const T = marketMinutesTillExpiry / marketMinutesInLastYear;
+    // Calculate new sigma values
+    const sigmas = workingDaysCache.calculateAllSigmas(
+      av,
+      1, // Use base multiplier of 1 for individual instruments (multiplier applied at bounds level)
+      instrument.expiry,
+      instrument.instrumentType as 'CE' | 'PE'
+    );
 
-      instrument.delta = calculateDeltas(
+    instrument.sigmaN = sigmas.sigmaN;
+    instrument.sigmaX = sigmas.sigmaX;
+    instrument.sigmaXI = sigmas.sigmaXI;
+
+    // Calculate price and greeks using the selected pricing model (fresh calculation every time)
+    const marketMinutesTillExpiry = workingDaysCache.getMarketMinutesTillExpiry(instrument.expiry);
+    const marketMinutesInLastYear = workingDaysCache.getMarketMinutesInLastYear();
+    const T = marketMinutesTillExpiry / marketMinutesInLastYear;
+
+    const greeks = pricingModel.calculateGreeks(
+      instrument.underlyingLtp,
+      instrument.strike!,
+      av / 100,
+      T,
+      instrument.instrumentType as 'CE' | 'PE',
+      riskFreeRate
+    );
+    instrument.delta = greeks.delta;
+    instrument.theoreticalPrice = greeks.price;
+    instrument.gamma = greeks.gamma;
+    instrument.vega = greeks.vega;
+    instrument.rho = greeks.rho;
+    // T is measured in market minutes, so one market minute is 1 / marketMinutesInLastYear years
+    instrument.thetaPerMinute = greeks.theta / marketMinutesInLastYear;
+    instrument.thetaPerDay = instrument.thetaPerMinute * marketMinutesPerDay;
+
+    // Implied volatility from the live quotes, on the same time base, starting the solver from av
+    const impliedVolatility = (price: number) =>
+      calculateImpliedVolatility(
+        price,
         instrument.underlyingLtp,
         instrument.strike!,
-        av / 100,
         T,
-        instrument.instrumentType as 'CE' | 'PE'
-      );
-
-      // Calculate addedValue (Return Value / |Delta|)
-      if (instrument.delta !== 0 && instrument.returnValue) {
-        instrument.addedValue = instrument.returnValue / Math.abs(instrument.delta);
-      } else {
-        instrument.addedValue = 0;
-      }
+        instrument.instrumentType as 'CE' | 'PE',
+        pricingModel,
+        riskFreeRate,
+        av / 100
+      ) * 100;
+    const ask = instrument.marketDepth?.sell[0]?.price ?? 0;
+    instrument.ivBid = impliedVolatility(instrument.bid);
+    instrument.ivAsk = impliedVolatility(ask);
+    instrument.ivMid = instrument.bid && ask ? impliedVolatility((instrument.bid + ask) / 2) : 0;
+
+    // Calculate addedValue (Return Value / |Delta|)
+    if (instrument.delta !== 0 && instrument.returnValue) {
+      instrument.addedValue = instrument.returnValue / Math.abs(instrument.delta);
+    } else {
+      instrument.addedValue = 0;
     }
 
-    return Object.values(this.optionChain).filter((o) => o.sellValue > o.returnValue);
+    // Only options that can be sold at a known margin are ranked
+    instrument.score = instrument.returnValue
+      ? calculateScore(this.scoreWeightsCache[instrument.name] ?? DEFAULT_SCORE_WEIGHTS, {
+          returnValue: instrument.returnValue * 100,
+          addedValue: instrument.addedValue * 100,
+          absDelta: Math.abs(instrument.delta),
+          strikePosition: instrument.strikePosition,
+          sigmaDistance: instrument.sd > 0 ? instrument.strikePosition / instrument.sd : 0,
+          daysToExpiry: marketMinutesTillExpiry / marketMinutesPerDay,
+          bidSize: instrument.marketDepth?.buy[0]?.quantity ?? 0,
+          ivPremium: instrument.ivBid ? instrument.ivBid - av : 0,
+        })
+      : 0;
   }
 
   public async subscribe(underlying: string, sdMultiplier: number) {
@@ -695,6 +925,17 @@ export class TickerService {
       clearTimeout(timer);
     }
     this.rangeRefreshTimers.clear();
-    this.ticker.disconnect();
+    this.source.disconnect();
+  }
+
+  /**
+   * Advance a replayed session by the given number of frames (step mode only).
+   */
+  public stepReplay(frames: number) {
+    if (this.source instanceof ReplayMarketDataSource) {
+      this.source.step(frames);
+    } else {
+      logger.warn('Cannot step: ticker is not replaying a recorded session');
+    }
   }
 }
@@ -1,21 +1,84 @@
-const RISK_FREE_RATE = 0.07;
+export const DEFAULT_RISK_FREE_RATE = 0.07;
 
-const a1 = 0.254829592;
-const a2 = -0.284496736;
-const a3 = 1.421413741;
-const a4 = -1.453152027;
-const a5 = 1.061405429;
-const p = 0.3275911;
+// Below this, erfc is computed as 1 - erf from a series; above it, from a continued fraction
+const ERFC_SERIES_LIMIT = 2;
+const ERFC_MAX_TERMS = 500;
 
-// Normal distribution cumulative density function
-const normalCDF = (x: number): number => {
-  const sign = x < 0 ? -1 : 1;
-  x = Math.abs(x) / Math.sqrt(2.0);
+/**
+ * Complementary error function, accurate to ~1e-15 relative error over the whole real line.
+ *
+ * - |x| < 2: erf from its all-positive series erf(x) = 2/√π·e^(-x²)·Σ (2x²)ⁿ·x / (1·3·…·(2n+1)),
+ *   which has no cancellation, and erfc = 1 - erf (erfc(2) ≈ 4.7e-3, so at most ~2 digits are lost)
+ * - x ≥ 2: the continued fraction erfc(x) = e^(-x²)/√π · 1/(x + (1/2)/(x + 1/(x + (3/2)/(x + …)))),
+ *   evaluated with the modified Lentz algorithm, which keeps full relative precision deep in the tail
+ * - x ≤ -2: erfc(x) = 2 - erfc(-x)
+ */
+export const erfc = (x: number): number => {
+  if (x <= -ERFC_SERIES_LIMIT) {
+    return 2 - erfc(-x);
+  }
+
+  if (x < ERFC_SERIES_LIMIT) {
+    const x2 = x * x;
+    let term = x;
+    let sum = x;
+    for (let n = 1; n < ERFC_MAX_TERMS; n++) {
+      term *= (2 * x2) / (2 * n + 1);
+      sum += term;
+      if (Math.abs(term) < Math.abs(sum) * Number.EPSILON) {
+        break;
+      }
+    }
+    return 1 - (2 / Math.sqrt(Math.PI)) * Math.exp(-x2) * sum;
+  }
+
+  // Modified Lentz algorithm for x + (1/2)/(x + 1/(x + (3/2)/(x + ...)))
+  const tiny = 1e-300;
+  let f = x;
+  let c = x;
+  let d = 0;
+  for (let n = 1; n < ERFC_MAX_TERMS; n++) {
+    const a = n / 2;
+    d = x + a * d;
+    d = d === 0 ? tiny : 1 / d;
+    c = x + a / c;
+    if (c === 0) {
+      c = tiny;
+    }
+    const delta = c * d;
+    f *= delta;
+    if (Math.abs(delta - 1) < Number.EPSILON) {
+      break;
+    }
+  }
+  return Math.exp(-x * x) / (Math.sqrt(Math.PI) * f);
+};
 
-  const t = 1.0 / (1.0 + p * x);
-  const y = 1.0 - ((((a5 * t + a4) * t + a3) * t + a2) * t + a1) * t * Math.exp(-x * x);
+// Normal distribution cumulative density function, Φ(x) = erfc(-x/√2) / 2
+export const normalCDF = (x: number): number => 0.5 * erfc(-x / Math.SQRT2);
 
-  return 0.5 * (1.0 + sign * y);
+// Standard normal probability density function
+const normalPDF = (x: number): number => Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI);
+
+export type Greeks = {
+  /**
+   * Theoretical option price
+   */
+  price: number;
+  delta: number;
+  gamma: number;
+  /**
+   * Change in price per year (T is in years), negative for long options
+   */
+  theta: number;
+  /**
+   * Change in price for a 1 percentage point change in volatility
+   */
+  vega: number;
+  /**
+   * Change in price for a 1 percentage point change in the risk-free rate
+   */
+  rho: number;
 };
 
 // Calculate Black-Scholes Call and Put Deltas
@@ -24,7 +87,8 @@ export const calculateDeltas = (
   strikePrice: number,
   volatility: number,
   timeToExpiry: number,
-  type: 'CE' | 'PE'
+  type: 'CE' | 'PE',
+  riskFreeRate = DEFAULT_RISK_FREE_RATE
 ): number => {
   // Input validation
   if (timeToExpiry <= 0 || volatility <= 0 || spotPrice <= 0 || strikePrice <= 0) {
@@ -33,7 +97,7 @@ export const calculateDeltas = (
 
   // Calculate d1
   const d1Numerator =
-    Math.log(spotPrice / strikePrice) + (RISK_FREE_RATE + 0.5 * (volatility * volatility)) * timeToExpiry;
+    Math.log(spotPrice / strikePrice) + (riskFreeRate + 0.5 * (volatility * volatility)) * timeToExpiry;
   const d1 = d1Numerator / (volatility * Math.sqrt(timeToExpiry));
 
   // Calculate N(d1)
@@ -46,3 +110,125 @@ export const calculateDeltas = (
     return nd1 - 1;
   }
 };
+
+// Calculate Black-Scholes Call and Put prices
+export const calculatePrice = (
+  spotPrice: number,
+  strikePrice: number,
+  volatility: number,
+  timeToExpiry: number,
+  type: 'CE' | 'PE',
+  riskFreeRate = DEFAULT_RISK_FREE_RATE
+): number => {
+  const intrinsicValue = type === 'CE' ? spotPrice - strikePrice : strikePrice - spotPrice;
+
+  // At (or past) expiry the option is only worth its intrinsic value
+  if (timeToExpiry <= 0 || volatility <= 0 || spotPrice <= 0 || strikePrice <= 0) {
+    return Math.max(0, intrinsicValue);
+  }
+
+  const sqrtT = Math.sqrt(timeToExpiry);
+  const d1 =
+    (Math.log(spotPrice / strikePrice) + (riskFreeRate + 0.5 * (volatility * volatility)) * timeToExpiry) /
+    (volatility * sqrtT);
+  const d2 = d1 - volatility * sqrtT;
+  const discountedStrike = strikePrice * Math.exp(-riskFreeRate * timeToExpiry);
+
+  if (type === 'CE') {
+    return spotPrice * normalCDF(d1) - discountedStrike * normalCDF(d2);
+  } else {
+    return discountedStrike * normalCDF(-d2) - spotPrice * normalCDF(-d1);
+  }
+};
+
+// Calculate Black-Scholes price and greeks (long option) in a single pass
+export const calculateGreeks = (
+  spotPrice: number,
+  strikePrice: number,
+  volatility: number,
+  timeToExpiry: number,
+  type: 'CE' | 'PE',
+  riskFreeRate = DEFAULT_RISK_FREE_RATE
+): Greeks => {
+  // Input validation, same fallbacks as calculateDeltas / calculatePrice
+  if (timeToExpiry <= 0 || volatility <= 0 || spotPrice <= 0 || strikePrice <= 0) {
+    return {
+      price: calculatePrice(spotPrice, strikePrice, volatility, timeToExpiry, type, riskFreeRate),
+      delta: 0,
+      gamma: 0,
+      theta: 0,
+      vega: 0,
+      rho: 0,
+    };
+  }
+
+  const sqrtT = Math.sqrt(timeToExpiry);
+  const d1 =
+    (Math.log(spotPrice / strikePrice) + (riskFreeRate + 0.5 * (volatility * volatility)) * timeToExpiry) /
+    (volatility * sqrtT);
+  const d2 = d1 - volatility * sqrtT;
+  const discountedStrike = strikePrice * Math.exp(-riskFreeRate * timeToExpiry);
+  const pdfD1 = normalPDF(d1);
+
+  const gamma = pdfD1 / (spotPrice * volatility * sqrtT);
+  const vega = (spotPrice * pdfD1 * sqrtT) / 100;
+  // Time decay of the optionality, common to calls and puts
+  const decay = -(spotPrice * pdfD1 * volatility) / (2 * sqrtT);
+
+  if (type === 'CE') {
+    return {
+      price: spotPrice * normalCDF(d1) - discountedStrike * normalCDF(d2),
+      delta: normalCDF(d1),
+      gamma,
+      theta: decay - riskFreeRate * discountedStrike * normalCDF(d2),
+      vega,
+      rho: (timeToExpiry * discountedStrike * normalCDF(d2)) / 100,
+    };
+  } else {
+    return {
+      price: discountedStrike * normalCDF(-d2) - spotPrice * normalCDF(-d1),
+      delta: normalCDF(d1) - 1,
+      gamma,
+      theta: decay + riskFreeRate * discountedStrike * normalCDF(-d2),
+      vega,
+      rho: -(timeToExpiry * discountedStrike * normalCDF(-d2)) / 100,
+    };
+  }
+};
+
+// Calculate Black-76 price and greeks (long option on a futures contract) in a single pass.
+// Delta and gamma are with respect to the futures price, and rho holds the futures price constant.
+export const calculateBlack76Greeks = (
+  futuresPrice: number,
+  strikePrice: number,
+  volatility: number,
+  timeToExpiry: number,
+  type: 'CE' | 'PE',
+  riskFreeRate = DEFAULT_RISK_FREE_RATE
+): Greeks => {
+  if (timeToExpiry <= 0 || volatility <= 0 || futuresPrice <= 0 || strikePrice <= 0) {
+    const intrinsicValue = type === 'CE' ? futuresPrice - strikePrice : strikePrice - futuresPrice;
+    return { price: Math.max(0, intrinsicValue), delta: 0, gamma: 0, theta: 0, vega: 0, rho: 0 };
+  }
+
+  const sqrtT = Math.sqrt(timeToExpiry);
+  const d1 =
+    (Math.log(futuresPrice / strikePrice) + 0.5 * (volatility * volatility) * timeToExpiry) / (volatility * sqrtT);
+  const d2 = d1 - volatility * sqrtT;
+  const discount = Math.exp(-riskFreeRate * timeToExpiry);
+  const pdfD1 = normalPDF(d1);
+
+  const price =
+    type === 'CE'
+      ? discount * (futuresPrice * normalCDF(d1) - strikePrice * normalCDF(d2))
+      : discount * (strikePrice * normalCDF(-d2) - futuresPrice * normalCDF(-d1));
+
+  return {
+    price,
+    delta: type === 'CE' ? discount * normalCDF(d1) : discount * (normalCDF(d1) - 1),
+    gamma: (discount * pdfD1) / (futuresPrice * volatility * sqrtT),
+    theta: -(discount * futuresPrice * pdfD1 * volatility) / (2 * sqrtT) + riskFreeRate * price,
+    vega: (discount * futuresPrice * pdfD1 * sqrtT) / 100,
+    rho: -(timeToExpiry * price) / 100,
+  };
+};
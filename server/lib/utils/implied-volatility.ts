@@ -0,0 +1,77 @@
+import type { PricingModel } from '@server/lib/utils/pricing-models';
+
+// Search range for the solver (annualised, as a fraction)
+const MIN_VOLATILITY = 0.0001;
+const MAX_VOLATILITY = 5;
+
+const PRICE_TOLERANCE = 1e-6;
+const VOLATILITY_TOLERANCE = 1e-8;
+const MAX_ITERATIONS = 100;
+
+/**
+ * Solve for the volatility at which the price of an option under the given pricing model equals the given price.
+ *
+ * Uses Newton-Raphson on vega, safeguarded by a bracket that shrinks every iteration:
+ * whenever a Newton step would leave the bracket (or vega vanishes deep in/out of the money),
+ * the next guess falls back to bisection, so the solver always converges.
+ *
+ * @param initialGuess - starting volatility, e.g. the commodity's annual volatility
+ * @returns annualised implied volatility as a fraction, or 0 if no volatility in range reproduces the price
+ *          (e.g. a bid below intrinsic value)
+ */
+export const calculateImpliedVolatility = (
+  price: number,
+  underlyingPrice: number,
+  strikePrice: number,
+  timeToExpiry: number,
+  type: 'CE' | 'PE',
+  model: PricingModel,
+  riskFreeRate: number,
+  initialGuess = 0.3
+): number => {
+  if (price <= 0 || timeToExpiry <= 0 || underlyingPrice <= 0 || strikePrice <= 0) {
+    return 0;
+  }
+
+  const greeksAt = (volatility: number) =>
+    model.calculateGreeks(underlyingPrice, strikePrice, volatility, timeToExpiry, type, riskFreeRate);
+
+  let low = MIN_VOLATILITY;
+  let high = MAX_VOLATILITY;
+
+  // Option prices increase monotonically with volatility, so the price must lie within the bracket.
+  // A price at the lower bound carries no time value, and any low volatility would reproduce it.
+  if (price - greeksAt(low).price < PRICE_TOLERANCE || price > greeksAt(high).price) {
+    return 0;
+  }
+
+  let volatility = initialGuess > low && initialGuess < high ? initialGuess : (low + high) / 2;
+
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const greeks = greeksAt(volatility);
+    const difference = greeks.price - price;
+
+    if (Math.abs(difference) < PRICE_TOLERANCE) {
+      return volatility;
+    }
+
+    // Tighten the bracket around the root
+    if (difference > 0) {
+      high = volatility;
+    } else {
+      low = volatility;
+    }
+
+    if (high - low < VOLATILITY_TOLERANCE) {
+      return (low + high) / 2;
+    }
+
+    // Vega is quoted per 1% change in volatility
+    const vega = greeks.vega * 100;
+    const newtonStep = volatility - difference / vega;
+
+    volatility = vega > 0 && newtonStep > low && newtonStep < high ? newtonStep : (low + high) / 2;
+  }
+
+  return volatility;
+};
@@ -0,0 +1,43 @@
+import { calculateBlack76Greeks, calculateGreeks, type Greeks } from '@server/lib/utils/delta';
+
+export interface PricingModel {
+  label: string;
+  /**
+   * Price and greeks of a long option
+   * @param underlyingPrice - price of the instrument the option is written on (the FUT LTP for MCX options)
+   * @param riskFreeRate - annualised, as a fraction
+   */
+  calculateGreeks: (
+    underlyingPrice: number,
+    strikePrice: number,
+    volatility: number,
+    timeToExpiry: number,
+    type: 'CE' | 'PE',
+    riskFreeRate: number
+  ) => Greeks;
+}
+
+/**
+ * Option pricing models that can be selected in the settings.
+ * MCX options settle on futures, so Black-76 is the default; Black-Scholes treats the FUT LTP as spot.
+ */
+export const PRICING_MODELS = {
+  black76: {
+    label: 'Black-76 (futures)',
+    calculateGreeks: calculateBlack76Greeks,
+  },
+  blackScholes: {
+    label: 'Black-Scholes (spot)',
+    calculateGreeks,
+  },
+} as const satisfies Record<string, PricingModel>;
+
+export type PricingModelName = keyof typeof PRICING_MODELS;
+
+export const PRICING_MODEL_NAMES = Object.keys(PRICING_MODELS) as [PricingModelName, ...PricingModelName[]];
+
+export const DEFAULT_PRICING_MODEL: PricingModelName = 'black76';
+
+export function isPricingModelName(name: string): name is PricingModelName {
+  return name in PRICING_MODELS;
+}
@@ -0,0 +1,43 @@
+/**
+ * Fields a sell candidate can be scored on, with the unit each is weighted in
+ */
+export const SCORE_FIELDS = {
+  returnValue: { label: 'Return Value (%)' },
+  addedValue: { label: 'Added Value (RV % / |Delta|)' },
+  absDelta: { label: '|Delta|' },
+  strikePosition: { label: 'Strike Position (%)' },
+  sigmaDistance: { label: 'Distance (SDs)' },
+  daysToExpiry: { label: 'Days to Expiry (market days)' },
+  bidSize: { label: 'Bid Size (best bid quantity)' },
+  ivPremium: { label: 'IV Premium (bid IV − AV, %)' },
+} as const satisfies Record<string, { label: string }>;
+
+export type ScoreField = keyof typeof SCORE_FIELDS;
+
+export const SCORE_FIELD_NAMES = Object.keys(SCORE_FIELDS) as [ScoreField, ...ScoreField[]];
+
+/**
+ * Weight of each field in the score, 0 to leave it out. Negative weights penalise a field.
+ */
+export type ScoreWeights = Record<ScoreField, number>;
+
+/**
+ * Ranks by added value alone, the default sort of the tables before scoring was configurable
+ */
+export const DEFAULT_SCORE_WEIGHTS: ScoreWeights = {
+  returnValue: 0,
+  addedValue: 1,
+  absDelta: 0,
+  strikePosition: 0,
+  sigmaDistance: 0,
+  daysToExpiry: 0,
+  bidSize: 0,
+  ivPremium: 0,
+};
+
+/**
+ * Weighted sum of the fields of an option
+ */
+export function calculateScore(weights: ScoreWeights, values: Record<ScoreField, number>) {
+  return SCORE_FIELD_NAMES.reduce((score, field) => score + weights[field] * values[field], 0);
+}
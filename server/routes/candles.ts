@@ -0,0 +1,31 @@
+import { CANDLE_INTERVAL_NAMES, candleService } from '@server/lib/services/candles';
+import { routeValidator } from '@server/middlewares/validator';
+import { CONFIG, type Symbol } from '@server/shared/config';
+import { Hono } from 'hono';
+import { z } from 'zod';
+
+const symbolSchema = z.enum(Object.keys(CONFIG) as [Symbol, ...Symbol[]]);
+
+const candlesQuerySchema = z.object({
+  interval: z.enum(CANDLE_INTERVAL_NAMES).default('1m'),
+  // Expiry of the future (YYYY-MM-DD); defaults to the nearest one with candles
+  expiry: z.string().optional(),
+});
+
+export const candlesRoute = new Hono()
+  // OHLC candles of a symbol's future LTP
+  .get(
+    '/:symbol',
+    routeValidator('param', z.object({ symbol: symbolSchema })),
+    routeValidator('query', candlesQuerySchema),
+    async (c) => {
+      const { symbol } = c.req.valid('param');
+      const { interval, expiry: requestedExpiry } = c.req.valid('query');
+
+      const expiries = candleService.getExpiries(symbol);
+      const expiry = requestedExpiry ?? expiries[0] ?? null;
+      const candles = expiry ? candleService.getCandles(symbol, expiry, interval) : [];
+
+      return c.json({ symbol, expiry, interval, expiries, candles });
+    }
+  );
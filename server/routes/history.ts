@@ -0,0 +1,42 @@
+import { HISTORY_FIELDS, snapshotService } from '@server/lib/services/snapshots';
+import { routeValidator } from '@server/middlewares/validator';
+import { Hono } from 'hono';
+import { z } from 'zod';
+
+const DEFAULT_RANGE_MS = 24 * 60 * 60 * 1000;
+
+const historyQuerySchema = z
+  .object({
+    // Unix timestamps in milliseconds; defaults to the last 24 hours
+    from: z.coerce.number().int().nonnegative().optional(),
+    to: z.coerce.number().int().nonnegative().optional(),
+    // Comma-separated list of fields; defaults to all of them
+    fields: z
+      .string()
+      .optional()
+      .transform((value) => (value ? value.split(',').map((field) => field.trim()) : [...HISTORY_FIELDS]))
+      .pipe(z.array(z.enum(HISTORY_FIELDS)).min(1)),
+    // Maximum number of points to return
+    points: z.coerce.number().int().min(2).max(2000).default(200),
+  })
+  .transform(({ from, to, ...rest }) => {
+    const end = to ?? Date.now();
+    return { ...rest, from: from ?? end - DEFAULT_RANGE_MS, to: end };
+  })
+  .refine(({ from, to }) => from <= to, { message: '`from` must not be after `to`' });
+
+export const historyRoute = new Hono()
+  // Downsampled time series of an instrument's snapshots
+  .get(
+    '/:instrumentToken',
+    routeValidator('param', z.object({ instrumentToken: z.coerce.number().int().positive() })),
+    routeValidator('query', historyQuerySchema),
+    async (c) => {
+      const { instrumentToken } = c.req.valid('param');
+      const { from, to, fields, points: maxPoints } = c.req.valid('query');
+
+      const { bucketMs, points } = await snapshotService.getHistory(instrumentToken, from, to, fields, maxPoints);
+
+      return c.json({ instrumentToken, from, to, fields, bucketMs, points });
+    }
+  );
@@ -1,9 +1,14 @@
 import { logger } from '@server/lib/logger';
-import { kiteService } from '@server/lib/services/kite';
+import { basketMarginService } from '@server/lib/services/basket-margin';
+import { getOrderBroker } from '@server/lib/services/broker';
+import { orderChaserService } from '@server/lib/services/chaser';
+import { getBasketMargins } from '@server/lib/services/kite';
+import { orderService } from '@server/lib/services/orders';
+import { slicedOrderService } from '@server/lib/services/slicer';
+import { strategyService, type RollbackResult } from '@server/lib/services/strategies';
 import { routeValidator } from '@server/middlewares/validator';
 import { Hono } from 'hono';
 import { HTTPException } from 'hono/http-exception';
-import type { PlaceOrderParams } from 'kiteconnect-ts';
 import { z } from 'zod';
 
 const placeOrderSchema = z.object({
@@ -12,29 +17,135 @@ const placeOrderSchema = z.object({
   quantity: z.number().int().positive(),
 });
 
+const buyOrderSchema = placeOrderSchema.extend({
+  // Should match the product of the position being closed
+  product: z.enum(['NRML', 'MIS']).default('NRML'),
+});
+
+const slicedOrderSchema = placeOrderSchema.extend({
+  instrumentToken: z.number().int().positive(),
+  maxSliceQuantity: z.number().int().positive(),
+  intervalSeconds: z.number().int().min(1).max(600).default(5),
+});
+
+const modifyOrderSchema = z
+  .object({
+    price: z.number().positive().optional(),
+    quantity: z.number().int().positive().optional(),
+  })
+  .refine(({ price, quantity }) => price !== undefined || quantity !== undefined, {
+    message: 'Either `price` or `quantity` is required',
+  });
+
+const incrementalMarginSchema = placeOrderSchema.extend({
+  transactionType: z.enum(['BUY', 'SELL']).default('SELL'),
+});
+
+const strategyLegsSchema = z.object({
+  legs: z
+    .array(
+      placeOrderSchema.extend({
+        transactionType: z.enum(['BUY', 'SELL']),
+      })
+    )
+    .min(1)
+    .max(4),
+});
+
+/**
+ * One line per leg that was placed before a strategy failed, e.g. "GOLD25DEC130000PE cancelled"
+ */
+function describeRollback(rollback: RollbackResult[]) {
+  if (rollback.length === 0) {
+    return 'No legs needed rolling back';
+  }
+  const description = rollback
+    .map((result) => {
+      switch (result.action) {
+        case 'cancelled':
+          return `${result.tradingsymbol} cancelled`;
+        case 'reversed':
+          return `${result.tradingsymbol} closed ${result.quantity} filled lots`;
+        case 'failed':
+          return `${result.tradingsymbol} NOT rolled back (${result.error})`;
+      }
+    })
+    .join('; ');
+  return rollback.some((result) => result.action === 'failed')
+    ? `Rollback failed, check your positions: ${description}`
+    : description;
+}
+
+const orderIdParamSchema = z.object({ id: z.string().min(1) });
+
+const chaseOrderSchema = z.object({
+  floorPrice: z.number().positive(),
+  maxModifications: z.number().int().min(1).max(100).default(10),
+  timeoutSeconds: z.number().int().min(5).max(3600).default(60),
+});
+
 export const ordersRoute = new Hono()
+  // Orders placed from the app, most recent first
+  .get(
+    '/',
+    routeValidator('query', z.object({ limit: z.coerce.number().int().min(1).max(1000).default(200) })),
+    async (c) => {
+      const { limit } = c.req.valid('query');
+      const orders = await orderService.getOrders(limit);
+      return c.json({ orders });
+    }
+  )
+  // Today's open orders from the Kite order book
+  .get('/open', async (c) => {
+    try {
+      const orders = await orderService.getOpenOrders();
+      return c.json({ orders });
+    } catch (error) {
+      logger.error('Error fetching open orders:', error);
+      throw new HTTPException(500, { message: 'Failed to fetch open orders', cause: error });
+    }
+  })
+  // Active and recently finished chases
+  .get('/chases', (c) => {
+    return c.json({ chases: orderChaserService.getChases() });
+  })
   // Place a sell order
   .post('/sell', routeValidator('json', placeOrderSchema), async (c) => {
     const { tradingsymbol, price, quantity } = c.req.valid('json');
 
     try {
-      const placeOrderParams: PlaceOrderParams = {
-        exchange: 'MCX',
+      const orderId = await orderService.placeLimitOrder({ tradingsymbol, transactionType: 'SELL', quantity, price });
+
+      return c.json({
+        success: true,
+        order_id: orderId,
+      });
+    } catch (error) {
+      logger.error('Error placing order:', error);
+
+      if (error instanceof Error) {
+        throw new HTTPException(400, { message: `Failed to place order: ${error.message}` });
+      }
+
+      throw new HTTPException(500, { message: 'Failed to place order' });
+    }
+  })
+  // Place a buy order, e.g. to close a short position
+  .post('/buy', routeValidator('json', buyOrderSchema), async (c) => {
+    const { tradingsymbol, price, quantity, product } = c.req.valid('json');
+
+    try {
+      const orderId = await orderService.placeLimitOrder({
         tradingsymbol,
-        transaction_type: 'SELL',
+        transactionType: 'BUY',
         quantity,
-        product: 'NRML',
-        order_type: 'LIMIT',
         price,
-      };
-      logger.info('Placing order:', placeOrderParams);
-      const result = await kiteService.placeOrder('regular', placeOrderParams);
-
-      logger.info(`Order placed successfully: ${result.order_id} for ${tradingsymbol}`);
+        product,
+      });
 
       return c.json({
         success: true,
-        order_id: result.order_id,
+        order_id: orderId,
       });
     } catch (error) {
       logger.error('Error placing order:', error);
@@ -45,4 +156,180 @@ export const ordersRoute = new Hono()
 
       throw new HTTPException(500, { message: 'Failed to place order' });
     }
+  })
+  // Combined margin of the legs of a strategy, with and without the hedge benefit between them
+  .post('/basket-margin', routeValidator('json', strategyLegsSchema), async (c) => {
+    const { legs } = c.req.valid('json');
+
+    try {
+      const margins = await getBasketMargins(legs);
+      return c.json(margins);
+    } catch (error) {
+      logger.error('Error fetching basket margin:', error);
+
+      if (error instanceof Error) {
+        throw new HTTPException(400, { message: `Failed to fetch basket margin: ${error.message}` });
+      }
+
+      throw new HTTPException(500, { message: 'Failed to fetch basket margin' });
+    }
+  })
+  // Margin an order adds to the current positions, after the hedge benefit between them
+  .post('/incremental-margin', routeValidator('json', incrementalMarginSchema), async (c) => {
+    const order = c.req.valid('json');
+
+    try {
+      const margin = await basketMarginService.getIncrementalMargin(order);
+      return c.json(margin);
+    } catch (error) {
+      logger.error(`Error fetching incremental margin of ${order.tradingsymbol}:`, error);
+
+      if (error instanceof Error) {
+        throw new HTTPException(400, { message: `Failed to fetch incremental margin: ${error.message}` });
+      }
+
+      throw new HTTPException(500, { message: 'Failed to fetch incremental margin' });
+    }
+  })
+  // Place the legs of a strategy together, rolling back the placed legs if one fails
+  .post('/strategy', routeValidator('json', strategyLegsSchema), async (c) => {
+    const { legs } = c.req.valid('json');
+
+    const result = await strategyService.place(legs);
+    if (!result.success) {
+      throw new HTTPException(400, {
+        message: `Failed to place strategy: ${result.error}. ${describeRollback(result.rollback)}`,
+      });
+    }
+
+    return c.json({ success: true, orderIds: result.orderIds });
+  })
+  // Active and recently finished sliced orders, with their child orders
+  .get('/sliced', (c) => {
+    return c.json({ orders: slicedOrderService.getOrders() });
+  })
+  // Sell a large quantity in slices sized to the quantity at the best bid
+  .post('/sliced', routeValidator('json', slicedOrderSchema), async (c) => {
+    const params = c.req.valid('json');
+
+    const order = await slicedOrderService.place(params);
+    if (order.status === 'failed') {
+      throw new HTTPException(400, { message: `Failed to place sliced order: ${order.statusMessage}` });
+    }
+
+    return c.json({ order });
+  })
+  // Stop placing the slices of an order, leaving its open children in the order book
+  .delete('/sliced/:id', routeValidator('param', orderIdParamSchema), (c) => {
+    const { id } = c.req.valid('param');
+
+    try {
+      const order = slicedOrderService.stopOrder(id);
+      return c.json({ order });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new HTTPException(400, { message: `Failed to stop sliced order: ${error.message}` });
+      }
+
+      throw new HTTPException(500, { message: 'Failed to stop sliced order' });
+    }
+  })
+  // Buy back all short option positions of an underlying at their best ask
+  .post('/square-off', routeValidator('json', z.object({ underlying: z.string().min(1) })), async (c) => {
+    const { underlying } = c.req.valid('json');
+
+    try {
+      const results = await orderService.squareOffShorts(underlying);
+      return c.json({ results });
+    } catch (error) {
+      logger.error(`Error squaring off ${underlying}:`, error);
+      throw new HTTPException(500, { message: `Failed to square off ${underlying}`, cause: error });
+    }
+  })
+  // Modify the price and/or quantity of an open order
+  .put('/:id', routeValidator('param', orderIdParamSchema), routeValidator('json', modifyOrderSchema), async (c) => {
+    const { id } = c.req.valid('param');
+    const { price, quantity } = c.req.valid('json');
+
+    try {
+      logger.info(`Modifying order ${id}:`, { price, quantity });
+      const result = await orderService.modifyOrder(id, { price, quantity });
+
+      logger.info(`Order modified successfully: ${result.order_id}`);
+
+      return c.json({
+        success: true,
+        order_id: result.order_id,
+      });
+    } catch (error) {
+      logger.error(`Error modifying order ${id}:`, error);
+
+      if (error instanceof Error) {
+        throw new HTTPException(400, { message: `Failed to modify order: ${error.message}` });
+      }
+
+      throw new HTTPException(500, { message: 'Failed to modify order' });
+    }
+  })
+  // Cancel an open order
+  .delete('/:id', routeValidator('param', orderIdParamSchema), async (c) => {
+    const { id } = c.req.valid('param');
+
+    try {
+      logger.info(`Cancelling order ${id}`);
+      const result = await getOrderBroker(id).cancelOrder(id);
+
+      logger.info(`Order cancelled successfully: ${result.order_id}`);
+
+      return c.json({
+        success: true,
+        order_id: result.order_id,
+      });
+    } catch (error) {
+      logger.error(`Error cancelling order ${id}:`, error);
+
+      if (error instanceof Error) {
+        throw new HTTPException(400, { message: `Failed to cancel order: ${error.message}` });
+      }
+
+      throw new HTTPException(500, { message: 'Failed to cancel order' });
+    }
+  })
+  // Chase the best bid with an open sell order, down to a floor price
+  .post(
+    '/:id/chase',
+    routeValidator('param', orderIdParamSchema),
+    routeValidator('json', chaseOrderSchema),
+    async (c) => {
+      const { id } = c.req.valid('param');
+      const params = c.req.valid('json');
+
+      try {
+        const chase = await orderChaserService.chase({ orderId: id, ...params });
+        return c.json({ chase });
+      } catch (error) {
+        logger.error(`Error chasing order ${id}:`, error);
+
+        if (error instanceof Error) {
+          throw new HTTPException(400, { message: `Failed to chase order: ${error.message}` });
+        }
+
+        throw new HTTPException(500, { message: 'Failed to chase order' });
+      }
+    }
+  )
+  // Stop chasing an order, leaving it open at its current price
+  .delete('/:id/chase', routeValidator('param', orderIdParamSchema), (c) => {
+    const { id } = c.req.valid('param');
+
+    try {
+      const chase = orderChaserService.stopChase(id);
+      return c.json({ chase });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new HTTPException(400, { message: `Failed to stop chase: ${error.message}` });
+      }
+
+      throw new HTTPException(500, { message: 'Failed to stop chase' });
+    }
   });
@@ -0,0 +1,16 @@
+import { logger } from '@server/lib/logger';
+import { positionsService } from '@server/lib/services/positions';
+import { Hono } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+
+export const positionsRoute = new Hono()
+  // Open MCX option positions with live prices, MTM, delta and margin
+  .get('/', async (c) => {
+    try {
+      const positions = await positionsService.getOptionPositions();
+      return c.json({ positions });
+    } catch (error) {
+      logger.error('Error fetching positions:', error);
+      throw new HTTPException(500, { message: 'Failed to fetch positions', cause: error });
+    }
+  });
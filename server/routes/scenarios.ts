@@ -0,0 +1,39 @@
+import { logger } from '@server/lib/logger';
+import { DEFAULT_IV_SHIFTS, DEFAULT_UNDERLYING_MOVES, scenarioService } from '@server/lib/services/scenarios';
+import { routeValidator } from '@server/middlewares/validator';
+import { Hono } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod';
+
+const MAX_GRID_STEPS = 25;
+
+// Comma-separated list of numbers, sorted and deduplicated
+const numberList = (min: number, max: number, defaultValue: number[]) =>
+  z
+    .string()
+    .optional()
+    .transform((value) => (value ? value.split(',').map((item) => Number(item.trim())) : defaultValue))
+    .pipe(z.array(z.number().min(min).max(max)).min(1).max(MAX_GRID_STEPS))
+    .transform((values) => [...new Set(values)].sort((a, b) => a - b));
+
+const scenariosQuerySchema = z.object({
+  // Underlying moves in %
+  moves: numberList(-50, 50, DEFAULT_UNDERLYING_MOVES),
+  // Volatility shifts in percentage points
+  ivShifts: numberList(-50, 100, DEFAULT_IV_SHIFTS),
+  daysForward: z.coerce.number().int().min(0).max(90).default(0),
+});
+
+export const scenariosRoute = new Hono()
+  // P&L of the open option positions under a grid of underlying moves and volatility shifts
+  .get('/', routeValidator('query', scenariosQuerySchema), async (c) => {
+    const { moves, ivShifts, daysForward } = c.req.valid('query');
+
+    try {
+      const result = await scenarioService.run({ underlyingMoves: moves, ivShifts, daysForward });
+      return c.json(result);
+    } catch (error) {
+      logger.error('Error running scenarios:', error);
+      throw new HTTPException(500, { message: 'Failed to run scenarios', cause: error });
+    }
+  });
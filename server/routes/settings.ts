@@ -1,18 +1,71 @@
+import { paperBroker } from '@server/lib/services/paper-broker';
 import { settingsService } from '@server/lib/services/settings';
+import { PRICING_MODEL_NAMES, PRICING_MODELS } from '@server/lib/utils/pricing-models';
+import { SCORE_FIELD_NAMES, SCORE_FIELDS, type ScoreWeights } from '@server/lib/utils/scoring';
 import { routeValidator } from '@server/middlewares/validator';
-import { CONFIG, type Symbol } from '@server/shared/config';
+import { CONFIG, PAGE_GROUPS, type PageId, type Symbol } from '@server/shared/config';
 import { Hono } from 'hono';
 import { HTTPException } from 'hono/http-exception';
 import { z } from 'zod';
 
 const symbolSchema = z.enum(Object.keys(CONFIG) as [Symbol, ...Symbol[]]);
 
+const pageSchema = z.enum(Object.keys(PAGE_GROUPS) as [PageId, ...PageId[]]);
+
 const updateCommoditySchema = z.object({
   vix: z.number().positive().optional(),
   bidBalance: z.number().min(0).optional(),
   multiplier: z.number().positive().optional(),
 });
 
+const updateSnapshotsSchema = z.object({
+  intervalSeconds: z.number().int().min(5).max(3600).optional(),
+  retentionDays: z.number().int().min(1).max(365).optional(),
+});
+
+const updateRiskLimitsSchema = z
+  .object({
+    maxLotsPerOrder: z.number().int().min(0),
+    maxLotsPerUnderlying: z.number().int().min(0),
+    maxMarginUtilisationPct: z.number().min(0).max(100),
+    minStrikePosition: z.number().min(0).max(100),
+    minSdDistance: z.number().min(0).max(10),
+    maxDelta: z.number().min(0).max(1),
+  })
+  .partial();
+
+const updateScoreWeightsSchema = z
+  .object(
+    Object.fromEntries(SCORE_FIELD_NAMES.map((field) => [field, z.number().min(-1000).max(1000)])) as Record<
+      keyof ScoreWeights,
+      z.ZodNumber
+    >
+  )
+  .partial();
+
+const updatePaperTradingSchema = z.object({
+  enabled: z.boolean(),
+});
+
+const resetPaperAccountSchema = z.object({
+  startingCash: z.number().positive(),
+});
+
+/**
+ * Paper trading setting with the cash and margin of the paper account
+ */
+async function getPaperTrading() {
+  const enabled = await settingsService.getPaperTrading();
+  const { startingCash, cash, resetAt } = await paperBroker.getAccount();
+  const margins = await paperBroker.getMargins();
+  return { enabled, account: { startingCash, cash, resetAt, ...margins } };
+}
+
+const updatePricingSchema = z.object({
+  model: z.enum(PRICING_MODEL_NAMES).optional(),
+  riskFreeRate: z.number().min(0).max(1).optional(),
+});
+
 export const settingsRoute = new Hono()
   // SD Multiplier
   .get('/sd-multiplier', async (c) => {
@@ -20,6 +73,126 @@ export const settingsRoute = new Hono()
     return c.json({ value });
   })
 
+  // Pricing model and risk-free rate
+  .get('/pricing', async (c) => {
+    const model = await settingsService.getPricingModel();
+    const riskFreeRate = await settingsService.getRiskFreeRate();
+    const models = PRICING_MODEL_NAMES.map((name) => ({ name, label: PRICING_MODELS[name].label }));
+    return c.json({ model, riskFreeRate, models });
+  })
+
+  .put('/pricing', routeValidator('json', updatePricingSchema), async (c) => {
+    const { model, riskFreeRate } = c.req.valid('json');
+
+    if (model === undefined && riskFreeRate === undefined) {
+      throw new HTTPException(400, { message: 'At least one field (model, riskFreeRate) must be provided' });
+    }
+
+    if (model !== undefined) {
+      await settingsService.setPricingModel(model);
+    }
+    if (riskFreeRate !== undefined) {
+      await settingsService.setRiskFreeRate(riskFreeRate);
+    }
+
+    return c.json({
+      success: true,
+      model: await settingsService.getPricingModel(),
+      riskFreeRate: await settingsService.getRiskFreeRate(),
+    });
+  })
+
+  // Option chain snapshot cadence and retention
+  .get('/snapshots', async (c) => {
+    const intervalSeconds = await settingsService.getSnapshotIntervalSeconds();
+    const retentionDays = await settingsService.getSnapshotRetentionDays();
+    return c.json({ intervalSeconds, retentionDays });
+  })
+
+  .put('/snapshots', routeValidator('json', updateSnapshotsSchema), async (c) => {
+    const { intervalSeconds, retentionDays } = c.req.valid('json');
+
+    if (intervalSeconds === undefined && retentionDays === undefined) {
+      throw new HTTPException(400, { message: 'At least one field (intervalSeconds, retentionDays) must be provided' });
+    }
+
+    if (intervalSeconds !== undefined) {
+      await settingsService.setSnapshotIntervalSeconds(intervalSeconds);
+    }
+    if (retentionDays !== undefined) {
+      await settingsService.setSnapshotRetentionDays(retentionDays);
+    }
+
+    return c.json({
+      success: true,
+      intervalSeconds: await settingsService.getSnapshotIntervalSeconds(),
+      retentionDays: await settingsService.getSnapshotRetentionDays(),
+    });
+  })
+
+  // Pre-trade risk limits on sell orders, 0 when disabled
+  .get('/risk-limits', async (c) => {
+    const limits = await settingsService.getRiskLimits();
+    return c.json({ limits });
+  })
+
+  .put('/risk-limits', routeValidator('json', updateRiskLimitsSchema), async (c) => {
+    const updates = c.req.valid('json');
+
+    if (Object.values(updates).every((value) => value === undefined)) {
+      throw new HTTPException(400, { message: 'At least one risk limit must be provided' });
+    }
+
+    await settingsService.setRiskLimits(updates);
+
+    return c.json({ success: true, limits: await settingsService.getRiskLimits() });
+  })
+
+  // Weights of the fields each page scores its sell candidates on
+  .get('/scoring', async (c) => {
+    const pages = {} as Record<PageId, ScoreWeights>;
+    for (const page of pageSchema.options) {
+      pages[page] = await settingsService.getScoreWeights(page);
+    }
+    const fields = SCORE_FIELD_NAMES.map((name) => ({ name, label: SCORE_FIELDS[name].label }));
+    return c.json({ pages, fields });
+  })
+
+  .put(
+    '/scoring/:page',
+    routeValidator('param', z.object({ page: pageSchema })),
+    routeValidator('json', updateScoreWeightsSchema),
+    async (c) => {
+      const { page } = c.req.valid('param');
+      const updates = c.req.valid('json');
+
+      if (Object.values(updates).every((value) => value === undefined)) {
+        throw new HTTPException(400, { message: 'At least one score weight must be provided' });
+      }
+
+      await settingsService.setScoreWeights(page, updates);
+
+      return c.json({ success: true, weights: await settingsService.getScoreWeights(page) });
+    }
+  )
+
+  // Paper trading, where orders are simulated against the live bid and ask instead of sent to Kite
+  .get('/paper-trading', async (c) => {
+    return c.json(await getPaperTrading());
+  })
+
+  .put('/paper-trading', routeValidator('json', updatePaperTradingSchema), async (c) => {
+    const { enabled } = c.req.valid('json');
+    await settingsService.setPaperTrading(enabled);
+    return c.json({ success: true, ...(await getPaperTrading()) });
+  })
+
+  .post('/paper-trading/reset', routeValidator('json', resetPaperAccountSchema), async (c) => {
+    const { startingCash } = c.req.valid('json');
+    await paperBroker.reset(startingCash);
+    return c.json({ success: true, ...(await getPaperTrading()) });
+  })
+
   // Get all commodity configs
   .get('/commodities', async (c) => {
     const configs = await settingsService.getAllCommodityConfigs();
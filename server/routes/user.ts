@@ -1,4 +1,5 @@
 import { logger } from '@server/lib/logger';
+import { getBroker } from '@server/lib/services/broker';
 import { kiteService } from '@server/lib/services/kite';
 import { Hono } from 'hono';
 import { HTTPException } from 'hono/http-exception';
@@ -15,8 +16,9 @@ export const userRoute = new Hono()
   })
   .get('/margin', async (c) => {
     try {
-      const userMargins = await kiteService.getMargins('equity');
-      return c.json({ net: userMargins.net });
+      // Margin of the paper account while paper trading
+      const { net } = await (await getBroker()).getMargins();
+      return c.json({ net });
     } catch (error) {
       logger.error('Error fetching user margin:', error);
       throw new HTTPException(500, { message: 'Failed to fetch user margin', cause: error });
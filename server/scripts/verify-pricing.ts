@@ -0,0 +1,179 @@
+/**
+ * Numerical checks for the pricing utilities in delta.ts.
+ *
+ * - normalCDF and calculateDeltas against reference values computed independently with
+ *   Python's math.erfc (0.5 * erfc(-x / sqrt(2)), and d1 with r = 0.07)
+ * - put-call parity of prices and deltas for every pricing model across a moneyness × vol × time grid
+ *
+ * Run with `npm run verify:pricing`; exits with a non-zero code if any check fails.
+ */
+
+import { calculateDeltas, DEFAULT_RISK_FREE_RATE, normalCDF } from '@server/lib/utils/delta';
+import { PRICING_MODEL_NAMES, PRICING_MODELS } from '@server/lib/utils/pricing-models';
+
+const RELATIVE_TOLERANCE = 1e-10;
+const ABSOLUTE_TOLERANCE = 1e-15;
+const PARITY_TOLERANCE = 1e-9;
+
+// [x, Φ(x)]
+const CDF_REFERENCE: [number, number][] = [
+  [-37.5, 4.605353009582584e-308],
+  [-20, 2.7536241186063314e-89],
+  [-10, 7.619853024160593e-24],
+  [-8, 6.220960574271819e-16],
+  [-6, 9.865876450377012e-10],
+  [-5, 2.866515718791946e-7],
+  [-4, 3.1671241833119965e-5],
+  [-3, 0.0013498980316300957],
+  [-2.5, 0.006209665325776139],
+  [-2, 0.02275013194817922],
+  [-1, 0.15865525393145707],
+  [-0.5, 0.3085375387259869],
+  [0, 0.5],
+  [0.5, 0.6914624612740131],
+  [1, 0.8413447460685429],
+  [2, 0.9772498680518208],
+  [3, 0.9986501019683699],
+  [5, 0.9999997133484281],
+  [8, 0.9999999999999993],
+];
+
+// Spot 5347: [strike, volatility, time to expiry (years), CE delta]
+const SPOT = 5347;
+const DELTA_REFERENCE: [number, number, number, number][] = [
+  [3000, 0.15, 0.002, 1.0],
+  [3000, 0.15, 0.0436, 1.0],
+  [3000, 0.15, 0.5, 0.9999999972572173],
+  [3000, 0.3582, 0.002, 1.0],
+  [3000, 0.3582, 0.0436, 0.999999999999997],
+  [3000, 0.3582, 0.5, 0.9945600484830811],
+  [3000, 0.8, 0.002, 1.0],
+  [3000, 0.8, 0.0436, 0.9998156160844441],
+  [3000, 0.8, 0.5, 0.9140851796201501],
+  [4500, 0.15, 0.002, 1.0],
+  [4500, 0.15, 0.0436, 0.9999999904118],
+  [4500, 0.15, 0.5, 0.9777297486512696],
+  [4500, 0.3582, 0.002, 1.0],
+  [4500, 0.3582, 0.0436, 0.991436456114415],
+  [4500, 0.3582, 0.5, 0.8278520398841858],
+  [4500, 0.8, 0.002, 0.9999993578124515],
+  [4500, 0.8, 0.0436, 0.8716445787495779],
+  [4500, 0.8, 0.5, 0.7420184055264201],
+  [5347, 0.15, 0.002, 0.5096630605636491],
+  [5347, 0.15, 0.0436, 0.5450256787508516],
+  [5347, 0.15, 0.5, 0.6491461138013523],
+  [5347, 0.3582, 0.002, 0.5066816169295247],
+  [5347, 0.3582, 0.0436, 0.5311664719316168],
+  [5347, 0.3582, 0.5, 0.6044285275735094],
+  [5347, 0.8, 0.002, 0.5086969161019651],
+  [5347, 0.8, 0.0436, 0.5405395044307827],
+  [5347, 0.8, 0.5, 0.6348455129166475],
+  [6400, 0.15, 0.002, 3.318786062595266e-158],
+  [6400, 0.15, 0.0436, 9.207598611436803e-9],
+  [6400, 0.15, 0.5, 0.09479391896286908],
+  [6400, 0.3582, 0.002, 1.9281383418871396e-29],
+  [6400, 0.3582, 0.0436, 0.010030133842158095],
+  [6400, 0.3582, 0.5, 0.32819781011846194],
+  [6400, 0.8, 0.002, 2.826521883422437e-7],
+  [6400, 0.8, 0.0436, 0.1649441684363646],
+  [6400, 0.8, 0.5, 0.5107448658649499],
+  [8000, 0.15, 0.002, 0.0],
+  [8000, 0.15, 0.0436, 1.544958719791288e-37],
+  [8000, 0.15, 0.5, 0.000318188485032564],
+  [8000, 0.3582, 0.002, 1.0386917148570493e-139],
+  [8000, 0.3582, 0.0436, 5.522117798875581e-8],
+  [8000, 0.3582, 0.5, 0.09243795899733637],
+  [8000, 0.8, 0.002, 1.300439382051048e-29],
+  [8000, 0.8, 0.0436, 0.010439411956218003],
+  [8000, 0.8, 0.5, 0.35661217465203976],
+];
+
+const failures: string[] = [];
+
+function expectClose(label: string, actual: number, expected: number) {
+  const error = Math.abs(actual - expected);
+  if (error > ABSOLUTE_TOLERANCE && error > Math.abs(expected) * RELATIVE_TOLERANCE) {
+    failures.push(
+      `${label}: expected ${expected}, got ${actual} (relative error ${(error / expected).toExponential(2)})`
+    );
+  }
+  return expected === 0 ? error : error / Math.abs(expected);
+}
+
+// ==================== normalCDF ====================
+
+let worstCdfError = 0;
+for (const [x, expected] of CDF_REFERENCE) {
+  worstCdfError = Math.max(worstCdfError, expectClose(`normalCDF(${x})`, normalCDF(x), expected));
+}
+console.log(`normalCDF: ${CDF_REFERENCE.length} values, worst relative error ${worstCdfError.toExponential(2)}`);
+
+// ==================== calculateDeltas ====================
+
+let worstDeltaError = 0;
+for (const [strike, volatility, timeToExpiry, expected] of DELTA_REFERENCE) {
+  const label = `calculateDeltas(${SPOT}, ${strike}, ${volatility}, ${timeToExpiry})`;
+  const callDelta = calculateDeltas(SPOT, strike, volatility, timeToExpiry, 'CE');
+  const putDelta = calculateDeltas(SPOT, strike, volatility, timeToExpiry, 'PE');
+
+  worstDeltaError = Math.max(worstDeltaError, expectClose(`${label} CE`, callDelta, expected));
+  // The PE delta is derived from the same N(d1), so it must be exactly CE delta - 1
+  if (putDelta !== callDelta - 1) {
+    failures.push(`${label} PE: expected ${callDelta - 1}, got ${putDelta}`);
+  }
+}
+console.log(
+  `calculateDeltas: ${DELTA_REFERENCE.length} values, worst relative error ${worstDeltaError.toExponential(2)}`
+);
+
+// ==================== Put-call parity ====================
+
+const strikes = [3000, 4000, 4800, 5347, 5900, 6400, 8000];
+const volatilities = [0.05, 0.15, 0.3582, 0.8, 1.5];
+const timesToExpiry = [0.0005, 0.002, 0.0436, 0.25, 1];
+
+for (const name of PRICING_MODEL_NAMES) {
+  const model = PRICING_MODELS[name];
+  let worstParityError = 0;
+
+  for (const strike of strikes) {
+    for (const volatility of volatilities) {
+      for (const timeToExpiry of timesToExpiry) {
+        const call = model.calculateGreeks(SPOT, strike, volatility, timeToExpiry, 'CE', DEFAULT_RISK_FREE_RATE);
+        const put = model.calculateGreeks(SPOT, strike, volatility, timeToExpiry, 'PE', DEFAULT_RISK_FREE_RATE);
+        const discount = Math.exp(-DEFAULT_RISK_FREE_RATE * timeToExpiry);
+
+        // Black-Scholes: C - P = S - K·e^(-rT), ΔC - ΔP = 1
+        // Black-76:      C - P = e^(-rT)·(F - K), ΔC - ΔP = e^(-rT)
+        const expectedPriceDifference = name === 'black76' ? discount * (SPOT - strike) : SPOT - strike * discount;
+        const expectedDeltaDifference = name === 'black76' ? discount : 1;
+
+        const priceError = Math.abs(call.price - put.price - expectedPriceDifference) / SPOT;
+        const deltaError = Math.abs(call.delta - put.delta - expectedDeltaDifference);
+        worstParityError = Math.max(worstParityError, priceError, deltaError);
+
+        if (priceError > PARITY_TOLERANCE || deltaError > PARITY_TOLERANCE) {
+          failures.push(
+            `${model.label} parity (K=${strike}, σ=${volatility}, T=${timeToExpiry}): ` +
+              `price error ${priceError.toExponential(2)}, delta error ${deltaError.toExponential(2)}`
+          );
+        }
+      }
+    }
+  }
+
+  console.log(
+    `${model.label} put-call parity: ${strikes.length * volatilities.length * timesToExpiry.length} points, ` +
+      `worst error ${worstParityError.toExponential(2)}`
+  );
+}
+
+if (failures.length > 0) {
+  console.error(`\n${failures.length} check(s) failed:`);
+  for (const failure of failures) {
+    console.error(`  ${failure}`);
+  }
+  process.exit(1);
+}
+
+console.log('\nAll checks passed');
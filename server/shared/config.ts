@@ -28,4 +28,15 @@ export const WORKER_GROUPS = [
   ['CRUDEOIL', 'CRUDEOILM', 'NATURALGAS', 'NATGASMINI'],
 ] as const;
 
+/**
+ * Pages of the client, each showing the symbols of one worker group
+ */
+export const PAGE_GROUPS = {
+  gold: WORKER_GROUPS[0],
+  silver: WORKER_GROUPS[1],
+  energy: WORKER_GROUPS[2],
+} as const;
+
+export type PageId = keyof typeof PAGE_GROUPS;
+
 export type Symbol = keyof typeof CONFIG;
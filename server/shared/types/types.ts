@@ -1,6 +1,15 @@
 import type { instrumentsTable } from '@server/db/schema';
 import type { TickFull } from 'kiteconnect-ts';
 
+/**
+ * State of the order margin an option's return value is computed from:
+ * - fresh: fetched within the refresh interval of the option
+ * - stale: older than that, or fetched before the underlying moved, and waiting for a refresh
+ * - failed: Kite didn't return it on the last attempt
+ * - pending: never fetched yet
+ */
+export type OrderMarginStatus = 'fresh' | 'stale' | 'failed' | 'pending';
+
 type Instrument = typeof instrumentsTable.$inferSelect;
 export type OptionChain = Instrument & {
   /**
@@ -16,6 +25,11 @@ export type OptionChain = Instrument & {
   sellValue: number;
   strikePosition: number;
   orderMargin: number;
+  /**
+   * When the order margin was last fetched, in epoch ms. 0 until the first fetch
+   */
+  orderMarginUpdatedAt: number;
+  orderMarginStatus: OrderMarginStatus;
   returnValue: number;
   sd: number;
   sigmaN: number;
@@ -25,4 +39,48 @@ export type OptionChain = Instrument & {
   av: number;
   dv: number;
   addedValue: number;
+  /**
+   * Weighted score of the option as a sell candidate, from the score weights of its page. 0 without a return value
+   */
+  score: number;
+  /**
+   * Value of the option under the selected pricing model at the annual volatility (av)
+   */
+  theoreticalPrice: number;
+  gamma: number;
+  /**
+   * Time decay per market minute
+   */
+  thetaPerMinute: number;
+  /**
+   * Time decay per full market day
+   */
+  thetaPerDay: number;
+  /**
+   * Price change per 1% change in volatility
+   */
+  vega: number;
+  /**
+   * Price change per 1% change in the risk-free rate
+   */
+  rho: number;
+  /**
+   * Implied volatility (%, like av) at the best bid, best ask and their mid, 0 when it cannot be solved
+   */
+  ivBid: number;
+  ivAsk: number;
+  ivMid: number;
+};
+
+/**
+ * LTP of a future as received by a worker, forwarded to the coordinator for candle aggregation
+ */
+export type FutureTick = {
+  underlying: string;
+  expiry: string;
+  ltp: number;
+  /**
+   * Unix timestamp in milliseconds at which the tick was received
+   */
+  timestamp: number;
 };
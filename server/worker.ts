@@ -1,10 +1,12 @@
 /**
- * Worker process for handling KiteTicker connections for a subset of symbols.
+ * Worker process for handling market data connections for a subset of symbols.
  * This file is spawned as a child process by the coordinator (index.ts).
  *
  * Environment variables:
  * - SYMBOLS: Comma-separated list of symbols to handle (required)
  * - WORKER_ID: Worker identifier for logging (optional)
+ * - MARKET_DATA_SOURCE: kite, replay or synthetic (optional, defaults to kite)
+ * - RECORD_SESSION / REPLAY_SESSION: Record ticks to, or replay ticks from, a recording (optional)
  */
 
 import { env } from '@server/lib/env';
@@ -14,17 +16,24 @@ import { kiteService } from '@server/lib/services/kite';
 import { TickerService } from '@server/lib/services/ticker';
 import { volatilityService } from '@server/lib/services/volatility';
 import type { Symbol } from '@server/shared/config';
-import type { OptionChain } from '@shared/types/types';
+import type { FutureTick, OptionChain } from '@shared/types/types';
 
 const tickerService = new TickerService();
 
 // Message types for IPC communication
 export type WorkerMessage =
   | { type: 'optionChain'; data: Record<number, OptionChain> }
+  | { type: 'futureTicks'; ticks: FutureTick[] }
+  | { type: 'watchedOptions'; data: Record<number, OptionChain> }
   | { type: 'ready' }
   | { type: 'error'; error: string };
 
-export type CoordinatorMessage = { type: 'subscribe'; sdMultiplier: number } | { type: 'shutdown' };
+export type CoordinatorMessage =
+  | { type: 'subscribe'; sdMultiplier: number }
+  | { type: 'replayStep'; frames: number }
+  | { type: 'watch'; tokens: number[] }
+  | { type: 'view'; symbols: Symbol[]; tokens: number[] }
+  | { type: 'shutdown' };
 
 const workerId = env.WORKER_ID ?? 0;
 const logPrefix = `[Worker ${workerId}]`;
@@ -50,14 +59,30 @@ tickerService.setDataCallback((data) => {
   }
 });
 
+// Send options watched outside the SD range (open positions) to coordinator
+tickerService.setWatchedOptionsCallback((data) => {
+  if (process.send) {
+    process.send({ type: 'watchedOptions', data } satisfies WorkerMessage);
+  }
+});
+
+// Forward future ticks to the coordinator for candle aggregation
+tickerService.setFutureTicksCallback((ticks) => {
+  if (process.send) {
+    process.send({ type: 'futureTicks', ticks } satisfies WorkerMessage);
+  }
+});
+
 async function main() {
-  // Verify Kite session
-  try {
-    await kiteService.getProfile();
-    logger.info(`${logPrefix} Logged in as ${env.KITE_USER_ID}`);
-  } catch (error) {
-    logger.error(`${logPrefix} Session expired. Please login again using 'npm run login'`);
-    process.exit(1);
+  // Verify Kite session (other market data sources don't need one)
+  if (env.MARKET_DATA_SOURCE === 'kite') {
+    try {
+      await kiteService.getProfile();
+      logger.info(`${logPrefix} Logged in as ${env.KITE_USER_ID}`);
+    } catch (error) {
+      logger.error(`${logPrefix} Session expired. Please login again using 'npm run login'`);
+      process.exit(1);
+    }
   }
 
   // Initialize market minutes cache
@@ -89,6 +114,12 @@ async function main() {
     if (msg.type === 'subscribe') {
       logger.info(`${logPrefix} Received subscribe command with sdMultiplier: ${msg.sdMultiplier}`);
       await tickerService.subscribeAll(msg.sdMultiplier);
+    } else if (msg.type === 'watch') {
+      tickerService.setWatchedTokens(msg.tokens);
+    } else if (msg.type === 'view') {
+      tickerService.setView(msg.symbols, msg.tokens);
+    } else if (msg.type === 'replayStep') {
+      tickerService.stepReplay(msg.frames);
     } else if (msg.type === 'shutdown') {
       logger.info(`${logPrefix} Received shutdown command`);
       await tickerService.disconnect();